@@ -0,0 +1,184 @@
+import { afterEach, describe, test, expect, vi } from 'vitest';
+import type { Document } from '@design-studio/schema';
+import {
+  checkDocumentAssets,
+  collectAssetReferences,
+  describeAssetIssue,
+} from '../../assets/assetChecker.js';
+
+function makeDocument(
+  nodes: Record<string, Record<string, unknown>>,
+  fonts: Record<string, { family: string; url?: string; variants?: unknown[] }> = {}
+): Document {
+  return { nodes, assets: { images: {}, fonts } } as unknown as Document;
+}
+
+/** fetch stub: status by URL (200 when missing), `'timeout'` aborts the request */
+function stubFetch(statuses: Record<string, number | 'timeout'>) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const status = statuses[url] ?? 200;
+    if (status === 'timeout') throw new DOMException('The operation timed out', 'TimeoutError');
+    // Servers that reject HEAD but answer a ranged GET
+    if (status === 405 && init?.method === 'GET') return new Response('x', { status: 206 });
+    return new Response(init?.method === 'HEAD' ? null : '', { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('assetChecker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('collectAssetReferences', () => {
+    test('collects image URLs by node and font URLs by family', () => {
+      const document = makeDocument(
+        {
+          a: { imageRef: 'https://cdn.example.com/logo.png' },
+          b: { backgroundImage: 'https://cdn.example.com/logo.png' },
+          c: { type: 'text', fontFamily: 'NouvelR' },
+        },
+        { NouvelR: { family: 'NouvelR', url: 'https://cdn.example.com/NouvelR.ttf' } }
+      );
+
+      expect(collectAssetReferences(document)).toEqual([
+        { url: 'https://cdn.example.com/logo.png', kind: 'image', nodeIds: ['a', 'b'] },
+        { url: 'https://cdn.example.com/NouvelR.ttf', kind: 'font', nodeIds: ['c'] },
+      ]);
+    });
+
+    test('assigns text nodes to the font file of their weight', () => {
+      const document = makeDocument(
+        {
+          a: { type: 'text', fontFamily: 'NouvelR', fontWeight: 400 },
+          b: { type: 'text', fontFamily: 'NouvelR', fontWeight: 700 },
+        },
+        {
+          NouvelR: {
+            family: 'NouvelR',
+            url: 'https://cdn.example.com/NouvelR_Book.ttf',
+            variants: [
+              { weight: 400, style: 'normal', url: 'https://cdn.example.com/NouvelR_Book.ttf' },
+              { weight: 700, style: 'normal', url: 'https://cdn.example.com/NouvelR_Bold.ttf' },
+            ],
+          },
+        }
+      );
+
+      expect(collectAssetReferences(document)).toEqual([
+        { url: 'https://cdn.example.com/NouvelR_Book.ttf', kind: 'font', nodeIds: ['a'] },
+        { url: 'https://cdn.example.com/NouvelR_Bold.ttf', kind: 'font', nodeIds: ['b'] },
+      ]);
+    });
+
+    test('assigns italic spans to the italic file', () => {
+      const document = makeDocument(
+        {
+          a: {
+            type: 'text',
+            fontFamily: 'Roboto',
+            htmlContent:
+              '<p>Plain <span style="font-family: Roboto; font-style: italic">slanted</span></p>',
+          },
+        },
+        {
+          Roboto: {
+            family: 'Roboto',
+            url: 'https://cdn.example.com/Roboto.ttf',
+            variants: [
+              { weight: 400, style: 'normal', url: 'https://cdn.example.com/Roboto.ttf' },
+              { weight: 400, style: 'italic', url: 'https://cdn.example.com/Roboto-Italic.ttf' },
+            ],
+          },
+        }
+      );
+
+      expect(collectAssetReferences(document)).toEqual([
+        { url: 'https://cdn.example.com/Roboto.ttf', kind: 'font', nodeIds: ['a'] },
+        { url: 'https://cdn.example.com/Roboto-Italic.ttf', kind: 'font', nodeIds: ['a'] },
+      ]);
+    });
+
+    test('skips wildcards, data URIs and relative paths', () => {
+      const document = makeDocument({
+        a: { imageRef: '{{{user.avatar}}}' },
+        b: { imageRef: 'https://cdn.example.com/{{{contact.photo}}}' },
+        c: { imageRef: 'data:image/png;base64,AAAA' },
+        d: { backgroundImage: 'assets/logo.png' },
+      });
+
+      expect(collectAssetReferences(document)).toEqual([]);
+    });
+  });
+
+  describe('checkDocumentAssets', () => {
+    test('reports 404s and timeouts with the nodes using them', async () => {
+      stubFetch({
+        'https://cdn.example.com/missing.png': 404,
+        'https://slow.example.com/photo.jpg': 'timeout',
+      });
+      const document = makeDocument({
+        a: { imageRef: 'https://cdn.example.com/missing.png' },
+        b: { imageRef: 'https://cdn.example.com/ok.png' },
+        c: { backgroundImage: 'https://slow.example.com/photo.jpg' },
+      });
+
+      const result = await checkDocumentAssets(document, { timeout: 50 });
+
+      expect(result.checked).toBe(3);
+      expect(result.issues).toMatchObject([
+        {
+          url: 'https://cdn.example.com/missing.png',
+          issue: 'not-found',
+          status: 404,
+          nodeIds: ['a'],
+        },
+        { url: 'https://slow.example.com/photo.jpg', issue: 'timeout', nodeIds: ['c'] },
+      ]);
+      expect(describeAssetIssue(result.issues[0])).toBe('404 Not Found');
+    });
+
+    test('falls back to a ranged GET when HEAD is not allowed', async () => {
+      const fetchMock = stubFetch({ 'https://cdn.example.com/logo.png': 405 });
+      const document = makeDocument({ a: { imageRef: 'https://cdn.example.com/logo.png' } });
+
+      const result = await checkDocumentAssets(document);
+
+      expect(result.issues).toEqual([]);
+      expect(fetchMock.mock.calls.map(([, init]) => init?.method)).toEqual(['HEAD', 'GET']);
+    });
+
+    test('reports http:// URLs as mixed content', async () => {
+      stubFetch({});
+      const document = makeDocument({ a: { imageRef: 'http://cdn.example.com/logo.png' } });
+
+      const result = await checkDocumentAssets(document);
+
+      expect(result.issues).toEqual([
+        {
+          url: 'http://cdn.example.com/logo.png',
+          kind: 'image',
+          nodeIds: ['a'],
+          issue: 'mixed-content',
+        },
+      ]);
+    });
+
+    test('requests each URL once across documents sharing a cache', async () => {
+      const fetchMock = stubFetch({});
+      const cache = new Map();
+
+      await checkDocumentAssets(
+        makeDocument({ a: { imageRef: 'https://cdn.example.com/logo.png' } }),
+        { cache }
+      );
+      await checkDocumentAssets(
+        makeDocument({ b: { imageRef: 'https://cdn.example.com/logo.png' } }),
+        { cache }
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, test, expect } from 'vitest';
+import {
+  FALLBACK_METRICS,
+  measureText,
+  parseFontFace,
+  parseFontMetrics,
+} from '../../assets/fontMetrics.js';
+
+const u16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32 = (n: number) => [...u16(n >>> 16), ...u16(n & 0xffff)];
+
+/**
+ * Minimal TrueType file: glyph 1 = 'A' (600 units), glyph 2 = 'B' and 'C'
+ * (cmap format 4), 1000 units per em, .notdef 500 units.
+ */
+function buildFont(extraTables: Array<[string, number[]]> = []): Uint8Array {
+  const head = new Array(54).fill(0);
+  head.splice(18, 2, ...u16(1000));
+  const hhea = new Array(36).fill(0);
+  hhea.splice(34, 2, ...u16(3));
+  // 3 long metrics; glyph 3 would share the last advance
+  const hmtx = [...u16(500), 0, 0, ...u16(600), 0, 0, ...u16(700), 0, 0];
+  // Segments: A (65) → glyph 1, B–C (66–67) → glyph 2 via idRangeOffset, 0xFFFF end
+  const segments = [
+    { start: 65, end: 65, delta: 1 - 65, rangeOffset: 0 },
+    { start: 66, end: 67, delta: 0, rangeOffset: 4 },
+    { start: 0xffff, end: 0xffff, delta: 1, rangeOffset: 0 },
+  ];
+  const format4 = [
+    ...u16(4),
+    ...u16(0),
+    ...u16(0),
+    ...u16(segments.length * 2),
+    ...u16(0),
+    ...u16(0),
+    ...u16(0),
+    ...segments.flatMap((s) => u16(s.end)),
+    ...u16(0),
+    ...segments.flatMap((s) => u16(s.start)),
+    ...segments.flatMap((s) => u16(s.delta & 0xffff)),
+    ...segments.flatMap((s) => u16(s.rangeOffset)),
+    // glyphIdArray for B, C
+    ...u16(2),
+    ...u16(2),
+  ];
+  const cmap = [...u16(0), ...u16(1), ...u16(3), ...u16(1), ...u32(12), ...format4];
+
+  const tables: Array<[string, number[]]> = [
+    ['cmap', cmap],
+    ['head', head],
+    ['hhea', hhea],
+    ['hmtx', hmtx],
+    ...extraTables,
+  ];
+  const bytes = [...u32(0x00010000), ...u16(tables.length), 0, 0, 0, 0, 0, 0];
+  let offset = 12 + tables.length * 16;
+  for (const [tag, data] of tables) {
+    bytes.push(...[...tag].map((c) => c.charCodeAt(0)), 0, 0, 0, 0, ...u32(offset));
+    bytes.push(...u32(data.length));
+    offset += data.length;
+  }
+  for (const [, data] of tables) bytes.push(...data);
+  return new Uint8Array(bytes);
+}
+
+/** `name` table with Windows (UTF-16BE) records, and an `OS/2` table with a weight and fsSelection */
+function buildFaceTables(
+  names: Record<number, string>,
+  os2: { weight: number; fsSelection: number }
+): Array<[string, number[]]> {
+  const entries = Object.entries(names);
+  let stringOffset = 0;
+  const records: number[] = [];
+  const strings: number[] = [];
+  for (const [nameId, value] of entries) {
+    const encoded = [...value].flatMap((c) => u16(c.charCodeAt(0)));
+    records.push(...u16(3), ...u16(1), ...u16(0x0409), ...u16(Number(nameId)));
+    records.push(...u16(encoded.length), ...u16(stringOffset));
+    strings.push(...encoded);
+    stringOffset += encoded.length;
+  }
+  const name = [
+    ...u16(0),
+    ...u16(entries.length),
+    ...u16(6 + records.length),
+    ...records,
+    ...strings,
+  ];
+
+  const os2Table = new Array(78).fill(0);
+  os2Table.splice(4, 2, ...u16(os2.weight));
+  os2Table.splice(62, 2, ...u16(os2.fsSelection));
+
+  return [
+    ['name', name],
+    ['OS/2', os2Table],
+  ];
+}
+
+describe('fontMetrics', () => {
+  test('reads advance widths from a TrueType file', () => {
+    const metrics = parseFontMetrics(buildFont());
+
+    expect(metrics).not.toBeNull();
+    expect(metrics?.unitsPerEm).toBe(1000);
+    expect(metrics?.defaultAdvance).toBe(500);
+    expect(Object.fromEntries(metrics?.advances ?? [])).toEqual({ 65: 600, 66: 700, 67: 700 });
+  });
+
+  test('returns null for WOFF and truncated files', () => {
+    expect(parseFontMetrics(new TextEncoder().encode('wOFF\0\0\0\0'))).toBeNull();
+    expect(parseFontMetrics(buildFont().slice(0, 40))).toBeNull();
+  });
+
+  test('reads the typographic family, weight and italic flag', () => {
+    const font = buildFont(
+      buildFaceTables(
+        { 1: 'Nouvel R Bold', 2: 'Italic', 16: 'Nouvel R', 17: 'Bold Italic' },
+        { weight: 700, fsSelection: 0x1 }
+      )
+    );
+
+    expect(parseFontFace(font)).toEqual({
+      family: 'Nouvel R',
+      subfamily: 'Bold Italic',
+      weight: 700,
+      italic: true,
+    });
+  });
+
+  test('falls back to the legacy family name', () => {
+    const font = buildFont(
+      buildFaceTables({ 1: 'Roboto Light', 2: 'Regular' }, { weight: 300, fsSelection: 0x40 })
+    );
+
+    expect(parseFontFace(font)).toMatchObject({
+      family: 'Roboto Light',
+      weight: 300,
+      italic: false,
+    });
+    expect(parseFontFace(buildFont())).toBeNull();
+  });
+
+  test('measures text with font metrics', () => {
+    const metrics = parseFontMetrics(buildFont()) ?? undefined;
+
+    // A + B + unmapped 'x' (.notdef) at 20px
+    expect(measureText('ABx', { size: 20, metrics })).toEqual({ width: 36, lines: 1 });
+  });
+
+  test('measures the longest line with the fallback table', () => {
+    // "Hi" = H (722) + i (222) → 944/1000 × 10px
+    expect(measureText('Hi\nHi   Hi', { size: 10 })).toEqual({ width: 21.66, lines: 2 });
+    expect(measureText('é', { size: 10 })).toEqual(measureText('e', { size: 10 }));
+  });
+
+  test('fallback bold text is wider', () => {
+    const regular = measureText('Total', { size: 16, metrics: FALLBACK_METRICS });
+    const bold = measureText('Total', { size: 16, weight: 700, metrics: FALLBACK_METRICS });
+    expect(bold.width).toBeGreaterThan(regular.width);
+  });
+});
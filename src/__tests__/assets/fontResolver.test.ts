@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'vitest';
+import { findFontFace, findFontVariant, resolveFonts } from '../../assets/fontResolver.js';
+import type { ProlibuLayout } from '../../types/prolibu.js';
+
+function makeLayout(fontNames: string[], defaultFont?: string): ProlibuLayout {
+  return {
+    defaultFont,
+    embeddedFonts: fontNames.map((fontName) => ({
+      fontName,
+      fontUrl: `https://s3.example.com/${fontName}`,
+    })),
+  } as unknown as ProlibuLayout;
+}
+
+describe('fontResolver', () => {
+  test('groups weight and style files into one family', () => {
+    const fonts = resolveFonts(
+      makeLayout([
+        'NouvelR_Bold__roge__1234.ttf',
+        'NouvelR_Book__roge__1234.ttf',
+        'NouvelR-LightItalic.otf',
+      ])
+    );
+
+    expect(Object.keys(fonts.fontAssets)).toEqual(['NouvelR']);
+    expect(fonts.fontAssets.NouvelR).toMatchObject({
+      family: 'NouvelR',
+      weights: [300, 400, 700],
+      url: 'https://s3.example.com/NouvelR_Book__roge__1234.ttf',
+      variants: [
+        { weight: 300, style: 'italic', name: 'NouvelR-LightItalic' },
+        { weight: 400, style: 'normal', name: 'NouvelR_Book__roge__1234' },
+        { weight: 700, style: 'normal', name: 'NouvelR_Bold__roge__1234' },
+      ],
+    });
+    expect(fonts.availableFonts).toEqual(['NouvelR']);
+  });
+
+  test('maps v1 names with and without the upload suffix to the family', () => {
+    const fonts = resolveFonts(makeLayout(['NouvelR_Bold__roge__1234.ttf'], 'NouvelR_Bold'));
+    const bold = { family: 'NouvelR', weight: 700, style: 'normal' };
+
+    expect(fonts.faces.NouvelR_Bold__roge__1234).toEqual(bold);
+    expect(findFontFace('"NouvelR_Bold.ttf"', fonts.faces)).toEqual(bold);
+    expect(fonts.defaultFontFamily).toBe('NouvelR');
+  });
+
+  test('prefers the names read from the font file', () => {
+    const fonts = resolveFonts(makeLayout(['nr-b.ttf']), {
+      'nr-b': { family: 'Nouvel R', subfamily: 'Bold Italic', weight: 700, italic: true },
+    });
+
+    expect(fonts.faces['nr-b']).toEqual({ family: 'Nouvel R', weight: 700, style: 'italic' });
+    expect(fonts.fontAssets).toHaveProperty('Nouvel R');
+  });
+
+  test('puts files that were not read in the family read from their siblings', () => {
+    // Only the files downloaded on this run were read
+    const fonts = resolveFonts(makeLayout(['NouvelR_Book.ttf', 'NouvelR_Heavy.ttf']), {
+      NouvelR_Heavy: { family: ' Nouvel  R', subfamily: 'Heavy', weight: 900, italic: false },
+    });
+
+    expect(fonts.faces.NouvelR_Book).toEqual({ family: 'Nouvel R', weight: 400, style: 'normal' });
+    expect(Object.keys(fonts.fontAssets)).toEqual(['Nouvel R']);
+    expect(fonts.fontAssets['Nouvel R'].weights).toEqual([400, 900]);
+  });
+
+  test('keeps names without a weight as their own family', () => {
+    const fonts = resolveFonts(makeLayout(['Montserrat.ttf', 'Highlight.ttf']));
+
+    expect(fonts.faces.Montserrat).toEqual({ family: 'Montserrat', weight: 400, style: 'normal' });
+    expect(fonts.faces.Highlight).toEqual({ family: 'Highlight', weight: 400, style: 'normal' });
+  });
+
+  test('findFontVariant picks the closest weight in the style', () => {
+    const asset = {
+      variants: [
+        { weight: 300, style: 'normal' as const, url: 'light', name: 'light' },
+        { weight: 700, style: 'normal' as const, url: 'bold', name: 'bold' },
+        { weight: 400, style: 'italic' as const, url: 'italic', name: 'italic' },
+      ],
+    };
+
+    expect(findFontVariant(asset, 600, 'normal')?.url).toBe('bold');
+    expect(findFontVariant(asset, 400, 'italic')?.url).toBe('italic');
+  });
+});
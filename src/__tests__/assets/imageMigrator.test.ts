@@ -0,0 +1,201 @@
+import { afterEach, describe, test, expect, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Document } from '@design-studio/schema';
+import {
+  collectImageUrls,
+  createImageCache,
+  extractDataUris,
+  rewriteImageUrls,
+  syncImages,
+} from '../../assets/imageMigrator.js';
+
+const API = { baseUrl: 'https://dest.example.com', authToken: 'token' };
+
+const PNG_DATA_URI = `data:image/png;base64,${Buffer.from('PNG-LOGO').toString('base64')}`;
+
+function makeDocument(nodes: Record<string, Record<string, unknown>>): Document {
+  return { nodes, assets: { images: {} } } as unknown as Document;
+}
+
+/** fetch stub: GET returns the bytes for the URL, POST /v2/file returns a new file */
+function stubFetch(contents: Record<string, string | number>) {
+  let uploads = 0;
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    if (init?.method === 'POST') {
+      uploads++;
+      return Response.json({ _id: `file-${uploads}`, url: `https://cdn.example.com/${uploads}` });
+    }
+    const content = contents[url];
+    if (typeof content === 'number') return new Response('', { status: content });
+    return new Response(content, { headers: { 'content-type': 'image/png' } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { uploads: () => uploads };
+}
+
+describe('imageMigrator', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('collectImageUrls', () => {
+    test('collects remote URLs with the nodes using them', () => {
+      const document = makeDocument({
+        a: { imageRef: 'https://src.example.com/logo.png' },
+        b: { backgroundImage: 'https://src.example.com/logo.png' },
+        c: { imageRef: 'https://src.example.com/photo.jpg' },
+      });
+
+      expect(Object.fromEntries(collectImageUrls(document))).toEqual({
+        'https://src.example.com/logo.png': ['a', 'b'],
+        'https://src.example.com/photo.jpg': ['c'],
+      });
+    });
+
+    test('skips wildcards, data URIs and relative paths', () => {
+      const document = makeDocument({
+        a: { imageRef: '{{{user.avatar}}}' },
+        b: { imageRef: 'https://src.example.com/{{{contact.photo}}}' },
+        c: { imageRef: 'data:image/png;base64,AAAA' },
+        d: { backgroundImage: '/img/logo.png' },
+      });
+
+      expect(collectImageUrls(document).size).toBe(0);
+    });
+  });
+
+  test('rewriteImageUrls only replaces mapped references', () => {
+    const document = makeDocument({
+      a: { imageRef: 'https://src.example.com/a.png' },
+      b: { imageRef: 'https://src.example.com/b.png' },
+    });
+
+    rewriteImageUrls(document, { 'https://src.example.com/a.png': 'https://cdn.example.com/a' });
+
+    expect(document.nodes.a).toMatchObject({ imageRef: 'https://cdn.example.com/a' });
+    expect(document.nodes.b).toMatchObject({ imageRef: 'https://src.example.com/b.png' });
+  });
+
+  describe('syncImages', () => {
+    test('uploads identical content once and registers the asset', async () => {
+      const fetchStub = stubFetch({
+        'https://src.example.com/logo.png': 'PNG-LOGO',
+        'https://mirror.example.com/logo.png': 'PNG-LOGO',
+      });
+      const document = makeDocument({
+        a: { imageRef: 'https://src.example.com/logo.png' },
+        b: { imageRef: 'https://mirror.example.com/logo.png' },
+      });
+
+      const result = await syncImages(document, API);
+
+      expect(fetchStub.uploads()).toBe(1);
+      expect(result.uploaded).toEqual(['https://src.example.com/logo.png']);
+      expect(result.reused).toEqual(['https://mirror.example.com/logo.png']);
+      expect(document.nodes.a).toMatchObject({ imageRef: 'https://cdn.example.com/1' });
+      expect(document.nodes.b).toMatchObject({ imageRef: 'https://cdn.example.com/1' });
+      expect(document.assets.images['file-1']).toMatchObject({
+        url: 'https://cdn.example.com/1',
+        mimeType: 'image/png',
+        size: 8,
+      });
+    });
+
+    test('reuses uploads from the shared cache across documents', async () => {
+      const fetchStub = stubFetch({ 'https://src.example.com/logo.png': 'PNG-LOGO' });
+      const cache = createImageCache();
+
+      await syncImages(
+        makeDocument({ a: { imageRef: 'https://src.example.com/logo.png' } }),
+        API,
+        cache
+      );
+      const second = await syncImages(
+        makeDocument({ b: { imageRef: 'https://src.example.com/logo.png' } }),
+        API,
+        cache
+      );
+
+      expect(fetchStub.uploads()).toBe(1);
+      expect(second.reused).toEqual(['https://src.example.com/logo.png']);
+    });
+
+    test('keeps the source URL when the download fails', async () => {
+      stubFetch({ 'https://src.example.com/missing.png': 404 });
+      const document = makeDocument({ a: { imageRef: 'https://src.example.com/missing.png' } });
+
+      const result = await syncImages(document, API);
+
+      expect(result.failed).toEqual([
+        {
+          url: 'https://src.example.com/missing.png',
+          error: 'Failed to download: HTTP 404',
+          nodeIds: ['a'],
+        },
+      ]);
+      expect(document.nodes.a).toMatchObject({ imageRef: 'https://src.example.com/missing.png' });
+      expect(document.assets.images).toEqual({});
+    });
+  });
+
+  describe('extractDataUris', () => {
+    test('writes each distinct image once to the local folder', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'data-uris-'));
+      try {
+        const document = makeDocument({
+          a: { imageRef: PNG_DATA_URI },
+          b: { backgroundImage: PNG_DATA_URI },
+          c: { imageRef: 'data:image/svg+xml;utf8,%3Csvg%2F%3E' },
+        });
+
+        const result = await extractDataUris(document, { type: 'local', dir, urlPrefix: 'assets' });
+
+        expect(result).toMatchObject({ extracted: 2, references: 3, failed: [] });
+        expect(await readdir(dir)).toHaveLength(2);
+
+        const logoRef = (document.nodes.a as unknown as { imageRef: string }).imageRef;
+        expect(logoRef).toMatch(/^assets\/[0-9a-f]{16}\.png$/);
+        expect(document.nodes.b).toMatchObject({ backgroundImage: logoRef });
+        expect(await readFile(join(dir, logoRef.slice('assets/'.length)), 'utf-8')).toBe(
+          'PNG-LOGO'
+        );
+        expect(document.nodes.c).toMatchObject({ imageRef: expect.stringMatching(/\.svg$/) });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('reports the payload bytes saved', async () => {
+      const fetchStub = stubFetch({});
+      const document = makeDocument({
+        a: { imageRef: PNG_DATA_URI },
+        b: { imageRef: PNG_DATA_URI },
+      });
+
+      const result = await extractDataUris(document, { type: 'upload', apiConfig: API });
+
+      expect(fetchStub.uploads()).toBe(1);
+      expect(result.inlineBytes).toBe(PNG_DATA_URI.length * 2);
+      expect(result.savedBytes).toBe(
+        (PNG_DATA_URI.length - 'https://cdn.example.com/1'.length) * 2
+      );
+      expect(document.assets.images['file-1']).toMatchObject({ mimeType: 'image/png', size: 8 });
+    });
+
+    test('keeps invalid data URIs inline', async () => {
+      const dataUri = 'data:image/png;base64,@@@';
+      const document = makeDocument({ a: { imageRef: dataUri } });
+
+      const result = await extractDataUris(document, {
+        type: 'local',
+        dir: '/nonexistent',
+        urlPrefix: 'assets',
+      });
+
+      expect(result.failed).toEqual([{ error: 'Invalid base64 data', nodeIds: ['a'] }]);
+      expect(document.nodes.a).toMatchObject({ imageRef: dataUri });
+    });
+  });
+});
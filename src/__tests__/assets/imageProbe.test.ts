@@ -0,0 +1,96 @@
+import { afterEach, describe, test, expect, vi } from 'vitest';
+import { dataUriImageSize, probeImageSizes, readImageSize } from '../../assets/imageProbe.js';
+
+const u16be = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32be = (n: number) => [...u16be(n >>> 16), ...u16be(n & 0xffff)];
+
+describe('imageProbe', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('readImageSize', () => {
+    test('reads PNG, GIF and BMP headers', () => {
+      const png = [
+        0x89,
+        0x50,
+        0x4e,
+        0x47,
+        0x0d,
+        0x0a,
+        0x1a,
+        0x0a,
+        ...u32be(13),
+        0x49,
+        0x48,
+        0x44,
+        0x52,
+      ];
+      expect(readImageSize(new Uint8Array([...png, ...u32be(640), ...u32be(480)]))).toEqual({
+        width: 640,
+        height: 480,
+      });
+
+      const gif = [...Buffer.from('GIF89a'), 0x20, 0x03, 0x58, 0x02];
+      expect(readImageSize(new Uint8Array(gif))).toEqual({ width: 800, height: 600 });
+
+      const bmp = new Uint8Array(26);
+      bmp.set(Buffer.from('BM'));
+      new DataView(bmp.buffer).setInt32(18, 300, true);
+      new DataView(bmp.buffer).setInt32(22, -200, true);
+      expect(readImageSize(bmp)).toEqual({ width: 300, height: 200 });
+    });
+
+    test('skips JPEG segments up to the start-of-frame marker', () => {
+      const app0 = [0xff, 0xe0, ...u16be(6), 0, 0, 0, 0];
+      const sof2 = [0xff, 0xc2, ...u16be(11), 8, ...u16be(1080), ...u16be(1920), 3, 0, 0];
+      expect(readImageSize(new Uint8Array([0xff, 0xd8, ...app0, ...sof2]))).toEqual({
+        width: 1920,
+        height: 1080,
+      });
+    });
+
+    test('reads SVG width/height or viewBox', () => {
+      const svg = (attributes: string) => new Uint8Array(Buffer.from(`<?xml?><svg ${attributes}>`));
+      expect(readImageSize(svg('width="120" height="40px"'))).toEqual({ width: 120, height: 40 });
+      expect(readImageSize(svg('viewBox="0 0 300 150" width="100%"'))).toEqual({
+        width: 300,
+        height: 150,
+      });
+      expect(readImageSize(svg('viewBox="0 0 300 150" width="60"'))).toEqual({
+        width: 60,
+        height: 30,
+      });
+    });
+
+    test('returns null for unknown or truncated files', () => {
+      expect(readImageSize(new Uint8Array(Buffer.from('<html></html>')))).toBeNull();
+      expect(readImageSize(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d]))).toBeNull();
+    });
+  });
+
+  test('dataUriImageSize decodes base64 and percent-encoded data URIs', () => {
+    expect(dataUriImageSize('data:image/gif;base64,R0lGODlhAQABAAAAACwAAAAAAQABAAA=')).toEqual({
+      width: 1,
+      height: 1,
+    });
+    expect(
+      dataUriImageSize('data:image/svg+xml,%3Csvg%20width%3D%2210%22%20height%3D%2220%22%3E')
+    ).toEqual({ width: 10, height: 20 });
+    expect(dataUriImageSize('data:image/png;base64,@@')).toBeNull();
+  });
+
+  test('probeImageSizes gives up on hosts that never answer', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+          })
+      )
+    );
+
+    await expect(probeImageSizes(['https://slow.example.com/a.png'], 20)).resolves.toEqual({});
+  });
+});
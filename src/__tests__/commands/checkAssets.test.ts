@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import type { Document } from '@design-studio/schema';
+import { buildTemplateAssetReport, summarizeAssetReports } from '../../commands/checkAssets.js';
+
+const DOCUMENT = {
+  nodes: { logo: { name: 'Logo' }, title: { name: 'Title' } },
+  assets: { images: {}, fonts: {} },
+} as unknown as Document;
+
+describe('check-assets', () => {
+  test('buildTemplateAssetReport names the nodes of each issue', () => {
+    const report = buildTemplateAssetReport('main.json', 'Main', DOCUMENT, {
+      checked: 2,
+      issues: [
+        {
+          url: 'https://cdn.example.com/logo.png',
+          kind: 'image',
+          issue: 'not-found',
+          status: 404,
+          nodeIds: ['logo'],
+        },
+      ],
+    });
+
+    expect(report.issues).toEqual([
+      {
+        url: 'https://cdn.example.com/logo.png',
+        kind: 'image',
+        issue: 'not-found',
+        status: 404,
+        nodes: [{ id: 'logo', name: 'Logo' }],
+      },
+    ]);
+  });
+
+  test('summarizeAssetReports does not count mixed content as broken', () => {
+    const issue = (type: 'timeout' | 'mixed-content') => ({
+      url: 'http://cdn.example.com/a.png',
+      kind: 'image' as const,
+      issue: type,
+      nodes: [],
+    });
+
+    const summary = summarizeAssetReports([
+      { source: 'a', name: 'A', checked: 1, issues: [issue('timeout'), issue('mixed-content')] },
+      { source: 'b', name: 'B', checked: 0, issues: [] },
+    ]);
+
+    expect(summary).toMatchObject({ templates: 2, broken: 1, timeout: 1, 'mixed-content': 1 });
+  });
+});
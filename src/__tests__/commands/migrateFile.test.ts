@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  collectLayoutFiles,
+  outputPathsFor,
+  migrateLayoutFile,
+  buildFileReport,
+} from '../../commands/migrateFile.js';
+import { ProlibuParseError } from '../../client/prolibuClient.js';
+
+const LAYOUT = {
+  _id: 'file-template-001',
+  contentTemplateName: 'Archived Proposal',
+  contentTemplateCode: 'archived',
+  templateType: 'layout',
+  pages: [
+    {
+      name: 'Main Page',
+      children: [
+        {
+          name: 'Cover',
+          type: 'FRAME',
+          styles: { width: '792px', height: '612px' },
+          children: [
+            {
+              name: 'Title',
+              type: 'localText',
+              styles: { left: '50px', top: '100px', width: '692px', height: '60px' },
+              value: '<p>Hello</p>',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('migrate-file', () => {
+  test('collects v1 files from a directory, skipping generated outputs', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrate-file-'));
+    await writeFile(join(dir, 'b.json'), '{}');
+    await writeFile(join(dir, 'a.json'), '{}');
+    await writeFile(join(dir, 'a.v2.json'), '{}');
+    await writeFile(join(dir, 'a.report.json'), '{}');
+    await writeFile(join(dir, 'index.json'), '[]');
+    await writeFile(join(dir, 'notes.txt'), '');
+
+    expect(await collectLayoutFiles(dir)).toEqual([join(dir, 'a.json'), join(dir, 'b.json')]);
+  });
+
+  test('writes outputs next to the input', () => {
+    expect(outputPathsFor('/archive/main.json')).toEqual({
+      documentPath: '/archive/main.v2.json',
+      reportPath: '/archive/main.report.json',
+    });
+  });
+
+  test('migrates a v1 JSON file without API access', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrate-file-'));
+    const path = join(dir, 'archived.json');
+    await writeFile(path, JSON.stringify(LAYOUT));
+
+    const { layout, result } = await migrateLayoutFile(path);
+    expect(result.document.name).toBe('Archived Proposal');
+    expect(result.stats.textNodes).toBe(1);
+
+    const report = buildFileReport(path, layout, result);
+    expect(report.templateCode).toBe('archived');
+    expect(report.status).toBe(result.validation.valid ? 'valid' : 'invalid');
+  });
+
+  test('rejects files that are not a v1 layout', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'migrate-file-'));
+    const notJson = join(dir, 'broken.json');
+    const notLayout = join(dir, 'other.json');
+    await writeFile(notJson, '{ nope');
+    await writeFile(notLayout, JSON.stringify({ _id: 'x' }));
+
+    await expect(migrateLayoutFile(notJson)).rejects.toThrow(ProlibuParseError);
+    await expect(migrateLayoutFile(notLayout)).rejects.toThrow('Invalid layout structure');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { filterTemplatesByIds, templateFileName } from '../../commands/pull.js';
+
+const TEMPLATES = [
+  {
+    _id: 'id-1',
+    contentTemplateName: 'Main',
+    contentTemplateCode: 'main-layout',
+    templateType: 'layout',
+  },
+  {
+    _id: 'id-2',
+    contentTemplateName: 'Cover',
+    contentTemplateCode: 'cover',
+    templateType: 'snippet',
+  },
+  { _id: 'id-3', contentTemplateName: 'No code', templateType: 'content' },
+];
+
+describe('pull', () => {
+  describe('filterTemplatesByIds', () => {
+    test('returns every template without a filter', () => {
+      expect(filterTemplatesByIds(TEMPLATES, []).matched).toHaveLength(3);
+    });
+
+    test('matches by _id or code and reports missing ones', () => {
+      const { matched, notFound } = filterTemplatesByIds(TEMPLATES, [
+        'main-layout',
+        'id-3',
+        'nope',
+      ]);
+      expect(matched.map((t) => t._id)).toEqual(['id-1', 'id-3']);
+      expect(notFound).toEqual(['nope']);
+    });
+  });
+
+  describe('templateFileName', () => {
+    test('uses the code, or the _id when there is none', () => {
+      const used = new Set<string>();
+      expect(templateFileName(TEMPLATES[0], used)).toBe('main-layout.json');
+      expect(templateFileName(TEMPLATES[2], used)).toBe('id-3.json');
+    });
+
+    test('makes names filesystem-safe and unique', () => {
+      const used = new Set<string>();
+      const a = {
+        _id: 'a1',
+        contentTemplateName: 'A',
+        contentTemplateCode: 'x/y',
+        templateType: 'layout',
+      };
+      const b = {
+        _id: 'b2',
+        contentTemplateName: 'B',
+        contentTemplateCode: 'x:y',
+        templateType: 'layout',
+      };
+      expect(templateFileName(a, used)).toBe('x-y.json');
+      expect(templateFileName(b, used)).toBe('x-y__b2.json');
+    });
+
+    test('never overwrites the index file', () => {
+      const t = {
+        _id: 'i1',
+        contentTemplateName: 'I',
+        contentTemplateCode: 'index',
+        templateType: 'layout',
+      };
+      expect(templateFileName(t, new Set())).toBe('index__i1.json');
+    });
+  });
+});
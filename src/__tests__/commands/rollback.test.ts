@@ -0,0 +1,148 @@
+import { describe, test, expect } from 'vitest';
+import { buildPlanFromManifest, buildPlanFromDateRange } from '../../commands/rollback.js';
+import {
+  createRunManifest,
+  registerPendingTemplates,
+  recordCompleted,
+  recordFailed,
+  recordHidden,
+} from '../../pipeline/runManifest.js';
+
+describe('rollback', () => {
+  describe('buildPlanFromManifest', () => {
+    function createManifest(updateProducts: boolean) {
+      const manifest = createRunManifest('source', 'dest', {
+        type: 'all',
+        keepOriginalName: false,
+        hideOld: true,
+        updateProducts,
+      });
+      registerPendingTemplates(
+        manifest,
+        [
+          {
+            _id: 'L1',
+            contentTemplateName: 'Layout',
+            contentTemplateCode: 'lay',
+            templateType: 'layout',
+          },
+          {
+            _id: 'S1',
+            contentTemplateName: 'Snippet',
+            contentTemplateCode: 'snip',
+            templateType: 'snippet',
+          },
+          {
+            _id: 'C1',
+            contentTemplateName: 'Content',
+            contentTemplateCode: 'cont',
+            templateType: 'content',
+          },
+          {
+            _id: 'F1',
+            contentTemplateName: 'Failed',
+            contentTemplateCode: 'fail',
+            templateType: 'layout',
+          },
+        ],
+        false
+      );
+      recordCompleted(manifest, 'L1', { targetId: 'L2', action: 'created', warnings: 0 });
+      recordCompleted(manifest, 'S1', { targetId: 'S2', action: 'created', warnings: 0 });
+      recordCompleted(manifest, 'C1', { targetId: 'C2', action: 'updated', warnings: 0 });
+      recordFailed(manifest, 'F1', 'boom');
+      recordHidden(manifest, 'L1');
+      recordHidden(manifest, 'S1');
+      return manifest;
+    }
+
+    test('removes only created templates and skips updated ones', () => {
+      const plan = buildPlanFromManifest(createManifest(true));
+
+      expect(plan.templatesToRemove.map((t) => t.targetId).sort()).toEqual(['L2', 'S2']);
+      expect(plan.skipped).toHaveLength(1);
+      expect(plan.skipped[0].targetCode).toBe('cont-migrated');
+    });
+
+    test('un-hides only templates the run hid', () => {
+      const plan = buildPlanFromManifest(createManifest(true));
+      expect(plan.sourcesToUnhide.sort()).toEqual(['L1', 'S1']);
+    });
+
+    test('reverts snippet IDs only when products were updated', () => {
+      expect(buildPlanFromManifest(createManifest(true)).snippetRevertMap).toEqual(
+        new Map([['S2', 'S1']])
+      );
+      expect(buildPlanFromManifest(createManifest(false)).snippetRevertMap.size).toBe(0);
+    });
+  });
+
+  describe('buildPlanFromDateRange', () => {
+    const source = [
+      {
+        _id: 'S1',
+        contentTemplateName: 'Snippet',
+        contentTemplateCode: 'snip',
+        templateType: 'snippet',
+      },
+      {
+        _id: 'L1',
+        contentTemplateName: 'Layout',
+        contentTemplateCode: 'lay',
+        templateType: 'layout',
+      },
+    ];
+    const dest = [
+      {
+        _id: 'S2',
+        contentTemplateName: 'Snippet',
+        contentTemplateCode: 'snip-migrated',
+        templateType: 'snippet',
+        createdAt: '2026-03-01T10:00:00.000Z',
+      },
+      {
+        _id: 'L2',
+        contentTemplateName: 'Layout',
+        contentTemplateCode: 'lay-migrated',
+        templateType: 'layout',
+        createdAt: '2026-02-01T10:00:00.000Z', // outside range
+      },
+      {
+        _id: 'X2',
+        contentTemplateName: 'Native',
+        contentTemplateCode: 'native',
+        templateType: 'layout',
+        createdAt: '2026-03-01T11:00:00.000Z', // not a migrated code
+      },
+    ];
+
+    const range = {
+      since: new Date('2026-03-01T00:00:00.000Z'),
+      until: new Date('2026-03-02T00:00:00.000Z'),
+    };
+
+    test('matches -migrated templates created in range', () => {
+      const plan = buildPlanFromDateRange([...dest, ...source], [...dest, ...source], {
+        from: 'acme',
+        to: 'acme',
+        ...range,
+      });
+
+      expect(plan.templatesToRemove.map((t) => t.targetId)).toEqual(['S2']);
+      expect(plan.snippetRevertMap).toEqual(new Map([['S2', 'S1']]));
+    });
+
+    test('does not un-hide sources it has no record of hiding', () => {
+      const plan = buildPlanFromDateRange(dest, dest, { from: 'dest', to: 'dest', ...range });
+      expect(plan.sourcesToUnhide).toEqual([]);
+    });
+
+    test('does not point products at source-account snippet IDs', () => {
+      const plan = buildPlanFromDateRange(dest, source, { from: 'source', to: 'dest', ...range });
+
+      expect(plan.templatesToRemove.map((t) => t.targetId)).toEqual(['S2']);
+      expect(plan.snippetRevertMap.size).toBe(0);
+      expect(plan.skipped).toEqual([{ targetCode: 'snip-migrated', reason: expect.any(String) }]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DEFAULT_COMPONENT_MAP,
+  loadComponentMap,
+  mapComponentProps,
+  mergeComponentMap,
+  parseComponentMapFile,
+} from '../../config/componentMap.js';
+
+const YAML_MAP = `
+# Account-specific components
+components:
+  comCountdown:
+    pluginId: com-countdown
+    componentName: Countdown
+    renameProps: { endDate: deadline }
+    defaultProps:
+      showSeconds: false
+      labels: [days, hours]
+  comSign:
+    renderOnly: false
+`;
+
+describe('componentMap', () => {
+  test('parses YAML and merges over the built-in map', () => {
+    const map = mergeComponentMap(DEFAULT_COMPONENT_MAP, parseComponentMapFile(YAML_MAP, 'yaml'));
+
+    expect(map.comCountdown).toEqual({
+      pluginId: 'com-countdown',
+      componentName: 'Countdown',
+      renameProps: { endDate: 'deadline' },
+      defaultProps: { showSeconds: false, labels: ['days', 'hours'] },
+      renderOnly: false,
+    });
+    // Partial override keeps the built-in fields
+    expect(map.comSign).toMatchObject({ pluginId: 'com-sign', renderOnly: false });
+    expect(map.comQuote).toBe(DEFAULT_COMPONENT_MAP.comQuote);
+  });
+
+  test('accepts full YAML syntax (block scalars, anchors)', () => {
+    const file = parseComponentMapFile(
+      [
+        'components:',
+        '  comNote:',
+        '    pluginId: com-note',
+        '    defaultProps:',
+        '      title: &title Notes',
+        '      heading: *title',
+        '      text: |',
+        '        Line one',
+        '        Line two',
+      ].join('\n'),
+      'yaml'
+    );
+    expect(file.components.comNote.defaultProps).toEqual({
+      title: 'Notes',
+      heading: 'Notes',
+      text: 'Line one\nLine two\n',
+    });
+  });
+
+  test('new components require a pluginId', () => {
+    const file = parseComponentMapFile('{"components":{"comNew":{"componentName":"New"}}}', 'json');
+    expect(() => mergeComponentMap(DEFAULT_COMPONENT_MAP, file)).toThrow('pluginId is required');
+  });
+
+  test('rejects unknown fields and bad component names', () => {
+    expect(() =>
+      parseComponentMapFile('{"components":{"comQuote":{"pluginid":"x"}}}', 'json')
+    ).toThrow('components.comQuote');
+    expect(() => parseComponentMapFile('components:\n  quote:\n    pluginId: x\n', 'yaml')).toThrow(
+      'components.quote'
+    );
+  });
+
+  test('renames props and fills defaults without overriding v1 values', () => {
+    const mapping = {
+      ...DEFAULT_COMPONENT_MAP.comQuote,
+      renameProps: { title: 'heading' },
+      defaultProps: { heading: 'Default', currency: 'USD' },
+    };
+    expect(mapComponentProps({ title: 'Pricing' }, mapping)).toEqual({
+      heading: 'Pricing',
+      currency: 'USD',
+    });
+  });
+
+  test('loadComponentMap names the file in errors', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'component-map-'));
+    const path = join(dir, 'map.yml');
+    await writeFile(path, 'components:\n  comX:\n    pluginId: [unclosed\n');
+
+    await expect(loadComponentMap(path)).rejects.toThrow(`Invalid component map ${path}`);
+    await expect(loadComponentMap(join(dir, 'missing.json'))).rejects.toThrow('Cannot read');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { parseColor } from '../../converters/colorParser.js';
+import { parseColor, tryParseColor } from '../../converters/colorParser.js';
 
 describe('colorParser', () => {
   test('rgb(255, 0, 128) → RGBA', () => {
@@ -49,4 +49,46 @@ describe('colorParser', () => {
   test('handles whitespace', () => {
     expect(parseColor('  rgb( 50 , 100 , 150 )  ')).toEqual({ r: 50, g: 100, b: 150, a: 1 });
   });
+
+  test('hsl() and hsla() → RGBA', () => {
+    expect(parseColor('hsl(120, 100%, 25%)')).toEqual({ r: 0, g: 128, b: 0, a: 1 });
+    expect(parseColor('hsla(0, 100%, 50%, 0.5)')).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('hsl(0.5turn 100% 50%)')).toEqual({ r: 0, g: 255, b: 255, a: 1 });
+  });
+
+  test('space-separated syntax with percentages and slash alpha', () => {
+    expect(parseColor('rgb(255 0 0 / 50%)')).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('rgb(100%, 50%, 0%)')).toEqual({ r: 255, g: 128, b: 0, a: 1 });
+    expect(parseColor('rgba(10 20 30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+  });
+
+  test('#RGBA shorthand', () => {
+    expect(parseColor('#f008')).toEqual({ r: 255, g: 0, b: 0, a: 0.53 });
+  });
+
+  test('all CSS named colors', () => {
+    expect(parseColor('RebeccaPurple')).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+    expect(parseColor('lightgoldenrodyellow')).toEqual({ r: 250, g: 250, b: 210, a: 1 });
+  });
+
+  test('currentColor resolves only when given', () => {
+    const red = { r: 255, g: 0, b: 0, a: 1 };
+    expect(tryParseColor('currentColor', { currentColor: red })).toEqual({ ok: true, color: red });
+    expect(tryParseColor('currentColor').ok).toBe(false);
+  });
+
+  test('var() uses its fallback, otherwise fails', () => {
+    expect(parseColor('var(--brand, #00f)')).toEqual({ r: 0, g: 0, b: 255, a: 1 });
+    expect(tryParseColor('var(--brand)')).toEqual({
+      ok: false,
+      error: 'unresolved CSS variable --brand',
+    });
+  });
+
+  test('invalid colors return an error', () => {
+    expect(tryParseColor('#12').ok).toBe(false);
+    expect(tryParseColor('rgb(1, 2)').ok).toBe(false);
+    expect(tryParseColor('hsl(red, 10%, 10%)').ok).toBe(false);
+    expect(tryParseColor('foobar')).toEqual({ ok: false, error: 'unrecognized color "foobar"' });
+  });
 });
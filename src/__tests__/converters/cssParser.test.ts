@@ -4,6 +4,8 @@ import {
   parsePx,
   parseDimension,
   resolveFontFamily,
+  tryParseLength,
+  splitCssList,
 } from '../../converters/cssParser.js';
 
 describe('cssParser', () => {
@@ -27,6 +29,10 @@ describe('cssParser', () => {
     test('"none" → null', () => {
       expect(parsePx('none')).toBeNull();
     });
+
+    test('unitless "12" → 12', () => {
+      expect(parsePx('12')).toBe(12);
+    });
   });
 
   describe('parseDimension', () => {
@@ -58,8 +64,62 @@ describe('cssParser', () => {
       expect(parseDimension(undefined, 792)).toBeNull();
     });
 
-    test('"90%" without parent → 90 (fallback)', () => {
-      expect(parseDimension('90%')).toBe(90);
+    test('"90%" without parent → null (cannot be resolved)', () => {
+      expect(parseDimension('90%')).toBeNull();
+    });
+
+    test('calc() mixing percentages and px', () => {
+      expect(parseDimension('calc(100% - 40px)', 792)).toBe(752);
+    });
+  });
+
+  describe('tryParseLength', () => {
+    test('converts absolute units to px', () => {
+      expect(tryParseLength('12pt')).toEqual({ ok: true, value: 16 });
+      expect(tryParseLength('1in')).toEqual({ ok: true, value: 96 });
+      expect(tryParseLength('10mm')).toEqual({ ok: true, value: 37.8 });
+    });
+
+    test('resolves font-relative and viewport units from the context', () => {
+      const context = { fontSize: 14, viewport: { width: 792, height: 612 } };
+      expect(tryParseLength('2em', context)).toEqual({ ok: true, value: 28 });
+      expect(tryParseLength('1.5rem', context)).toEqual({ ok: true, value: 24 });
+      expect(tryParseLength('50vw', context)).toEqual({ ok: true, value: 396 });
+      expect(tryParseLength('10vmin', context)).toEqual({ ok: true, value: 61.2 });
+    });
+
+    test('evaluates calc(), min(), max() and clamp()', () => {
+      const context = { percentBase: 600, fontSize: 10 };
+      expect(tryParseLength('calc((100% - 2 * 20px) / 2)', context)).toEqual({
+        ok: true,
+        value: 280,
+      });
+      expect(tryParseLength('calc(-1 * 1em + 5px)', context)).toEqual({ ok: true, value: -5 });
+      expect(tryParseLength('min(50%, 200px)', context)).toEqual({ ok: true, value: 200 });
+      expect(tryParseLength('clamp(10px, 5%, 20px)', context)).toEqual({ ok: true, value: 20 });
+      expect(tryParseLength('var(--gap, 8px)')).toEqual({ ok: true, value: 8 });
+    });
+
+    test('reports what it cannot resolve', () => {
+      expect(tryParseLength('50%')).toEqual({
+        ok: false,
+        error: 'percentage without a parent size',
+      });
+      expect(tryParseLength('10vh')).toEqual({ ok: false, error: 'vh without a page size' });
+      expect(tryParseLength('3foo')).toEqual({ ok: false, error: 'unknown unit "foo"' });
+      expect(tryParseLength('calc(10px * 2px)')).toMatchObject({ ok: false });
+      expect(tryParseLength('calc(10px + 5)')).toMatchObject({ ok: false });
+      expect(tryParseLength('fit-content')).toMatchObject({ ok: false });
+    });
+
+    test('requires whitespace around binary + and -', () => {
+      const error = '"-" needs whitespace on both sides';
+      expect(tryParseLength('calc(5px -3px)')).toEqual({ ok: false, error });
+      expect(tryParseLength('calc(5px- 3px)')).toEqual({ ok: false, error });
+      expect(tryParseLength('5px-3px')).toEqual({ ok: false, error });
+      expect(tryParseLength('calc(5px+3px)')).toMatchObject({ ok: false });
+      expect(tryParseLength('calc(5px - -3px)')).toEqual({ ok: true, value: 8 });
+      expect(tryParseLength('calc(-5px + 3px)')).toEqual({ ok: true, value: -2 });
     });
   });
 
@@ -83,6 +143,19 @@ describe('cssParser', () => {
       expect(result.visible).toBe(true);
     });
 
+    test('reads numeric and unitless styles as px', () => {
+      const result = parseNodeStyles({
+        left: 10,
+        top: '20',
+        width: '200',
+        height: 50,
+        fontSize: '14',
+      });
+
+      expect(result).toMatchObject({ x: 10, y: 20, width: 200, height: 50, fontSize: 14 });
+      expect(result.unresolvedLengths).toBeUndefined();
+    });
+
     test('display: none → visible: false', () => {
       const result = parseNodeStyles({ display: 'none', width: '100px', height: '50px' });
       expect(result.visible).toBe(false);
@@ -114,6 +187,182 @@ describe('cssParser', () => {
       expect(result.backgroundImage).toBe('https://example.com/img.jpg');
     });
 
+    test('keeps gradient layers apart from the background image', () => {
+      const result = parseNodeStyles({
+        backgroundImage: 'linear-gradient(rgba(0, 0, 0, 0.5), transparent), url(cover.jpg)',
+      });
+      expect(result.backgroundGradients).toEqual([
+        'linear-gradient(rgba(0, 0, 0, 0.5), transparent)',
+      ]);
+      expect(result.backgroundImage).toBe('cover.jpg');
+    });
+
+    test('gradient-only background has no backgroundImage', () => {
+      const result = parseNodeStyles({ backgroundImage: 'radial-gradient(#fff, #000)' });
+      expect(result.backgroundGradients).toEqual(['radial-gradient(#fff, #000)']);
+      expect(result.backgroundImage).toBeUndefined();
+    });
+
+    test('parses box and text shadows', () => {
+      const result = parseNodeStyles({
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2), inset 0 0 0 1px #ddd',
+        textShadow: '1px 1px 2px black',
+      });
+      expect(result.boxShadows).toEqual([
+        { x: 0, y: 4, blur: 12, spread: 0, color: 'rgba(0, 0, 0, 0.2)', inset: false },
+        { x: 0, y: 0, blur: 0, spread: 1, color: '#ddd', inset: true },
+      ]);
+      expect(result.textShadows).toEqual([
+        { x: 1, y: 1, blur: 2, spread: 0, color: 'black', inset: false },
+      ]);
+    });
+
+    test('parses filter blur/drop-shadow and lists unsupported effects', () => {
+      const result = parseNodeStyles({
+        filter: 'blur(4px) drop-shadow(2px 2px 3px red) grayscale(1)',
+        boxShadow: '2px 2px red blue',
+        mixBlendMode: 'Multiply',
+      });
+      expect(result.blur).toBe(4);
+      expect(result.dropShadows).toEqual([
+        { x: 2, y: 2, blur: 3, spread: 0, color: 'red', inset: false },
+      ]);
+      expect(result.blendMode).toBe('multiply');
+      expect(result.unsupportedEffects).toEqual([
+        'boxShadow: 2px 2px red blue',
+        'filter: grayscale(1)',
+      ]);
+    });
+
+    test('parses per-side borders in declaration order', () => {
+      const result = parseNodeStyles({
+        border: '1px solid #ddd',
+        borderLeft: 'none',
+        borderBottomColor: 'rgb(0, 0, 0)',
+        borderTopWidth: '3px',
+      });
+      expect(result.borders).toEqual({
+        top: { width: 3, style: 'solid', color: '#ddd' },
+        right: { width: 1, style: 'solid', color: '#ddd' },
+        bottom: { width: 1, style: 'solid', color: 'rgb(0, 0, 0)' },
+      });
+      // First drawn side when they differ
+      expect(result.border).toEqual({ width: 1, style: 'solid', color: 'rgb(0, 0, 0)' });
+    });
+
+    test('parses border longhands with 1–4 values', () => {
+      const result = parseNodeStyles({ borderWidth: '0 0 1px', borderStyle: 'dotted' });
+      expect(result.borders).toEqual({
+        bottom: { width: 1, style: 'dotted', color: 'currentColor' },
+      });
+    });
+
+    test('parses per-corner radii', () => {
+      expect(parseNodeStyles({ borderRadius: '8px' }).borderRadius).toBe(8);
+      expect(parseNodeStyles({ borderRadius: '8px 0 0 8px' }).cornerRadii).toEqual({
+        topLeft: 8,
+        topRight: 0,
+        bottomRight: 0,
+        bottomLeft: 8,
+      });
+      expect(
+        parseNodeStyles({ width: '100px', height: '40px', borderTopRightRadius: '50%' }).cornerRadii
+      ).toEqual({ topLeft: 0, topRight: 20, bottomRight: 0, bottomLeft: 0 });
+    });
+
+    test('folds translate and rotate into position and rotation', () => {
+      const result = parseNodeStyles({
+        left: '100px',
+        top: '50px',
+        width: '80px',
+        height: '40px',
+        transform: 'translate(10px, -50%) rotate(45deg)',
+      });
+      expect(result).toMatchObject({ x: 110, y: 30, width: 80, height: 40, rotation: 45 });
+      expect(result.unsupportedTransforms).toBeUndefined();
+    });
+
+    test('scales around the transform origin', () => {
+      const result = parseNodeStyles({
+        left: '0px',
+        top: '0px',
+        width: '100px',
+        height: '50px',
+        transform: 'scale(2)',
+        transformOrigin: 'top left',
+      });
+      expect(result).toMatchObject({ x: 0, y: 0, width: 200, height: 100, rotation: 0 });
+      expect(result.transformScale).toEqual({ x: 2, y: 2 });
+    });
+
+    test('flips are dropped, not read as a rotation', () => {
+      const box = { left: '0px', top: '0px', width: '100px', height: '50px' };
+
+      for (const transform of ['scaleX(-1)', 'scale(-1, 1)', 'scaleY(-1)']) {
+        const result = parseNodeStyles({ ...box, transform });
+        expect(result).toMatchObject({ x: 0, y: 0, width: 100, height: 50, rotation: 0 });
+        expect(result.unsupportedTransforms).toEqual(['flip']);
+      }
+      expect(parseNodeStyles({ ...box, transform: 'rotate(30deg) scaleX(-1)' }).rotation).toBe(30);
+    });
+
+    test('rotation around a corner moves the box center', () => {
+      const result = parseNodeStyles({
+        left: '0px',
+        top: '0px',
+        width: '100px',
+        height: '100px',
+        transform: 'rotate(90deg)',
+        transformOrigin: '0 0',
+      });
+      expect(result).toMatchObject({ x: -100, y: 0, rotation: 90 });
+    });
+
+    test('lists skew and matrix as unsupported', () => {
+      const result = parseNodeStyles({
+        width: '100px',
+        height: '100px',
+        transform: 'rotate(0.25turn) skewX(10deg) matrix(1, 0, 0, 1, 0, 0)',
+      });
+      expect(result.rotation).toBe(90);
+      expect(result.unsupportedTransforms).toEqual(['skewX(10deg)', 'matrix(1, 0, 0, 1, 0, 0)']);
+    });
+
+    test('positions from right/bottom using the parent size', () => {
+      const result = parseNodeStyles(
+        { right: '20px', bottom: '10px', width: '100px', height: '30px' },
+        { width: 800, height: 600 }
+      );
+      expect(result).toMatchObject({ x: 680, y: 560 });
+      expect(result.constraints).toEqual({ horizontal: 'right', vertical: 'bottom' });
+    });
+
+    test('stretches between both offsets when the size is auto', () => {
+      const result = parseNodeStyles(
+        { left: '20px', right: '30px', top: '10px', height: '40px' },
+        { width: 800, height: 600 }
+      );
+      expect(result).toMatchObject({ x: 20, width: 750 });
+      expect(result.constraints).toEqual({ horizontal: 'left-right', vertical: 'top' });
+    });
+
+    test('percentage offsets give center and scale constraints', () => {
+      const parent = { width: 800, height: 600 };
+      const centered = parseNodeStyles(
+        { left: '50%', top: '0px', width: '200px', height: '50px', transform: 'translateX(-50%)' },
+        parent
+      );
+      expect(centered.x).toBe(300);
+      expect(centered.constraints.horizontal).toBe('center');
+
+      const scaled = parseNodeStyles(
+        { left: '10%', top: '10%', width: '50%', height: '20%' },
+        parent
+      );
+      expect(scaled).toMatchObject({ x: 80, y: 60, width: 400, height: 120 });
+      expect(scaled.constraints).toEqual({ horizontal: 'scale', vertical: 'scale' });
+    });
+
     test('parses border shorthand', () => {
       const result = parseNodeStyles({
         border: '2px solid #ff0000',
@@ -145,10 +394,18 @@ describe('cssParser', () => {
       expect(result.y).toBe(36);
     });
 
-    test('falls back gracefully for percentage without parent', () => {
+    test('falls back to defaults for percentage without parent', () => {
       const result = parseNodeStyles({ width: '90%', height: '70%' });
-      expect(result.width).toBe(90); // fallback: percentage as number
-      expect(result.height).toBe(70);
+      expect(result.width).toBe(100);
+      expect(result.height).toBe(100);
+      expect(result.unresolvedLengths).toHaveLength(2);
+    });
+
+    test('parses em shadow lengths', () => {
+      const result = parseNodeStyles({ fontSize: '10px', boxShadow: '0.2em 0.2em 1em red' });
+      expect(result.boxShadows).toEqual([
+        { x: 2, y: 2, blur: 10, spread: 0, color: 'red', inset: false },
+      ]);
     });
 
     test('handles width: auto with parent dimensions (85% of parent)', () => {
@@ -163,6 +420,15 @@ describe('cssParser', () => {
       expect(result.x).toBe(28);
     });
 
+    test('uses the intrinsic size for auto width/height, anchored right', () => {
+      const result = parseNodeStyles(
+        { width: 'auto', height: 'auto', right: '40px', top: '20px' },
+        { width: 612, height: 792 },
+        { intrinsicSize: { width: 80, height: 19 } }
+      );
+      expect(result).toMatchObject({ x: 492, y: 20, width: 80, height: 19 });
+    });
+
     test('handles width: auto without parent dimensions', () => {
       const result = parseNodeStyles({ width: 'auto', height: '100px' });
       expect(result.width).toBe(400); // default fallback
@@ -179,6 +445,118 @@ describe('cssParser', () => {
     });
   });
 
+  describe('lengths', () => {
+    test('em lengths use the font size, inherited from the parent when not set', () => {
+      const own = parseNodeStyles({ fontSize: '20px', width: '10em', lineHeight: '1.5' });
+      expect(own).toMatchObject({ fontSize: 20, width: 200, lineHeight: 30 });
+
+      const inherited = parseNodeStyles(
+        { fontSize: '1.5em', width: '10em', height: '2rem' },
+        { width: 800, height: 600, fontSize: 12 }
+      );
+      expect(inherited).toMatchObject({ fontSize: 18, width: 180, height: 32 });
+    });
+
+    test('resolves font-size keywords against the inherited size', () => {
+      const parent = { width: 800, height: 600, fontSize: 12 };
+      const fontSize = (value: string) => parseNodeStyles({ fontSize: value }, parent).fontSize;
+      expect(fontSize('inherit')).toBe(12);
+      expect(fontSize('unset')).toBe(12);
+      expect(fontSize('initial')).toBe(16);
+      expect(fontSize('smaller')).toBe(10);
+      expect(fontSize('larger')).toBe(14.4);
+      expect(parseNodeStyles({ fontSize: 'larger' }, parent).unresolvedLengths).toBeUndefined();
+    });
+
+    test('resolves viewport units and calc() positions', () => {
+      const result = parseNodeStyles(
+        { left: 'calc(50% - 100px)', top: '10vh', width: '200px', height: '50pt' },
+        { width: 800, height: 600, viewport: { width: 800, height: 600 } }
+      );
+      expect(result).toMatchObject({ x: 300, y: 60, width: 200, height: 66.67 });
+      expect(result.unresolvedLengths).toBeUndefined();
+    });
+
+    test('lists unresolved lengths and falls back to defaults', () => {
+      const result = parseNodeStyles({ width: '50%', height: '3foo', fontSize: 'big' });
+      expect(result).toMatchObject({ width: 100, height: 100, fontSize: 16 });
+      expect(result.unresolvedLengths).toEqual([
+        'fontSize: big (cannot parse "big")',
+        'width: 50% (percentage without a parent size)',
+        'height: 3foo (unknown unit "foo")',
+      ]);
+
+      const inherited = parseNodeStyles(
+        { fontSize: 'big' },
+        { width: 800, height: 600, fontSize: 12 }
+      );
+      expect(inherited.fontSize).toBe(12);
+    });
+  });
+
+  describe('background', () => {
+    const image = { backgroundImage: 'url("a.png")', width: '200px', height: '100px' };
+
+    test('defaults to a centered, non-repeating cover', () => {
+      expect(parseNodeStyles(image).background).toEqual({
+        size: 'cover',
+        position: { x: { fraction: 0.5, px: 0 }, y: { fraction: 0.5, px: 0 } },
+        repeat: { x: false, y: false },
+      });
+      expect(parseNodeStyles({ width: '200px' }).background).toBeUndefined();
+    });
+
+    test('resolves sizes against the box and keyword positions in either order', () => {
+      const result = parseNodeStyles({
+        ...image,
+        backgroundSize: '50% auto',
+        backgroundPosition: 'top right',
+        backgroundRepeat: 'repeat-x',
+      });
+      expect(result.background).toEqual({
+        size: { width: 100, height: undefined },
+        position: { x: { fraction: 1, px: 0 }, y: { fraction: 0, px: 0 } },
+        repeat: { x: true, y: false },
+      });
+    });
+
+    test('reads edge offsets and percentages', () => {
+      const edges = parseNodeStyles({ ...image, backgroundPosition: 'right 10px bottom 20%' });
+      expect(edges.background?.position).toEqual({
+        x: { fraction: 1, px: -10 },
+        y: { fraction: 0.8, px: 0 },
+      });
+
+      const mixed = parseNodeStyles({ ...image, backgroundPosition: '25% 2em' });
+      expect(mixed.background?.position).toEqual({
+        x: { fraction: 0.25, px: 0 },
+        y: { fraction: 0, px: 32 },
+      });
+    });
+
+    test('uses the entry of the image layer in layer lists', () => {
+      const result = parseNodeStyles({
+        ...image,
+        backgroundImage: 'linear-gradient(red, blue), url(a.png)',
+        backgroundSize: 'auto, contain',
+      });
+      expect(result.background?.size).toBe('contain');
+    });
+  });
+
+  describe('splitCssList', () => {
+    test('splits at top-level commas only', () => {
+      expect(splitCssList('linear-gradient(red, blue), url("a,b.png")')).toEqual([
+        'linear-gradient(red, blue)',
+        'url("a,b.png")',
+      ]);
+    });
+
+    test('splits on whitespace outside parentheses', () => {
+      expect(splitCssList('rgb(0 0 0)  10%', ' ')).toEqual(['rgb(0 0 0)', '10%']);
+    });
+  });
+
   describe('resolveFontFamily', () => {
     test('preserves exact name when no fontMap', () => {
       // No normalization - exact name is preserved
@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import { tryParseGradient } from '../../converters/gradientParser.js';
+
+const red = { r: 255, g: 0, b: 0, a: 1 };
+const blue = { r: 0, g: 0, b: 255, a: 1 };
+
+describe('gradientParser', () => {
+  test('linear-gradient defaults to top → bottom with even stops', () => {
+    expect(tryParseGradient('linear-gradient(red, blue)')).toEqual({
+      ok: true,
+      gradient: {
+        type: 'linear',
+        angle: 180,
+        stops: [
+          { position: 0, color: red },
+          { position: 1, color: blue },
+        ],
+      },
+    });
+  });
+
+  test('angles and side directions', () => {
+    const angle = (css: string, box?: { width: number; height: number }) => {
+      const result = tryParseGradient(css, box);
+      return result.ok && result.gradient.type === 'linear' ? result.gradient.angle : null;
+    };
+    expect(angle('linear-gradient(45deg, red, blue)')).toBe(45);
+    expect(angle('linear-gradient(0.25turn, red, blue)')).toBe(90);
+    expect(angle('linear-gradient(to left, red, blue)')).toBe(270);
+    expect(angle('linear-gradient(to top right, red, blue)')).toBe(45);
+    // Corner direction follows the aspect ratio
+    expect(angle('linear-gradient(to bottom right, red, blue)', { width: 200, height: 200 })).toBe(
+      135
+    );
+  });
+
+  test('fills in missing stop positions and converts px', () => {
+    const result = tryParseGradient(
+      'linear-gradient(to right, red, rgb(0 255 0) 50px, blue, red 100%)',
+      { width: 200, height: 100 }
+    );
+    expect(result.ok && result.gradient.stops.map((s) => s.position)).toEqual([0, 0.25, 0.625, 1]);
+  });
+
+  test('radial-gradient shape and center', () => {
+    const result = tryParseGradient('radial-gradient(circle at top left, red 0%, blue 100%)');
+    expect(result).toMatchObject({
+      ok: true,
+      gradient: { type: 'radial', shape: 'circle', center: { x: 0, y: 0 } },
+    });
+  });
+
+  test('unsupported and malformed gradients return an error', () => {
+    expect(tryParseGradient('repeating-linear-gradient(red, blue 10%)')).toEqual({
+      ok: false,
+      error: 'repeating-linear-gradient() is not supported',
+    });
+    expect(tryParseGradient('conic-gradient(red, blue)').ok).toBe(false);
+    expect(tryParseGradient('linear-gradient(red)').ok).toBe(false);
+    expect(tryParseGradient('linear-gradient(red, notacolor)').ok).toBe(false);
+  });
+});
@@ -30,6 +30,29 @@ describe('quillToTiptapHtml', () => {
     expect(result).toContain('font-family: NouvelR_Bold__roge__1234');
   });
 
+  test('ql-font-FontName → family, weight and style of the file', () => {
+    const faces = {
+      NouvelR_Bold: { family: 'NouvelR', weight: 700, style: 'normal' as const },
+      NouvelR_Book: { family: 'NouvelR', weight: 400, style: 'normal' as const },
+      NouvelR_LightItalic: { family: 'NouvelR', weight: 300, style: 'italic' as const },
+    };
+
+    expect(
+      quillToTiptapHtml('<span class="ql-font-NouvelR_Bold__roge__1234">B</span>', undefined, faces)
+    ).toBe('<span style="font-family: NouvelR; font-weight: 700">B</span>');
+    // Regular files keep the tag's weight
+    expect(
+      quillToTiptapHtml(
+        '<strong class="ql-font-NouvelR_Book" style="font-weight: 700;">B</strong>',
+        undefined,
+        faces
+      )
+    ).toBe('<strong style="font-weight: 700; font-family: NouvelR">B</strong>');
+    expect(
+      quillToTiptapHtml('<span class="ql-font-NouvelR_LightItalic">I</span>', undefined, faces)
+    ).toContain('font-weight: 300; font-style: italic');
+  });
+
   test('strips pr-wildcard class', () => {
     const input = '<span class="pr-wildcard">{{ var }}</span>';
     const result = quillToTiptapHtml(input);
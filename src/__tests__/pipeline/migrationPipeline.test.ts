@@ -161,11 +161,17 @@ describe('migrationPipeline', () => {
     expect(result.stats.componentNodes).toBeGreaterThanOrEqual(1);
     expect(result.stats.lineNodes).toBeGreaterThanOrEqual(1);
 
-    // Fonts should be resolved with exact names (no normalization)
-    expect(result.document.assets.fonts).toHaveProperty('NouvelR_Book__roge__1234');
-    expect(result.document.assets.fonts).toHaveProperty('NouvelR_Bold__roge__1234');
-    // defaultFont is preserved exactly as provided in the layout
-    expect(result.document.settings.typography.defaultFontFamily).toBe('NouvelR_Book');
+    // Weight files are grouped into one family with a file per weight
+    expect(Object.keys(result.document.assets.fonts)).toEqual(['NouvelR']);
+    expect(result.document.assets.fonts.NouvelR).toMatchObject({
+      weights: [400, 700],
+      variants: [
+        { weight: 400, style: 'normal', url: 'https://s3.example.com/NouvelR_Book.ttf' },
+        { weight: 700, style: 'normal', url: 'https://s3.example.com/NouvelR_Bold.ttf' },
+      ],
+    });
+    // defaultFont resolves to its family
+    expect(result.document.settings.typography.defaultFontFamily).toBe('NouvelR');
 
     // Metadata should contain prolibu ID
     expect(result.document.metadata.custom.prolibuId).toBe('test-template-001');
@@ -0,0 +1,98 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createRunManifest,
+  registerPendingTemplates,
+  recordCompleted,
+  recordFailed,
+  getEntriesByStatus,
+  getRetryableIds,
+  loadRunManifest,
+  createManifestWriter,
+} from '../../pipeline/runManifest.js';
+
+const OPTIONS = { type: 'all', keepOriginalName: false, hideOld: false, updateProducts: true };
+
+const TEMPLATES = [
+  {
+    _id: 'a1',
+    contentTemplateName: 'Layout A',
+    contentTemplateCode: 'layout-a',
+    templateType: 'layout',
+  },
+  { _id: 'b2', contentTemplateName: 'Snippet B', templateType: 'snippet' },
+  {
+    _id: 'c3',
+    contentTemplateName: 'Content C',
+    contentTemplateCode: 'content-c',
+    templateType: 'content',
+  },
+];
+
+describe('runManifest', () => {
+  test('registers templates as pending with target codes', () => {
+    const manifest = createRunManifest('source', 'dest', OPTIONS);
+    registerPendingTemplates(manifest, TEMPLATES, false);
+
+    expect(Object.keys(manifest.entries)).toHaveLength(3);
+    expect(manifest.entries.a1.status).toBe('pending');
+    expect(manifest.entries.a1.targetCode).toBe('layout-a-migrated');
+    // Falls back to the template name when there is no code
+    expect(manifest.entries.b2.sourceCode).toBe('Snippet B');
+  });
+
+  test('keepOriginalName keeps the source code as target code', () => {
+    const manifest = createRunManifest('source', 'dest', OPTIONS);
+    registerPendingTemplates(manifest, TEMPLATES, true);
+    expect(manifest.entries.a1.targetCode).toBe('layout-a');
+  });
+
+  test('retryable IDs exclude completed templates', () => {
+    const manifest = createRunManifest('source', 'dest', OPTIONS);
+    registerPendingTemplates(manifest, TEMPLATES, false);
+
+    recordCompleted(manifest, 'a1', { targetId: 'new-a1', action: 'created', warnings: 2 });
+    recordFailed(manifest, 'b2', 'API error: 401 Unauthorized');
+
+    expect(manifest.entries.a1.targetId).toBe('new-a1');
+    expect(manifest.entries.a1.warnings).toBe(2);
+    expect(manifest.entries.b2.error).toContain('401');
+    expect(getEntriesByStatus(manifest, 'completed').map((e) => e.sourceId)).toEqual(['a1']);
+    expect(getRetryableIds(manifest)).toEqual(new Set(['b2', 'c3']));
+  });
+
+  test('re-registering does not reset existing entries', () => {
+    const manifest = createRunManifest('source', 'dest', OPTIONS);
+    registerPendingTemplates(manifest, TEMPLATES, false);
+    recordCompleted(manifest, 'a1', { targetId: 'new-a1', action: 'updated', warnings: 0 });
+
+    registerPendingTemplates(manifest, TEMPLATES, false);
+    expect(manifest.entries.a1.status).toBe('completed');
+  });
+
+  test('round-trips through disk', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'manifest-'));
+    const path = join(dir, 'nested', 'run.json');
+
+    const manifest = createRunManifest('source', 'dest', OPTIONS);
+    registerPendingTemplates(manifest, TEMPLATES, false);
+    recordCompleted(manifest, 'c3', { targetId: 'new-c3', action: 'created', warnings: 0 });
+
+    const save = createManifestWriter(path);
+    await Promise.all([save(manifest), save(manifest)]);
+
+    const loaded = await loadRunManifest(path);
+    expect(loaded).toEqual(manifest);
+  });
+
+  test('rejects files that are not a manifest', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'manifest-'));
+    const path = join(dir, 'bad.json');
+    await createManifestWriter(path)({ nope: true } as never);
+
+    await expect(loadRunManifest(path)).rejects.toThrow('Invalid manifest structure');
+    expect(await readFile(path, 'utf-8')).toContain('nope');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect } from 'vitest';
+import { renderHtmlReport } from '../../report/htmlReport.js';
+import type { MigrationResult } from '../../pipeline/migrationPipeline.js';
+import type { ProlibuLayout } from '../../types/prolibu.js';
+
+const LAYOUT = {
+  contentTemplateName: 'Main <Layout>',
+  contentTemplateCode: 'main-layout',
+  pages: [
+    {
+      children: [
+        {
+          name: 'Cover',
+          type: 'FRAME',
+          styles: { width: '800px', height: '600px', backgroundColor: '#ff0000' },
+          children: [
+            {
+              name: 'Title',
+              type: 'localText',
+              styles: { left: '10px', top: '20px', width: '300px', height: '40px' },
+              content: '<p>Hello &amp; welcome</p>',
+            },
+            { name: 'Widget', type: 'localMystery', styles: { left: '0px', top: '100px' } },
+          ],
+        },
+      ],
+    },
+  ],
+} as unknown as ProlibuLayout;
+
+const RESULT = {
+  document: {
+    pages: [{ id: 'p1', name: 'Cover', rootId: 'root' }],
+    nodes: {
+      root: {
+        id: 'root',
+        type: 'FRAME',
+        x: 0,
+        y: 0,
+        width: 816,
+        height: 1056,
+        visible: true,
+        opacity: 1,
+        rotation: 0,
+        children: ['t1', 'c1'],
+        fills: [{ type: 'solid', color: { r: 255, g: 0, b: 0, a: 1 }, opacity: 1 }],
+      },
+      t1: {
+        id: 't1',
+        type: 'TEXT',
+        x: 10,
+        y: 20,
+        width: 300,
+        height: 40,
+        visible: true,
+        opacity: 1,
+        rotation: 0,
+        children: [],
+        fills: [],
+        fontSize: 16,
+        fontFamily: 'inherit',
+        characters: 'Hello & welcome',
+      },
+      c1: {
+        id: 'c1',
+        type: 'COMPONENT',
+        x: 0,
+        y: 200,
+        width: 100,
+        height: 100,
+        visible: true,
+        opacity: 1,
+        rotation: 0,
+        children: [],
+        componentName: 'comFoo',
+      },
+    },
+  },
+  validation: { valid: true, errors: [], warnings: [] },
+  warnings: [
+    {
+      code: 'UnknownComponent',
+      severity: 'warning',
+      message: '"comFoo" has no plugin mapping',
+      targetNodeId: 'c1',
+    },
+    {
+      code: 'UnknownNodeType',
+      severity: 'error',
+      message: '"localMystery" (name: "Widget") — skipped',
+      sourceNode: { name: 'Widget', type: 'localMystery', path: 'Cover / Widget' },
+    },
+  ],
+  skippedNodes: [
+    {
+      name: 'Widget',
+      type: 'localMystery',
+      path: 'Cover / Widget',
+      reason: 'Unknown node type "localMystery"',
+    },
+  ],
+  stats: { pages: 1, totalSourceNodes: 2, migratedNodes: 1, skippedNodes: 1 },
+} as unknown as MigrationResult;
+
+describe('htmlReport', () => {
+  const html = renderHtmlReport({ layout: LAYOUT, result: RESULT, source: 'main.json' });
+
+  test('renders a self-contained page with escaped template data', () => {
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toContain('<script');
+    expect(html).toContain('<h1>Main &lt;Layout&gt;</h1>');
+    expect(html).toContain('Nodes: 1 migrated, 1 skipped');
+  });
+
+  test('draws v1 boxes from styles and v2 nodes from the document', () => {
+    expect(html).toContain('background-color:rgba(255, 0, 0, 1)');
+    expect(html).toContain('left:10px;top:20px;width:300px;height:40px');
+    expect(html).toContain('Hello &amp; welcome</div>');
+    expect(html).toContain('<span class="label">comFoo</span>');
+  });
+
+  test('highlights skipped nodes and nodes with warnings', () => {
+    expect(html).toMatch(
+      /class="node skipped"[^>]*title="localMystery\nSkipped: Unknown node type/
+    );
+    expect(html).toMatch(/class="node warned"[^>]*title="COMPONENT\nUnknownComponent: /);
+    expect(html).toContain('<td>Cover / Widget</td><td>localMystery</td>');
+  });
+});
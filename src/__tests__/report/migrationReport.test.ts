@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createMigrationReport,
+  summarizeWarnings,
+  buildTemplateReport,
+  buildErrorTemplateReport,
+  addTemplateReport,
+  renderJUnitXml,
+} from '../../report/migrationReport.js';
+import type { MigrationResult } from '../../pipeline/migrationPipeline.js';
+import type { MigrationWarning } from '../../types/migrationWarning.js';
+
+const UNKNOWN_NODE: MigrationWarning = {
+  code: 'UnknownNodeType',
+  severity: 'error',
+  message: '"foo" — skipped',
+  sourceNode: { name: 'foo', type: 'foo', path: 'Cover / foo' },
+};
+const RENDER_ONLY: MigrationWarning = {
+  code: 'RenderOnlyComponent',
+  severity: 'info',
+  message: '"comSign" is not editable in canvas',
+};
+
+function createResult(valid: boolean, warnings: MigrationWarning[] = []): MigrationResult {
+  return {
+    document: { name: 'Doc' },
+    validation: {
+      valid,
+      errors: valid ? [] : [{ code: 'MISSING_NODE', message: 'Node <x> missing', path: 'nodes.x' }],
+      warnings: [],
+    },
+    warnings,
+    stats: { pages: 1, totalSourceNodes: 3, migratedNodes: 3, skippedNodes: 0 },
+    timings: { fetchMs: 100, fontSyncMs: 50, imageSyncMs: 0, assetCheckMs: 0, transformMs: 25 },
+  } as unknown as MigrationResult;
+}
+
+const REF = { sourceId: 'id-1', name: 'Main Layout', templateType: 'layout' };
+
+describe('migrationReport', () => {
+  test('summarizes warnings by severity and code', () => {
+    const summary = summarizeWarnings([UNKNOWN_NODE, UNKNOWN_NODE, RENDER_ONLY]);
+    expect(summary.total).toBe(3);
+    expect(summary.bySeverity).toEqual({ info: 1, warning: 0, error: 2 });
+    expect(Object.keys(summary.byCode)).toEqual(['UnknownNodeType', 'RenderOnlyComponent']);
+  });
+
+  test('builds a template entry with upload info and timings', () => {
+    const entry = buildTemplateReport(REF, createResult(true, [UNKNOWN_NODE]), {
+      action: 'updated',
+      targetId: 'new-1',
+      uploadMs: 200,
+    });
+
+    expect(entry.status).toBe('passed');
+    expect(entry.action).toBe('updated');
+    expect(entry.warnings.total).toBe(1);
+    expect(entry.timings?.totalMs).toBe(375);
+  });
+
+  test('counts passed, failed and errored templates', () => {
+    const report = createMigrationReport('migrate-all', { from: 'a', to: 'b' });
+    addTemplateReport(report, buildTemplateReport(REF, createResult(true)));
+    addTemplateReport(
+      report,
+      buildTemplateReport({ ...REF, sourceId: 'id-2' }, createResult(false))
+    );
+    addTemplateReport(
+      report,
+      buildErrorTemplateReport({ ...REF, sourceId: 'id-3' }, new Error('401'))
+    );
+
+    expect(report.summary).toEqual({ total: 3, passed: 1, failed: 1, errors: 1 });
+    expect(report.templates[2].error).toBe('401');
+  });
+
+  test('fails a valid template on --fail-on warnings', () => {
+    const entry = buildTemplateReport(REF, createResult(true, [UNKNOWN_NODE]), {}, [UNKNOWN_NODE]);
+    expect(entry.status).toBe('failed');
+
+    const report = createMigrationReport('migrate');
+    addTemplateReport(report, entry);
+    expect(renderJUnitXml(report)).toContain(
+      '<failure message="fail-on warnings: UnknownNodeType" type="WarningFailure">'
+    );
+  });
+
+  test('renders JUnit XML with failures for validation errors', () => {
+    const report = createMigrationReport('transfer', { from: 'a', to: 'b' });
+    addTemplateReport(report, buildTemplateReport(REF, createResult(false, [UNKNOWN_NODE])));
+    addTemplateReport(
+      report,
+      buildErrorTemplateReport({ ...REF, sourceId: 'id-2' }, 'boom & bust')
+    );
+
+    const xml = renderJUnitXml(report);
+    expect(xml).toContain('tests="2" failures="1" errors="1"');
+    expect(xml).toContain('<failure message="1 validation error(s)" type="ValidationError">');
+    expect(xml).toContain('Node &lt;x&gt; missing (nodes.x) [MISSING_NODE]');
+    expect(xml).toContain('<error message="boom &amp; bust" type="MigrationError"/>');
+    expect(xml).toContain(
+      '<system-out>UnknownNodeType: &quot;foo&quot; — skipped (at Cover / foo)</system-out>'
+    );
+  });
+});
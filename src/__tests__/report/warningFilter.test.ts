@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createWarningFilter,
+  filterWarnings,
+  findFailingWarnings,
+} from '../../report/warningFilter.js';
+import type { MigrationWarning } from '../../types/migrationWarning.js';
+
+const WARNINGS: MigrationWarning[] = [
+  { code: 'UnknownNodeType', severity: 'error', message: '"foo" — skipped' },
+  { code: 'MissingLocalCom', severity: 'warning', message: 'localGroup "G" has no localCom' },
+  { code: 'PagePresetResolved', severity: 'info', message: 'Using V2 "quote" preset' },
+];
+
+describe('warningFilter', () => {
+  test('defaults keep every warning and fail on nothing', () => {
+    const filter = createWarningFilter({});
+    expect(filterWarnings(WARNINGS, filter)).toHaveLength(3);
+    expect(findFailingWarnings(WARNINGS, filter)).toEqual([]);
+  });
+
+  test('--warn-level drops lower severities', () => {
+    const filter = createWarningFilter({ warnLevel: 'warning' });
+    expect(filterWarnings(WARNINGS, filter).map((w) => w.code)).toEqual([
+      'UnknownNodeType',
+      'MissingLocalCom',
+    ]);
+  });
+
+  test('--ignore-warning accepts repeated and comma-separated codes', () => {
+    const filter = createWarningFilter({
+      ignoreWarning: ['PagePresetResolved', 'MissingLocalCom,UnknownNodeType'],
+    });
+    expect(filterWarnings(WARNINGS, filter)).toEqual([]);
+  });
+
+  test('--fail-on matches codes or severities, regardless of --warn-level', () => {
+    const byCode = createWarningFilter({ warnLevel: 'error', failOn: 'MissingLocalCom' });
+    expect(findFailingWarnings(WARNINGS, byCode).map((w) => w.code)).toEqual(['MissingLocalCom']);
+
+    const bySeverity = createWarningFilter({ failOn: 'error' });
+    expect(findFailingWarnings(WARNINGS, bySeverity).map((w) => w.code)).toEqual([
+      'UnknownNodeType',
+    ]);
+  });
+
+  test('ignored codes never fail the run', () => {
+    const filter = createWarningFilter({ failOn: 'error', ignoreWarning: ['UnknownNodeType'] });
+    expect(findFailingWarnings(WARNINGS, filter)).toEqual([]);
+  });
+
+  test('rejects unknown levels and codes', () => {
+    expect(() => createWarningFilter({ warnLevel: 'loud' })).toThrow('--warn-level');
+    expect(() => createWarningFilter({ ignoreWarning: ['Nope'] })).toThrow('--ignore-warning');
+    expect(() => createWarningFilter({ failOn: 'UnknownNode' })).toThrow('--fail-on');
+  });
+
+  test('rejects inherited object keys as levels', () => {
+    expect(() => createWarningFilter({ warnLevel: 'constructor' })).toThrow('--warn-level');
+    expect(() => createWarningFilter({ failOn: 'toString' })).toThrow('--fail-on');
+  });
+});
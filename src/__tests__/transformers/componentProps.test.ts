@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import {
+  migrateComponentProps,
+  migrateComponentPropsWithWarnings,
+} from '../../transformers/componentProps.js';
+import type { TransformContext } from '../../transformers/nodeRouter.js';
+
+describe('componentProps', () => {
+  test('com-quote: reshapes summary and comma-separated columns', () => {
+    const { props, issues } = migrateComponentProps('com-quote', {
+      title: 'Pricing',
+      summary: { show: true },
+      columns: 'name, unitPrice, qty',
+      showTaxes: 'false',
+    });
+
+    expect(props).toEqual({
+      title: 'Pricing',
+      showSummary: true,
+      columns: ['name', 'unitPrice', 'qty'],
+      showTaxes: false,
+    });
+    expect(issues).toEqual([]);
+  });
+
+  test('com-payment-plan: renames props and coerces numeric strings', () => {
+    const { props } = migrateComponentProps('com-payment-plan', {
+      payments: '3',
+      showPercent: true,
+    });
+    expect(props).toEqual({ installments: 3, showPercentages: true });
+  });
+
+  test('reports v1 props dropped because their v2 name is also set', () => {
+    const { props, issues } = migrateComponentProps('com-payment-plan', {
+      payments: 3,
+      installments: 4,
+    });
+
+    expect(props).toEqual({ installments: 4 });
+    expect(issues).toEqual([
+      {
+        prop: 'payments',
+        kind: 'invalid',
+        message: '"installments" is also set (v2 name) and wins',
+      },
+    ]);
+  });
+
+  test('com-accordion: maps item content to body', () => {
+    const { props } = migrateComponentProps('com-accordion', {
+      openFirst: true,
+      items: [{ title: 'FAQ', content: '<p>Answer</p>' }],
+    });
+    expect(props).toEqual({
+      expandFirst: true,
+      items: [{ title: 'FAQ', body: '<p>Answer</p>' }],
+    });
+  });
+
+  test('keeps unknown props and drops invalid ones one by one', () => {
+    const { props, issues } = migrateComponentProps('com-quote', {
+      title: 'Pricing',
+      legacyColor: '#fff',
+      currency: 'dollars',
+    });
+
+    expect(props).toEqual({ title: 'Pricing', legacyColor: '#fff' });
+    expect(issues.map((i) => [i.prop, i.kind])).toEqual([
+      ['legacyColor', 'unknown'],
+      ['currency', 'invalid'],
+    ]);
+  });
+
+  test('plugins without a schema keep their props', () => {
+    const props = { hideAvatar: true, anything: [1, 2] };
+    expect(migrateComponentProps('com-agent', props)).toEqual({ props, issues: [] });
+  });
+
+  test('records UnknownProp / InvalidProp warnings on the component', () => {
+    const ctx = { warnings: [] } as unknown as TransformContext;
+
+    migrateComponentPropsWithWarnings('com-payment-plan', { installments: 0, foo: 1 }, ctx, 'c1');
+
+    expect(ctx.warnings.map((w) => [w.code, w.targetNodeId])).toEqual([
+      ['InvalidProp', 'c1'],
+      ['UnknownProp', 'c1'],
+    ]);
+  });
+});
@@ -1,7 +1,12 @@
 import { describe, test, expect } from 'vitest';
 import { transformComponent } from '../../transformers/componentTransformer.js';
-import { createEmptyStats } from '../../transformers/nodeRouter.js';
+import { createEmptyStats, routeNode } from '../../transformers/nodeRouter.js';
 import { convertWildcards } from '../../converters/wildcardConverter.js';
+import { DEFAULT_COMPONENT_MAP } from '../../config/componentMap.js';
+import {
+  registerNodeTransformer,
+  unregisterNodeTransformer,
+} from '../../transformers/transformerRegistry.js';
 import type { TransformContext } from '../../transformers/nodeRouter.js';
 
 function createTestContext(): TransformContext {
@@ -12,6 +17,7 @@ function createTestContext(): TransformContext {
       fontAssets: {},
       availableFonts: ['Inter'],
       defaultFontFamily: 'Inter',
+      faces: {},
     },
     wildcardConverter: convertWildcards,
   };
@@ -67,7 +73,7 @@ describe('componentTransformer', () => {
 
     expect(results).toHaveLength(1);
     expect(results[0].type).toBe('COMPONENT');
-    expect(ctx.warnings.some((w) => w.includes('UnknownComponent'))).toBe(true);
+    expect(ctx.warnings.some((w) => w.code === 'UnknownComponent')).toBe(true);
   });
 
   test('warns about render-only components', () => {
@@ -83,7 +89,7 @@ describe('componentTransformer', () => {
     const results = transformComponent(groupNode, 'parent-1', ctx);
 
     expect(results).toHaveLength(1);
-    expect(ctx.warnings.some((w) => w.includes('RenderOnlyComponent'))).toBe(true);
+    expect(ctx.warnings.some((w) => w.code === 'RenderOnlyComponent')).toBe(true);
 
     const component = results[0];
     if (component.type === 'COMPONENT') {
@@ -114,20 +120,137 @@ describe('componentTransformer', () => {
     }
   });
 
-  test('warns when localGroup has no localCom child', () => {
+  test('warns when a configured localGroup has no localCom child', () => {
     const ctx = createTestContext();
     const groupNode = {
       name: 'EmptyGroup',
       type: 'localGroup',
       styles: { width: '100px', height: '100px' },
-      comCompConfig: {},
+      comCompConfig: { comQuote: { title: 'Lost' } },
       children: [],
     };
 
     const results = transformComponent(groupNode, 'parent-1', ctx);
 
-    expect(results).toHaveLength(1); // Just the wrapper
-    expect(ctx.warnings.some((w) => w.includes('MissingLocalCom'))).toBe(true);
+    expect(results).toHaveLength(1); // Just the frame
+    expect(results[0].type).toBe('FRAME');
+    expect(ctx.warnings.some((w) => w.code === 'MissingLocalCom')).toBe(true);
+  });
+
+  test('keeps plain localGroups as frames with their children', () => {
+    const ctx = createTestContext();
+    const groupNode = {
+      name: 'Header',
+      type: 'localGroup',
+      styles: { left: '40px', top: '30px', width: '500px', height: '80px' },
+      children: [
+        {
+          name: 'Title',
+          type: 'localText',
+          styles: { left: '10px', top: '5px', width: '50%', height: '30px' },
+          content: '<p>Proposal</p>',
+        },
+        {
+          name: 'Inner',
+          type: 'localGroup',
+          styles: { left: '0px', top: '40px', width: '200px', height: '20px' },
+          children: [
+            {
+              name: 'Bar',
+              type: 'localRectangle',
+              styles: { width: '200px', height: '2px', backgroundColor: '#000' },
+            },
+          ],
+        },
+      ],
+    };
+
+    const [frame, title, inner, bar] = routeNode(groupNode, 'parent-1', ctx);
+
+    expect(ctx.warnings).toEqual([]);
+    expect(frame).toMatchObject({ type: 'FRAME', name: 'Header', x: 40, y: 30 });
+    expect(frame.children).toEqual([title.id, inner.id]);
+    // Children keep coordinates relative to the group; % uses the group size
+    expect(title).toMatchObject({ type: 'TEXT', parentId: frame.id, x: 10, y: 5, width: 250 });
+    expect(inner).toMatchObject({ type: 'FRAME', parentId: frame.id, y: 40 });
+    expect(inner.children).toEqual([bar.id]);
+    expect(bar).toMatchObject({ type: 'RECTANGLE', parentId: inner.id });
+    expect(ctx.stats.frameNodes).toBe(2);
+  });
+
+  test('warnings point at the source node path and the created node', () => {
+    const ctx = createTestContext();
+    ctx.sourcePath = [{ name: 'Cover', type: 'FRAME' }];
+    const groupNode = {
+      name: 'EmptyGroup',
+      type: 'localGroup',
+      styles: { width: '100px', height: '100px' },
+      comCompConfig: { comQuote: {} },
+      children: [],
+    };
+
+    const results = routeNode(groupNode, 'parent-1', ctx);
+
+    expect(ctx.warnings).toHaveLength(1);
+    expect(ctx.warnings[0]).toMatchObject({
+      code: 'MissingLocalCom',
+      severity: 'warning',
+      sourceNode: { name: 'EmptyGroup', type: 'localGroup', path: 'Cover / EmptyGroup' },
+      targetNodeId: results[0].id,
+    });
+    // Path is unwound after the node is transformed
+    expect(ctx.sourcePath).toEqual([{ name: 'Cover', type: 'FRAME' }]);
+  });
+
+  test('uses the context component map for plugin IDs, props and render-only', () => {
+    const ctx = createTestContext();
+    ctx.componentMap = {
+      ...DEFAULT_COMPONENT_MAP,
+      comCountdown: {
+        pluginId: 'com-countdown',
+        componentName: 'Countdown',
+        renameProps: { endDate: 'deadline' },
+        defaultProps: { showSeconds: false },
+        renderOnly: true,
+      },
+    };
+    const groupNode = {
+      name: 'CountdownGroup',
+      type: 'localGroup',
+      styles: { width: '200px', height: '50px' },
+      comCompConfig: { comCountdown: { endDate: '2026-12-31' } },
+      children: [{ name: '--comCountdown', type: 'localCom' }],
+    };
+
+    const [component] = transformComponent(groupNode, 'parent-1', ctx);
+
+    expect(component).toMatchObject({
+      pluginId: 'com-countdown',
+      componentName: 'Countdown',
+      props: { deadline: '2026-12-31', showSeconds: false },
+    });
+    expect(ctx.warnings.map((w) => w.code)).toEqual(['RenderOnlyComponent']);
+  });
+
+  test('routes unknown types to registered custom transformers', () => {
+    const ctx = createTestContext();
+    const node = { name: 'Price', type: 'localPriceTag', styles: {} };
+
+    expect(routeNode(node, 'parent-1', ctx)).toEqual([]);
+    expect(ctx.warnings[0].code).toBe('UnknownNodeType');
+
+    registerNodeTransformer('localPriceTag', (n, parentId) => {
+      const [group] = transformComponent({ ...n, type: 'localGroup' }, parentId, ctx);
+      return group;
+    });
+    try {
+      const results = routeNode(node, 'parent-1', ctx);
+      expect(results).toHaveLength(1);
+      expect(results[0].parentId).toBe('parent-1');
+      expect(ctx.stats.migratedNodes).toBe(1);
+    } finally {
+      unregisterNodeTransformer('localPriceTag');
+    }
   });
 
   test('finds nested localCom (quotePage structure)', () => {
@@ -176,7 +299,7 @@ describe('componentTransformer', () => {
     expect(ctx.stats.frameNodes).toBe(0); // No wrapper
     expect(ctx.stats.componentNodes).toBe(1);
     // No warning for missing localCom
-    expect(ctx.warnings.some((w) => w.includes('MissingLocalCom'))).toBe(false);
+    expect(ctx.warnings.some((w) => w.code === 'MissingLocalCom')).toBe(false);
   });
 
   test('uses parent comCompConfig when nested group has none', () => {
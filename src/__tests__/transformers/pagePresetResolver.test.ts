@@ -13,6 +13,7 @@ function createTestContext(): TransformContext {
       fontAssets: {},
       availableFonts: ['Inter'],
       defaultFontFamily: 'Inter',
+      faces: {},
     },
     wildcardConverter: convertWildcards,
   };
@@ -217,7 +218,7 @@ describe('pagePresetResolver', () => {
 
       resolvePagePreset('quote-page', {}, 0, PAGE_SIZES.fixed, ctx);
 
-      expect(ctx.warnings.some((w) => w.includes('PagePresetResolved'))).toBe(true);
+      expect(ctx.warnings.some((w) => w.code === 'PagePresetResolved')).toBe(true);
     });
   });
 });
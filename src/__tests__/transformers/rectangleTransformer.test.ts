@@ -12,6 +12,7 @@ function createTestContext(): TransformContext {
       fontAssets: {},
       availableFonts: ['Inter'],
       defaultFontFamily: 'Inter',
+      faces: {},
     },
     wildcardConverter: convertWildcards,
   };
@@ -32,7 +33,7 @@ describe('rectangleTransformer', () => {
       },
     };
 
-    const result = transformRectangle(node, 'parent-1', ctx);
+    const [result] = transformRectangle(node, 'parent-1', ctx);
     expect(result.type).toBe('RECTANGLE');
     expect(result.x).toBe(10);
     expect(result.y).toBe(20);
@@ -41,6 +42,63 @@ describe('rectangleTransformer', () => {
     expect(ctx.stats.rectangleNodes).toBe(1);
   });
 
+  test('leaves out fills with an invalid color and warns', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Box',
+      type: 'localRectangle',
+      styles: { width: '200px', height: '100px', backgroundColor: 'var(--brand)' },
+    };
+
+    const [result] = transformRectangle(node, 'parent-1', ctx);
+    expect(result.type).toBe('RECTANGLE');
+    expect((result as { fills: unknown[] }).fills).toEqual([]);
+    expect(ctx.warnings).toHaveLength(1);
+    expect(ctx.warnings[0]).toMatchObject({ code: 'InvalidColor', targetNodeId: result.id });
+  });
+
+  test('creates RECTANGLE with gradient fills for gradient backgrounds', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Cover',
+      type: 'localRectangle',
+      styles: {
+        width: '200px',
+        height: '100px',
+        backgroundColor: '#000',
+        backgroundImage: 'linear-gradient(90deg, #ff0000, #0000ff)',
+      },
+    };
+
+    const [result] = transformRectangle(node, 'parent-1', ctx);
+    expect(result.type).toBe('RECTANGLE');
+    const fills = (result as { fills: Array<{ type: string }> }).fills;
+    expect(fills.map((f) => f.type)).toEqual(['solid', 'linear-gradient']);
+    expect(ctx.stats.imageNodes).toBe(0);
+  });
+
+  test('migrates box-shadow and blend mode', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Card',
+      type: 'localRectangle',
+      styles: {
+        width: '200px',
+        height: '100px',
+        backgroundColor: '#fff',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+        mixBlendMode: 'multiply',
+      },
+    };
+
+    const [result] = transformRectangle(node, 'parent-1', ctx) as Array<{
+      effects: Array<{ type: string }>;
+      blendMode: string;
+    }>;
+    expect(result.effects.map((e) => e.type)).toEqual(['drop-shadow']);
+    expect(result.blendMode).toBe('multiply');
+  });
+
   test('creates IMAGE for real backgroundImage URL', () => {
     const ctx = createTestContext();
     const node = {
@@ -53,11 +111,37 @@ describe('rectangleTransformer', () => {
       },
     };
 
-    const result = transformRectangle(node, 'parent-1', ctx);
+    const [result] = transformRectangle(node, 'parent-1', ctx);
     expect(result.type).toBe('IMAGE');
     expect(ctx.stats.imageNodes).toBe(1);
   });
 
+  test('maps backgroundSize/Position to the image scale mode and crop', () => {
+    const ctx = {
+      ...createTestContext(),
+      imageSizes: { 'https://example.com/photo.jpg': { width: 600, height: 600 } },
+    };
+    const node = {
+      name: 'Photo',
+      type: 'localRectangle',
+      styles: {
+        width: '300px',
+        height: '200px',
+        backgroundImage: 'url("https://example.com/photo.jpg")',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center top',
+      },
+    };
+
+    const [result] = transformRectangle(node, 'parent-1', ctx);
+    expect(result).toMatchObject({
+      type: 'IMAGE',
+      scaleMode: 'crop',
+      imageTransform: { scale: 0.5, offsetX: 0, offsetY: 0 },
+    });
+    expect(ctx.warnings).toEqual([]);
+  });
+
   test('creates IMAGE for wildcard backgroundImage', () => {
     const ctx = createTestContext();
     const node = {
@@ -70,11 +154,76 @@ describe('rectangleTransformer', () => {
       },
     };
 
-    const result = transformRectangle(node, 'parent-1', ctx);
+    const [result] = transformRectangle(node, 'parent-1', ctx);
     expect(result.type).toBe('IMAGE');
     if (result.type === 'IMAGE') {
       expect(result.imageRef).toContain('{{{ proposal.cover }}}');
     }
     expect(ctx.stats.imageNodes).toBe(1);
   });
+
+  test('uniform border becomes a stroke with per-corner radii', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Cell',
+      type: 'localRectangle',
+      styles: {
+        width: '200px',
+        height: '100px',
+        border: '1px solid #ccc',
+        borderRadius: '8px 0 0 8px',
+      },
+    };
+
+    const nodes = transformRectangle(node, 'parent-1', ctx);
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0]).toMatchObject({
+      strokes: [{ weight: 1, style: 'solid', color: { r: 204, g: 204, b: 204, a: 1 } }],
+      cornerRadii: { topLeft: 8, topRight: 0, bottomRight: 0, bottomLeft: 8 },
+    });
+  });
+
+  test('per-side borders become lines after the rectangle', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Row',
+      type: 'localRectangle',
+      styles: {
+        left: '10px',
+        top: '20px',
+        width: '200px',
+        height: '40px',
+        borderBottom: '2px dashed #000',
+        borderRight: '1px solid red',
+      },
+    };
+
+    const [rect, ...lines] = transformRectangle(node, 'parent-1', ctx);
+    expect((rect as { strokes: unknown[] }).strokes).toEqual([]);
+    expect(
+      lines.map((l) => ({ type: l.type, x: l.x, y: l.y, width: l.width, height: l.height }))
+    ).toEqual([
+      { type: 'LINE', x: 209, y: 20, width: 1, height: 40 },
+      { type: 'LINE', x: 10, y: 58, width: 200, height: 2 },
+    ]);
+    expect(ctx.stats.lineNodes).toBe(2);
+    expect(ctx.warnings[0]).toMatchObject({ code: 'BorderAsLines', targetNodeId: rect.id });
+  });
+
+  test('keeps bottom anchoring as a v2 constraint', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Footer',
+      type: 'localRectangle',
+      styles: { left: '0px', right: '0px', bottom: '0px', height: '40px', backgroundColor: '#000' },
+    };
+
+    const [result] = transformRectangle(node, 'parent-1', ctx, { width: 792, height: 612 });
+    expect(result).toMatchObject({
+      x: 0,
+      y: 572,
+      width: 792,
+      constraints: { horizontal: 'left-right', vertical: 'bottom' },
+    });
+  });
 });
@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'vitest';
+import type { SceneNode } from '@design-studio/schema';
+import { applyStacking, recordStacking } from '../../transformers/stacking.js';
+import type { TransformContext } from '../../transformers/nodeRouter.js';
+import type { ProlibuNode } from '../../types/prolibu.js';
+
+function box(id: string, x: number, y: number, children: string[] = []): SceneNode {
+  return { id, name: id, x, y, width: 100, height: 50, children } as unknown as SceneNode;
+}
+
+function source(name: string, zIndex?: number): ProlibuNode {
+  return {
+    name,
+    type: 'localRectangle',
+    styles: zIndex === undefined ? {} : { zIndex: String(zIndex) },
+  } as unknown as ProlibuNode;
+}
+
+function setup(...entries: Array<[SceneNode, number | undefined]>): {
+  ctx: TransformContext;
+  nodes: Record<string, SceneNode>;
+} {
+  const ctx = { warnings: [], sourcePath: [] } as unknown as TransformContext;
+  const root = box(
+    'root',
+    0,
+    0,
+    entries.map(([n]) => n.id)
+  );
+  const nodes: Record<string, SceneNode> = { root };
+  for (const [node, zIndex] of entries) {
+    (node as { parentId?: string }).parentId = 'root';
+    nodes[node.id] = node;
+    recordStacking(ctx, source(node.id, zIndex), 'root', [node]);
+  }
+  return { ctx, nodes };
+}
+
+describe('stacking', () => {
+  test('sorts siblings by zIndex and reports the overlapping pair', () => {
+    const { ctx, nodes } = setup([box('title', 10, 10), 2], [box('background', 0, 0), 0]);
+
+    applyStacking(nodes, ctx);
+
+    expect(nodes.root.children).toEqual(['background', 'title']);
+    expect(ctx.warnings).toHaveLength(1);
+    expect(ctx.warnings[0]).toMatchObject({
+      code: 'StackingReordered',
+      severity: 'info',
+      targetNodeId: 'background',
+      sourceNode: { name: 'background', type: 'localRectangle' },
+    });
+  });
+
+  test('keeps source order for equal zIndex (stable)', () => {
+    const { ctx, nodes } = setup(
+      [box('a', 0, 0), 1],
+      [box('b', 0, 0), undefined],
+      [box('c', 0, 0), 1]
+    );
+
+    applyStacking(nodes, ctx);
+
+    expect(nodes.root.children).toEqual(['b', 'a', 'c']);
+  });
+
+  test('does not warn when reordered siblings do not overlap', () => {
+    const { ctx, nodes } = setup([box('top', 0, 0), 5], [box('bottom', 0, 500), -1]);
+
+    applyStacking(nodes, ctx);
+
+    expect(nodes.root.children).toEqual(['bottom', 'top']);
+    expect(ctx.warnings).toEqual([]);
+  });
+
+  test('sorts nested children', () => {
+    const { ctx, nodes } = setup([box('group', 0, 0, ['x', 'y']), undefined]);
+    nodes.x = box('x', 0, 0);
+    nodes.y = box('y', 0, 0);
+    recordStacking(ctx, source('x', 3), 'group', [{ ...nodes.x, parentId: 'group' } as SceneNode]);
+
+    applyStacking(nodes, ctx);
+
+    expect(nodes.group.children).toEqual(['y', 'x']);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, test, expect } from 'vitest';
+import {
+  reportUnresolvedLengths,
+  resolveBlendMode,
+  resolveColor,
+  resolveEffects,
+  resolveFrameBackgroundSize,
+  resolveGradientFills,
+  resolveImageFit,
+  resolveRotation,
+} from '../../transformers/styleHelpers.js';
+import type { TransformContext } from '../../transformers/nodeRouter.js';
+import { parseNodeStyles } from '../../converters/cssParser.js';
+
+function createCtx(): TransformContext {
+  return {
+    warnings: [],
+    sourcePath: [{ name: 'Title', type: 'localText' }],
+  } as unknown as TransformContext;
+}
+
+describe('styleHelpers', () => {
+  test('resolveColor returns the color without warnings', () => {
+    const ctx = createCtx();
+    expect(resolveColor(ctx, 'hsl(0 100% 50%)', 'color')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(ctx.warnings).toEqual([]);
+  });
+
+  test('resolveColor resolves currentColor from the element color', () => {
+    const ctx = createCtx();
+    expect(resolveColor(ctx, 'currentColor', 'borderColor', { currentColor: 'navy' })).toEqual({
+      r: 0,
+      g: 0,
+      b: 128,
+      a: 1,
+    });
+  });
+
+  test('resolveColor records InvalidColor instead of returning black', () => {
+    const ctx = createCtx();
+    expect(resolveColor(ctx, 'var(--brand)', 'color', { targetNodeId: 'n1' })).toBeUndefined();
+    expect(ctx.warnings).toHaveLength(1);
+    expect(ctx.warnings[0]).toMatchObject({
+      code: 'InvalidColor',
+      severity: 'warning',
+      targetNodeId: 'n1',
+      message: 'color: unresolved CSS variable --brand — ignored',
+      sourceNode: { name: 'Title', type: 'localText', path: 'Title' },
+    });
+  });
+
+  test('resolveGradientFills returns fills bottom layer first', () => {
+    const ctx = createCtx();
+    const fills = resolveGradientFills(
+      ctx,
+      ['linear-gradient(to right, red, blue)', 'radial-gradient(white, black)'],
+      { width: 100, height: 100 }
+    );
+    expect(fills.map((f) => f.type)).toEqual(['radial-gradient', 'linear-gradient']);
+    expect(fills[1]).toMatchObject({ angle: 90, opacity: 1 });
+  });
+
+  test('resolveGradientFills records UnsupportedGradient', () => {
+    const ctx = createCtx();
+    const fills = resolveGradientFills(
+      ctx,
+      ['conic-gradient(red, blue)'],
+      { width: 100, height: 100 },
+      { targetNodeId: 'n1' }
+    );
+    expect(fills).toEqual([]);
+    expect(ctx.warnings[0]).toMatchObject({ code: 'UnsupportedGradient', targetNodeId: 'n1' });
+  });
+
+  test('resolveEffects maps shadows and blur, top shadow last', () => {
+    const ctx = createCtx();
+    const styles = parseNodeStyles({
+      color: 'navy',
+      boxShadow: '0 2px 4px red, inset 1px 1px 0 2px',
+      filter: 'blur(3px)',
+    });
+
+    expect(resolveEffects(ctx, styles)).toEqual([
+      {
+        type: 'inner-shadow',
+        color: { r: 0, g: 0, b: 128, a: 1 },
+        offset: { x: 1, y: 1 },
+        radius: 0,
+        spread: 2,
+        visible: true,
+        blendMode: 'normal',
+      },
+      {
+        type: 'drop-shadow',
+        color: { r: 255, g: 0, b: 0, a: 1 },
+        offset: { x: 0, y: 2 },
+        radius: 4,
+        spread: 0,
+        visible: true,
+        blendMode: 'normal',
+      },
+      { type: 'layer-blur', radius: 3, visible: true },
+    ]);
+    expect(ctx.warnings).toEqual([]);
+  });
+
+  test('resolveEffects uses text shadows for text nodes and warns on unsupported filters', () => {
+    const ctx = createCtx();
+    const styles = parseNodeStyles({
+      boxShadow: '0 0 4px red',
+      textShadow: '1px 1px blue',
+      filter: 'sepia(1)',
+    });
+
+    const effects = resolveEffects(ctx, styles, { text: true });
+    expect(effects).toHaveLength(1);
+    expect(effects[0]).toMatchObject({ type: 'drop-shadow', offset: { x: 1, y: 1 } });
+    expect(ctx.warnings[0]).toMatchObject({
+      code: 'UnsupportedEffect',
+      message: 'filter: sepia(1) — ignored',
+    });
+  });
+
+  test('resolveBlendMode keeps supported modes and warns on the rest', () => {
+    const ctx = createCtx();
+    expect(resolveBlendMode(ctx, parseNodeStyles({ mixBlendMode: 'screen' }))).toBe('screen');
+    expect(resolveBlendMode(ctx, parseNodeStyles({}))).toBe('normal');
+    expect(resolveBlendMode(ctx, parseNodeStyles({ mixBlendMode: 'plus-lighter' }))).toBe('normal');
+    expect(ctx.warnings).toHaveLength(1);
+    expect(ctx.warnings[0].code).toBe('UnsupportedEffect');
+  });
+
+  test('resolveRotation warns on transforms that cannot be represented', () => {
+    const ctx = createCtx();
+    const styles = parseNodeStyles({ transform: 'rotate(-15deg) skew(10deg, 5deg)' });
+    expect(resolveRotation(ctx, styles, { targetNodeId: 'n1' })).toBe(-15);
+    expect(ctx.warnings[0]).toMatchObject({
+      code: 'UnsupportedTransform',
+      targetNodeId: 'n1',
+      message: "transform: skew(10deg, 5deg) can't be represented — ignored",
+    });
+  });
+
+  test('reportUnresolvedLengths warns once per unresolved length', () => {
+    const ctx = createCtx();
+    const styles = parseNodeStyles({ width: '12furlongs', left: '10%' });
+
+    reportUnresolvedLengths(ctx, styles, { targetNodeId: 'node-1' });
+
+    expect(ctx.warnings.map((w) => [w.code, w.severity, w.targetNodeId])).toEqual([
+      ['UnresolvedLength', 'warning', 'node-1'],
+      ['UnresolvedLength', 'warning', 'node-1'],
+    ]);
+    expect(ctx.warnings[0].message).toContain('width: 12furlongs');
+  });
+
+  describe('resolveImageFit', () => {
+    const URL = 'https://cdn.example.com/photo.jpg';
+    const box = { backgroundImage: `url(${URL})`, width: '200px', height: '100px' };
+
+    function ctxWithImage(width: number, height: number): TransformContext {
+      return { ...createCtx(), imageSizes: { [URL]: { width, height } } } as TransformContext;
+    }
+
+    test('centered cover and contain need no image size', () => {
+      const ctx = createCtx();
+      const identity = { scale: 1, offsetX: 0, offsetY: 0 };
+      expect(resolveImageFit(ctx, parseNodeStyles(box), URL)).toEqual({
+        scaleMode: 'fill',
+        imageTransform: identity,
+      });
+      expect(
+        resolveImageFit(ctx, parseNodeStyles({ ...box, backgroundSize: 'contain' }), URL)
+      ).toEqual({ scaleMode: 'fit', imageTransform: identity });
+      expect(ctx.warnings).toEqual([]);
+    });
+
+    test('a positioned cover becomes a crop at the CSS offsets', () => {
+      // 400×400 covering 200×100 → scale 0.5, 200×200 drawn, top edge aligned
+      const styles = parseNodeStyles({ ...box, backgroundPosition: 'center top' });
+      expect(resolveImageFit(ctxWithImage(400, 400), styles, URL)).toEqual({
+        scaleMode: 'crop',
+        imageTransform: { scale: 0.5, offsetX: 0, offsetY: 0 },
+      });
+
+      const bottom = parseNodeStyles({ ...box, backgroundPosition: 'center bottom' });
+      expect(resolveImageFit(ctxWithImage(400, 400), bottom, URL).imageTransform).toEqual({
+        scale: 0.5,
+        offsetX: 0,
+        offsetY: -100,
+      });
+    });
+
+    test('a cover whose position has no effect stays fill', () => {
+      // Same aspect ratio as the box: nothing is cropped
+      const styles = parseNodeStyles({ ...box, backgroundPosition: 'left top' });
+      expect(resolveImageFit(ctxWithImage(400, 200), styles, URL).scaleMode).toBe('fill');
+    });
+
+    test('repeating backgrounds tile at the drawn size', () => {
+      const styles = parseNodeStyles({
+        ...box,
+        backgroundSize: '20px',
+        backgroundPosition: '5px 0',
+        backgroundRepeat: 'repeat',
+      });
+      expect(resolveImageFit(ctxWithImage(40, 40), styles, URL)).toEqual({
+        scaleMode: 'tile',
+        imageTransform: { scale: 0.5, offsetX: 5, offsetY: 0 },
+      });
+    });
+
+    test('reads the size of data URIs', () => {
+      // 1×1 GIF
+      const gif = 'data:image/gif;base64,R0lGODlhAQABAAAAACwAAAAAAQABAAA=';
+      const styles = parseNodeStyles({
+        backgroundImage: `url(${gif})`,
+        width: '10px',
+        height: '10px',
+        backgroundSize: 'auto',
+        backgroundPosition: '2px 3px',
+      });
+      expect(resolveImageFit(createCtx(), styles, gif)).toEqual({
+        scaleMode: 'crop',
+        imageTransform: { scale: 1, offsetX: 2, offsetY: 3 },
+      });
+    });
+
+    test('falls back with ImageFitApproximated when the size is unknown or stretched', () => {
+      const ctx = createCtx();
+      const positioned = parseNodeStyles({ ...box, backgroundPosition: 'left top' });
+      expect(resolveImageFit(ctx, positioned, URL).scaleMode).toBe('fill');
+
+      expect(ctx.warnings.map((w) => w.code)).toEqual(['ImageFitApproximated']);
+      expect(ctx.warnings[0].message).toContain('image size unknown');
+
+      const stretchedCtx = ctxWithImage(400, 400);
+      const stretched = parseNodeStyles({ ...box, backgroundSize: '100% 100%' });
+      expect(resolveImageFit(stretchedCtx, stretched, URL).scaleMode).toBe('fill');
+      expect(stretchedCtx.warnings[0].message).toContain('stretched image');
+    });
+  });
+
+  test('resolveFrameBackgroundSize keeps contain and approximates the rest as cover', () => {
+    const ctx = createCtx();
+    const frame = { backgroundImage: 'url(bg.png)', width: '800px', height: '600px' };
+    expect(
+      resolveFrameBackgroundSize(ctx, parseNodeStyles({ ...frame, backgroundSize: 'contain' }))
+    ).toBe('contain');
+    expect(
+      resolveFrameBackgroundSize(ctx, parseNodeStyles({ ...frame, backgroundRepeat: 'repeat' }))
+    ).toBe('cover');
+    expect(ctx.warnings.map((w) => w.code)).toEqual(['ImageFitApproximated']);
+  });
+});
@@ -12,6 +12,7 @@ function createTestContext(): TransformContext {
       fontAssets: {},
       availableFonts: ['Inter'],
       defaultFontFamily: 'Inter',
+      faces: {},
     },
     wildcardConverter: convertWildcards,
   };
@@ -112,4 +113,99 @@ describe('textTransformer', () => {
     const result = transformText(node, 'parent-1', ctx);
     expect(result.htmlContent).toContain('From content');
   });
+
+  test('sizes auto-width text that fits to its measured width', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Label',
+      type: 'localText',
+      styles: { width: 'auto', height: 'auto', right: '20px', top: '10px', fontSize: '10px' },
+      value: '<p>Hi</p>',
+    };
+
+    const result = transformText(node, 'parent-1', ctx, { width: 612, height: 792 });
+
+    // "Hi" with the fallback table: (722 + 222) / 1000 × 10px → 10px, one line of 12px
+    expect(result.width).toBe(10);
+    expect(result.height).toBe(12);
+    expect(result.x).toBe(582);
+    expect(result.textAutoResize).toBe('width-and-height');
+  });
+
+  test('keeps the 85% width for auto-width text that does not fit', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Paragraph',
+      type: 'localText',
+      styles: { width: 'auto', height: 'auto', fontSize: '16px' },
+      value: `<p>${'Lorem ipsum dolor sit amet '.repeat(10)}</p>`,
+    };
+
+    const result = transformText(node, 'parent-1', ctx, { width: 612, height: 792 });
+
+    expect(result.width).toBe(520);
+    expect(result.textAutoResize).toBe('height');
+  });
+
+  test('rewrites per-weight font names to the family and weight', () => {
+    const ctx = createTestContext();
+    ctx.fonts.faces = {
+      NouvelR_Bold: { family: 'NouvelR', weight: 700, style: 'normal' },
+      NouvelR_Book: { family: 'NouvelR', weight: 400, style: 'normal' },
+    };
+    const node = (styles: Record<string, string>) => ({
+      name: 'Text',
+      type: 'localText',
+      styles: { width: '100px', height: '20px', ...styles },
+      value: '<p>Text</p>',
+    });
+
+    expect(
+      transformText(node({ fontFamily: 'NouvelR_Bold__roge__1234' }), 'parent-1', ctx)
+    ).toMatchObject({
+      fontFamily: 'NouvelR',
+      fontWeight: 700,
+    });
+    // Regular file with a bold CSS weight keeps the CSS weight
+    expect(
+      transformText(node({ fontFamily: 'NouvelR_Book', fontWeight: '700' }), 'parent-1', ctx)
+    ).toMatchObject({
+      fontFamily: 'NouvelR',
+      fontWeight: 700,
+    });
+  });
+
+  test('warns when an italic font file is set on the whole node', () => {
+    const ctx = createTestContext();
+    ctx.fonts.faces = { 'Roboto-Italic': { family: 'Roboto', weight: 400, style: 'italic' } };
+    const node = {
+      name: 'Quote',
+      type: 'localText',
+      styles: { width: '100px', height: '20px', fontFamily: 'Roboto-Italic' },
+      value: '<p>Quote</p>',
+    };
+
+    const result = transformText(node, 'parent-1', ctx);
+
+    expect(result.fontFamily).toBe('Roboto');
+    expect(ctx.warnings.map((w) => [w.code, w.targetNodeId])).toEqual([
+      ['UnsupportedFontStyle', result.id],
+    ]);
+  });
+
+  test('attaches invalid text colors to the node', () => {
+    const ctx = createTestContext();
+    const node = {
+      name: 'Text',
+      type: 'localText',
+      styles: { width: '100px', height: '20px', color: 'not-a-color' },
+      value: '<p>Text</p>',
+    };
+
+    const result = transformText(node, 'parent-1', ctx);
+
+    expect(ctx.warnings.map((w) => [w.code, w.targetNodeId])).toEqual([
+      ['InvalidColor', result.id],
+    ]);
+  });
 });
@@ -0,0 +1,35 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import {
+  registerNodeTransformer,
+  unregisterNodeTransformer,
+  getNodeTransformer,
+  listNodeTransformers,
+  type NodeTransformer,
+} from '../../transformers/transformerRegistry.js';
+
+const noop: NodeTransformer = () => [];
+
+describe('transformerRegistry', () => {
+  afterEach(() => {
+    for (const type of listNodeTransformers()) unregisterNodeTransformer(type);
+  });
+
+  test('registers and looks up a custom node type', () => {
+    registerNodeTransformer('localPriceTag', noop);
+    expect(getNodeTransformer('localPriceTag')).toBe(noop);
+    expect(listNodeTransformers()).toEqual(['localPriceTag']);
+  });
+
+  test('rejects built-in types and duplicate registrations', () => {
+    expect(() => registerNodeTransformer('localText', noop)).toThrow('built-in');
+
+    registerNodeTransformer('localPriceTag', noop);
+    expect(() => registerNodeTransformer('localPriceTag', noop)).toThrow('already registered');
+  });
+
+  test('unregister removes the transformer', () => {
+    registerNodeTransformer('localPriceTag', noop);
+    expect(unregisterNodeTransformer('localPriceTag')).toBe(true);
+    expect(getNodeTransformer('localPriceTag')).toBeUndefined();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Asset Checker — finds dead image and font links in a migrated document
+ *
+ * Collects every `imageRef`, `backgroundImage` and font URL, requests each one
+ * (HEAD, or a one-byte GET when the server doesn't allow HEAD) through the API
+ * client's timeout and retry logic, and reports 404s, other HTTP errors,
+ * timeouts and unreachable hosts with the nodes using them. Plain `http://`
+ * URLs are also reported as mixed content (blocked on pages served over
+ * https). Wildcard expressions and `data:` URIs aren't checked.
+ */
+
+import type { Document, FontAsset } from '@design-studio/schema';
+import { fetchAsset, ProlibuApiError, ProlibuTimeoutError } from '../client/prolibuClient.js';
+import {
+  findFontVariant,
+  type FamilyFontAsset,
+  type FontFace,
+  type FontVariant,
+} from './fontResolver.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type AssetKind = 'image' | 'font';
+
+export type AssetIssueType =
+  'not-found' | 'http-error' | 'timeout' | 'unreachable' | 'mixed-content';
+
+export interface AssetReference {
+  url: string;
+  kind: AssetKind;
+  /** Nodes using the URL (text nodes drawn with the file, for fonts) */
+  nodeIds: string[];
+}
+
+export interface AssetIssue extends AssetReference {
+  issue: AssetIssueType;
+  /** HTTP status, for `not-found` and `http-error` */
+  status?: number;
+  error?: string;
+}
+
+export interface AssetCheckResult {
+  /** Distinct URLs checked */
+  checked: number;
+  issues: AssetIssue[];
+}
+
+export type UrlStatus =
+  | { ok: true }
+  | { ok: false; issue: Exclude<AssetIssueType, 'mixed-content'>; status?: number; error: string };
+
+/** URL → status, shared by the templates of a run so each URL is requested once */
+export type AssetCheckCache = Map<string, Promise<UrlStatus>>;
+
+export interface AssetCheckOptions {
+  /** Parallel requests (default: 10) */
+  concurrency?: number;
+  /** Per-request timeout in ms (default: 10000) */
+  timeout?: number;
+  cache?: AssetCheckCache;
+}
+
+const DEFAULT_CONCURRENCY = 10;
+const DEFAULT_TIMEOUT = 10_000;
+
+/** Node fields that hold an image URL */
+const IMAGE_FIELDS = ['imageRef', 'backgroundImage'] as const;
+
+// ═══════════════════════════════════════════════════════════════
+// MAIN FUNCTION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Request every asset URL of `document` and list the broken and mixed-content
+ * ones, in document order.
+ */
+export async function checkDocumentAssets(
+  document: Document,
+  options: AssetCheckOptions = {}
+): Promise<AssetCheckResult> {
+  const references = collectAssetReferences(document);
+  const cache = options.cache ?? new Map();
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  // One slot per reference keeps the issues in document order
+  const found: AssetIssue[][] = references.map(() => []);
+  const queue = references.map((reference, index) => ({ reference, index }));
+
+  const checkReference = async ({ reference, index }: (typeof queue)[number]) => {
+    if (/^http:/i.test(reference.url)) {
+      found[index].push({ ...reference, issue: 'mixed-content' });
+    }
+
+    let status = cache.get(reference.url);
+    if (!status) {
+      status = requestUrl(reference.url, timeout);
+      cache.set(reference.url, status);
+    }
+    const result = await status;
+    if (!result.ok) {
+      const { issue, status: httpStatus, error } = result;
+      found[index].unshift({ ...reference, issue, status: httpStatus, error });
+    }
+  };
+
+  // Process with concurrency limit
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await checkReference(queue.shift()!);
+    }
+  });
+  await Promise.all(workers);
+
+  return { checked: references.length, issues: found.flat() };
+}
+
+/**
+ * Checkable asset URLs of the document with the nodes using them: images in
+ * node order, then the file of each font weight/style.
+ */
+export function collectAssetReferences(document: Document): AssetReference[] {
+  const images = new Map<string, string[]>();
+  for (const [nodeId, node] of Object.entries(document.nodes)) {
+    for (const field of IMAGE_FIELDS) {
+      const value = (node as Record<string, unknown>)[field];
+      if (typeof value !== 'string' || !isCheckable(value)) continue;
+      const nodeIds = images.get(value);
+      if (nodeIds) nodeIds.push(nodeId);
+      else images.set(value, [nodeId]);
+    }
+  }
+
+  const references: AssetReference[] = [...images].map(([url, nodeIds]) => ({
+    url,
+    kind: 'image',
+    nodeIds,
+  }));
+
+  const fonts = new Map<string, string[]>();
+  const fontAssets: Record<string, FontAsset> = document.assets.fonts ?? {};
+  for (const font of Object.values(fontAssets)) {
+    const { variants } = font as Partial<FamilyFontAsset>;
+    for (const url of variants?.map((v: FontVariant) => v.url) ?? [font.url]) {
+      if (url && isCheckable(url) && !fonts.has(url)) fonts.set(url, []);
+    }
+
+    // Text nodes of the family, under the file their weight and style select
+    for (const [nodeId, node] of Object.entries(document.nodes)) {
+      for (const face of textFontFaces(node)) {
+        if (face.family !== font.family) continue;
+        const url = variants
+          ? findFontVariant({ variants }, face.weight, face.style)?.url
+          : font.url;
+        const nodeIds = url ? fonts.get(url) : undefined;
+        if (nodeIds && !nodeIds.includes(nodeId)) nodeIds.push(nodeId);
+      }
+    }
+  }
+  for (const [url, nodeIds] of fonts) {
+    references.push({ url, kind: 'font', nodeIds });
+  }
+
+  return references;
+}
+
+/** Short description of an issue, e.g. `404 Not Found` or `timed out` */
+export function describeAssetIssue(issue: Pick<AssetIssue, 'issue' | 'status' | 'error'>): string {
+  switch (issue.issue) {
+    case 'not-found':
+      return `${issue.status} Not Found`;
+    case 'http-error':
+      return `HTTP ${issue.status}`;
+    case 'timeout':
+      return 'timed out';
+    case 'unreachable':
+      return `unreachable (${issue.error})`;
+    case 'mixed-content':
+      return 'served over http:// (blocked on https pages)';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Faces a text node draws with: its own family and weight (always upright),
+ * and the `font-family` / `font-weight` / `font-style` of its HTML spans.
+ */
+function textFontFaces(node: unknown): FontFace[] {
+  const text = node as { fontFamily?: string; fontWeight?: number; htmlContent?: string };
+  const weight = text.fontWeight ?? 400;
+  const faces: FontFace[] = text.fontFamily
+    ? [{ family: text.fontFamily, weight, style: 'normal' }]
+    : [];
+  for (const [, style] of (text.htmlContent ?? '').matchAll(/\sstyle="([^"]*)"/g)) {
+    const family = style.match(/font-family:\s*([^;]+)/)?.[1].trim();
+    if (!family) continue;
+    faces.push({
+      family,
+      weight: Number(style.match(/font-weight:\s*(\d+)/)?.[1] ?? weight),
+      style: /font-style:\s*italic/.test(style) ? 'italic' : 'normal',
+    });
+  }
+  return faces;
+}
+
+/** Absolute or protocol-relative URLs, not wildcard expressions */
+function isCheckable(url: string): boolean {
+  return /^(https?:)?\/\//i.test(url) && !url.includes('{{');
+}
+
+/**
+ * HEAD the URL; servers that don't allow HEAD get a one-byte GET instead.
+ */
+async function requestUrl(url: string, timeout: number): Promise<UrlStatus> {
+  const absolute = url.startsWith('//') ? `https:${url}` : url;
+  try {
+    await fetchAsset(absolute, { method: 'HEAD' }, timeout);
+    return { ok: true };
+  } catch (error) {
+    if (
+      !(error instanceof ProlibuApiError) ||
+      (error.statusCode !== 405 && error.statusCode !== 501)
+    ) {
+      return failure(error);
+    }
+  }
+
+  try {
+    const response = await fetchAsset(
+      absolute,
+      { method: 'GET', headers: { Range: 'bytes=0-0' } },
+      timeout
+    );
+    await response.body?.cancel();
+    return { ok: true };
+  } catch (error) {
+    return failure(error);
+  }
+}
+
+function failure(error: unknown): UrlStatus {
+  if (error instanceof ProlibuTimeoutError) {
+    return { ok: false, issue: 'timeout', error: error.message };
+  }
+  if (error instanceof ProlibuApiError && error.statusCode > 0) {
+    const notFound = error.statusCode === 404 || error.statusCode === 410;
+    return {
+      ok: false,
+      issue: notFound ? 'not-found' : 'http-error',
+      status: error.statusCode,
+      error: error.message,
+    };
+  }
+  return {
+    ok: false,
+    issue: 'unreachable',
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
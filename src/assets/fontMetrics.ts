@@ -0,0 +1,328 @@
+/**
+ * Font Metrics — character advance widths for measuring text
+ *
+ * Reads the `head`, `hhea`, `hmtx` and `cmap` tables of a TTF/OTF file (the
+ * embedded fonts downloaded by fontMigrator), and the `name` and `OS/2`
+ * tables for the family, weight and style of the file. WOFF/WOFF2 files are
+ * compressed and aren't read; text in those fonts, or in fonts that weren't
+ * downloaded, is measured with a Helvetica-like fallback table.
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface FontMetrics {
+  unitsPerEm: number;
+  /** Advance width by code point, in font units */
+  advances: Map<number, number>;
+  /** Advance for characters the font doesn't map (.notdef) */
+  defaultAdvance: number;
+  /** Metrics are the fallback table, not read from the font file */
+  fallback?: boolean;
+}
+
+/** Family and style of a font file, from its `name` and `OS/2` tables */
+export interface FontFaceInfo {
+  /** Family shared by every weight and style (typographic family, else family name) */
+  family: string;
+  /** Style within the family, e.g. "Bold Italic" */
+  subfamily: string;
+  /** OS/2 weight class (1–1000), when the file has one */
+  weight?: number;
+  italic: boolean;
+}
+
+export interface TextMeasurement {
+  /** Width of the longest line, in px */
+  width: number;
+  /** Explicit lines (no wrapping) */
+  lines: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FALLBACK METRICS
+// ═══════════════════════════════════════════════════════════════
+
+/** Helvetica advance widths (per 1000 units) for ASCII 32–126 */
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space – /
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0 – ?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @ – O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P – _
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // ` – o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584, // p – ~
+];
+
+export const FALLBACK_METRICS: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: new Map(HELVETICA_WIDTHS.map((width, i) => [32 + i, width])),
+  defaultAdvance: 556,
+  fallback: true,
+};
+
+/** Bold text is wider; only applied to the fallback table (real fonts have their own widths) */
+const FALLBACK_BOLD_FACTOR = 1.06;
+
+// ═══════════════════════════════════════════════════════════════
+// MEASURING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Measure plain text without wrapping: each `\n` starts a line, runs of
+ * spaces collapse like HTML whitespace.
+ */
+export function measureText(
+  text: string,
+  font: { size: number; weight?: number; metrics?: FontMetrics }
+): TextMeasurement {
+  const metrics = font.metrics ?? FALLBACK_METRICS;
+  const scale = font.size / metrics.unitsPerEm;
+  const bold = metrics.fallback && (font.weight ?? 400) >= 600 ? FALLBACK_BOLD_FACTOR : 1;
+
+  const lines = text.split('\n').map((line) => line.replace(/\s+/g, ' ').trim());
+  let width = 0;
+  for (const line of lines) {
+    let units = 0;
+    for (const char of line) units += advanceOf(char, metrics);
+    width = Math.max(width, units * scale * bold);
+  }
+
+  return { width: Math.round(width * 100) / 100, lines: lines.length };
+}
+
+function advanceOf(char: string, metrics: FontMetrics): number {
+  const advance = metrics.advances.get(char.codePointAt(0) as number);
+  if (advance !== undefined) return advance;
+
+  // Accented letter the font doesn't map → its base letter (é → e)
+  const base = char.normalize('NFD')[0];
+  if (base !== char) {
+    const baseAdvance = metrics.advances.get(base.codePointAt(0) as number);
+    if (baseAdvance !== undefined) return baseAdvance;
+  }
+  return metrics.defaultAdvance;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════
+
+/** Code points above this aren't read from format 12 cmaps (CJK extensions, emoji…) */
+const MAX_CODE_POINT = 0x2ffff;
+
+/**
+ * Read advance widths from a TTF/OTF file. Returns null for anything else
+ * (WOFF/WOFF2, collections, truncated or malformed files).
+ */
+export function parseFontMetrics(data: Uint8Array): FontMetrics | null {
+  try {
+    return readMetrics(new DataView(data.buffer, data.byteOffset, data.byteLength));
+  } catch {
+    // Offsets outside the file
+    return null;
+  }
+}
+
+/**
+ * Read the family, subfamily, weight and italic flag of a TTF/OTF file.
+ * Returns null for other formats and files without a family name.
+ */
+export function parseFontFace(data: Uint8Array): FontFaceInfo | null {
+  try {
+    return readFace(new DataView(data.buffer, data.byteOffset, data.byteLength));
+  } catch {
+    // Offsets outside the file
+    return null;
+  }
+}
+
+/** Table tag → offset, or null when the file isn't TrueType/OpenType */
+function readTableOffsets(view: DataView): Map<string, number> | null {
+  const version = view.getUint32(0);
+  // 0x00010000 (TrueType), 'OTTO' (CFF), 'true' (Apple TrueType)
+  if (version !== 0x00010000 && version !== 0x4f54544f && version !== 0x74727565) return null;
+
+  const tables = new Map<string, number>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record),
+      view.getUint8(record + 1),
+      view.getUint8(record + 2),
+      view.getUint8(record + 3)
+    );
+    tables.set(tag, view.getUint32(record + 8));
+  }
+  return tables;
+}
+
+function readMetrics(view: DataView): FontMetrics | null {
+  const tables = readTableOffsets(view);
+  if (!tables) return null;
+
+  const head = tables.get('head');
+  const hhea = tables.get('hhea');
+  const hmtx = tables.get('hmtx');
+  const cmap = tables.get('cmap');
+  if (head === undefined || hhea === undefined || hmtx === undefined || cmap === undefined) {
+    return null;
+  }
+
+  const unitsPerEm = view.getUint16(head + 18);
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  if (unitsPerEm === 0 || numberOfHMetrics === 0) return null;
+
+  // Glyphs past numberOfHMetrics share the last advance
+  const glyphAdvance = (glyph: number) =>
+    view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+  const glyphs = readCmap(view, cmap);
+  if (!glyphs) return null;
+
+  const advances = new Map<number, number>();
+  for (const [codePoint, glyph] of glyphs) advances.set(codePoint, glyphAdvance(glyph));
+
+  return { unitsPerEm, advances, defaultAdvance: glyphAdvance(0) };
+}
+
+/** Code point → glyph ID from the best Unicode subtable (format 12, else format 4) */
+function readCmap(view: DataView, cmap: number): Map<number, number> | null {
+  const subtables: Array<{ format: number; offset: number }> = [];
+  const numTables = view.getUint16(cmap + 2);
+  for (let i = 0; i < numTables; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const offset = cmap + view.getUint32(record + 4);
+    // Unicode platform, or Windows Unicode BMP (1) / full (10)
+    if (platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10))) {
+      subtables.push({ format: view.getUint16(offset), offset });
+    }
+  }
+
+  const full = subtables.find((s) => s.format === 12);
+  if (full) return readCmapFormat12(view, full.offset);
+  const bmp = subtables.find((s) => s.format === 4);
+  if (bmp) return readCmapFormat4(view, bmp.offset);
+  return null;
+}
+
+function readCmapFormat4(view: DataView, offset: number): Map<number, number> {
+  const glyphs = new Map<number, number>();
+  const segCount = view.getUint16(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  for (let i = 0; i < segCount; i++) {
+    const end = view.getUint16(endCodes + i * 2);
+    const start = view.getUint16(startCodes + i * 2);
+    const delta = view.getInt16(idDeltas + i * 2);
+    const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph: number;
+      if (rangeOffset === 0) {
+        glyph = (code + delta) & 0xffff;
+      } else {
+        // Offset is relative to the idRangeOffset entry itself
+        const index = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+        glyph = index === 0 ? 0 : (index + delta) & 0xffff;
+      }
+      if (glyph !== 0) glyphs.set(code, glyph);
+    }
+  }
+
+  return glyphs;
+}
+
+function readCmapFormat12(view: DataView, offset: number): Map<number, number> {
+  const glyphs = new Map<number, number>();
+  const numGroups = view.getUint32(offset + 12);
+
+  for (let i = 0; i < numGroups; i++) {
+    const group = offset + 16 + i * 12;
+    const start = view.getUint32(group);
+    const end = Math.min(view.getUint32(group + 4), MAX_CODE_POINT);
+    const startGlyph = view.getUint32(group + 8);
+    for (let code = start; code <= end; code++) glyphs.set(code, startGlyph + code - start);
+  }
+
+  return glyphs;
+}
+
+function readFace(view: DataView): FontFaceInfo | null {
+  const tables = readTableOffsets(view);
+  const name = tables?.get('name');
+  if (!tables || name === undefined) return null;
+
+  // Typographic family/subfamily (16/17) group more than 4 styles; 1/2 are the legacy names
+  const names = readNames(view, name);
+  const family = names.get(16) ?? names.get(1);
+  if (!family) return null;
+  const subfamily = names.get(17) ?? names.get(2) ?? 'Regular';
+
+  const os2 = tables.get('OS/2');
+  const head = tables.get('head');
+  const weightClass = os2 !== undefined ? view.getUint16(os2 + 4) : 0;
+  // fsSelection ITALIC (bit 0) or OBLIQUE (bit 9), else head.macStyle italic (bit 1)
+  const italicFlag =
+    os2 !== undefined
+      ? (view.getUint16(os2 + 62) & 0x201) !== 0
+      : head !== undefined && (view.getUint16(head + 44) & 0x2) !== 0;
+
+  return {
+    family,
+    subfamily,
+    weight: weightClass >= 1 && weightClass <= 1000 ? weightClass : undefined,
+    italic: italicFlag || /italic|oblique/i.test(subfamily),
+  };
+}
+
+/** Name IDs read from the `name` table */
+const NAME_IDS = new Set([1, 2, 16, 17]);
+
+/**
+ * Name ID → string, preferring Windows English records, then any Windows or
+ * Unicode record, then Mac Roman (decoded as Latin-1).
+ */
+function readNames(view: DataView, offset: number): Map<number, string> {
+  const count = view.getUint16(offset + 2);
+  const storage = offset + view.getUint16(offset + 4);
+  const found = new Map<number, { rank: number; value: string }>();
+
+  for (let i = 0; i < count; i++) {
+    const record = offset + 6 + i * 12;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const language = view.getUint16(record + 4);
+    const nameId = view.getUint16(record + 6);
+    if (!NAME_IDS.has(nameId)) continue;
+
+    let rank: number;
+    if (platform === 3 && language === 0x0409) rank = 0;
+    else if (platform === 3 || platform === 0) rank = 1;
+    else if (platform === 1 && encoding === 0) rank = 2;
+    else continue;
+    if ((found.get(nameId)?.rank ?? Infinity) <= rank) continue;
+
+    const length = view.getUint16(record + 8);
+    const start = storage + view.getUint16(record + 10);
+    let value = '';
+    if (platform === 1) {
+      for (let j = 0; j < length; j++) value += String.fromCharCode(view.getUint8(start + j));
+    } else {
+      // UTF-16BE
+      for (let j = 0; j + 1 < length; j += 2)
+        value += String.fromCharCode(view.getUint16(start + j));
+    }
+    value = value.trim();
+    if (value) found.set(nameId, { rank, value });
+  }
+
+  return new Map([...found].map(([nameId, { value }]) => [nameId, value]));
+}
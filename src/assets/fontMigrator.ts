@@ -7,9 +7,17 @@
  * 3. Download missing fonts from S3
  * 4. Upload to v2 backend via API
  * 5. Generate font name mapping (oldName → same name)
+ * 6. Read character widths, family, weight and style from downloaded TTF/OTF
+ *    files (for text measuring and family grouping)
  */
 
 import type { ProlibuEmbeddedFont } from '../types/prolibu.js';
+import {
+  parseFontFace,
+  parseFontMetrics,
+  type FontFaceInfo,
+  type FontMetrics,
+} from './fontMetrics.js';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -33,6 +41,10 @@ export interface FontSyncResult {
   skipped: string[];
   /** Fonts that failed to upload */
   failed: Array<{ name: string; error: string }>;
+  /** Character widths of downloaded fonts, by original name and fontCode */
+  fontMetrics: Record<string, FontMetrics>;
+  /** Family, weight and style read from downloaded fonts, by original name and fontCode */
+  fontFaces: Record<string, FontFaceInfo>;
 }
 
 interface V2FontAsset {
@@ -66,6 +78,8 @@ export async function syncFonts(
     uploaded: [],
     skipped: [],
     failed: [],
+    fontMetrics: {},
+    fontFaces: {},
   };
 
   console.log('\n🔤 [FontSync] Starting font synchronization...');
@@ -123,6 +137,15 @@ export async function syncFonts(
     try {
       const file = await downloadFont(url, baseName);
       console.log(`   📤 UPLOAD: "${baseName}" (fontCode: "${fontCode}", size: ${file.size} bytes)`);
+
+      // Widths for measuring auto-width text, names for family grouping (null for WOFF/WOFF2)
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const metrics = parseFontMetrics(bytes);
+      const face = parseFontFace(bytes);
+      for (const name of [...originalNames, fontCode]) {
+        if (metrics) result.fontMetrics[name] = metrics;
+        if (face) result.fontFaces[name] = face;
+      }
       
       const uploaded = await uploadFont(file, baseName, fontCode, apiConfig);
       console.log(`   ✅ UPLOADED: "${baseName}" → _id="${uploaded._id}", fontCode="${uploaded.fontCode}"`);
@@ -1,126 +1,233 @@
 /**
  * Font Resolver — resolves fonts from Prolibu layout into Design Studio assets
  *
- * 1. Iterates embeddedFonts[]
- * 2. Preserves exact font names (no normalization)
- * 3. Groups by base family for weight detection
- * 4. Generates FontAsset entries with source: 'custom'
- * 5. Resolves defaultFontFamily from layout.defaultFont (exact name)
+ * 1. Iterates embeddedFonts[] (one v1 file per weight/style, e.g. `NouvelR_Bold`)
+ * 2. Reads each file's family, weight and style from its `name`/`OS/2` tables
+ *    when font sync downloaded it, else infers them from the file name — files
+ *    that weren't read join the family their read siblings resolved to
+ * 3. Groups the files into one FontAsset per family, with the URL of each
+ *    weight/style in `variants`
+ * 4. Maps every v1 font name to its family + weight + style, for rewriting text
+ * 5. Resolves defaultFontFamily from layout.defaultFont
  */
 
 import type { FontAsset } from '@design-studio/schema';
-import type { ProlibuLayout } from '../types/prolibu.js';
+import type { ProlibuEmbeddedFont, ProlibuLayout } from '../types/prolibu.js';
+import type { FontFaceInfo } from './fontMetrics.js';
+import { resolveFontFamily } from '../converters/cssParser.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type FontStyle = 'normal' | 'italic';
+
+/** Family, weight and style a v1 font name resolves to */
+export interface FontFace {
+  family: string;
+  weight: number;
+  style: FontStyle;
+}
+
+/** One file of a family */
+export interface FontVariant {
+  weight: number;
+  style: FontStyle;
+  url: string;
+  /** v1 font name (file name without extension) */
+  name: string;
+}
+
+/** FontAsset with the file of each weight/style of the family */
+export type FamilyFontAsset = FontAsset & { variants: FontVariant[] };
 
 export interface ResolvedFonts {
-  /** Font assets for DocumentAssets.fonts */
-  fontAssets: Record<string, FontAsset>;
+  /** Font assets for DocumentAssets.fonts, one per family */
+  fontAssets: Record<string, FamilyFontAsset>;
   /** Available font names for typography.availableFonts */
   availableFonts: string[];
   /** Default font family for the document */
   defaultFontFamily: string;
+  /** v1 font names (with and without the upload suffix) → family, weight and style */
+  faces: Record<string, FontFace>;
 }
 
+/** Upload suffix of v1 font files: "NouvelR_Bold__roge__1756820731109" → "NouvelR_Bold" */
+const UPLOAD_SUFFIX = /__[a-zA-Z0-9]+__\d+$/;
+
+/** Weight and/or style at the end of a font name: "-Bold", "_SemiBoldItalic", " Italic" */
+const VARIANT_SUFFIX =
+  /[_\-\s]+(Thin|Hairline|ExtraLight|UltraLight|Light|Regular|Normal|Book|Medium|SemiBold|DemiBold|Bold|ExtraBold|UltraBold|Black|Heavy)?[_\-\s]?(Italic|Oblique)?$/i;
+
+// ═══════════════════════════════════════════════════════════════
+// MAIN FUNCTION
+// ═══════════════════════════════════════════════════════════════
+
 /**
  * Resolve fonts from a Prolibu layout into Design Studio font assets.
+ *
+ * @param fileFaces Names read from the font files, by v1 font name (from font sync)
  */
-export function resolveFonts(layout: ProlibuLayout): ResolvedFonts {
-  const fontAssets: Record<string, FontAsset> = {};
-  const fontFamilies = new Map<string, { url: string; weights: number[] }>();
-  const seenBaseNames = new Set<string>();
-
-  // Process embedded fonts
-  if (layout.embeddedFonts) {
-    for (const font of layout.embeddedFonts) {
-      // Extract fontName and fontUrl based on format
-      let fontName: string;
-      let fontUrl: string;
-
-      if (typeof font === 'string') {
-        fontName = font;
-        fontUrl = '';
-      } else if ('fileName' in font) {
-        // Populated format: { _id, fileName, url, ... }
-        fontName = font.fileName;
-        fontUrl = font.url;
-      } else if ('fontName' in font) {
-        // Legacy format: { fontName, fontUrl }
-        fontName = font.fontName;
-        fontUrl = font.fontUrl;
-      } else {
-        continue; // Unknown format, skip
-      }
-
-      // Remove only the file extension (.ttf, .otf, .woff, etc.) - keep everything else exactly as-is
-      // File extension is not part of the font name in CSS
-      const exactName = fontName.replace(/\.(ttf|otf|woff2?)$/i, '');
-
-      // Skip duplicates (exact same name)
-      if (seenBaseNames.has(exactName)) continue;
-      seenBaseNames.add(exactName);
-
-      // Extract family base for grouping weights: "NouvelR_Bold" → "NouvelR"
-      // But keep the exact name for the asset key
-      const familyBase = extractFamilyBase(exactName);
-
-      if (fontFamilies.has(familyBase)) {
-        const existing = fontFamilies.get(familyBase)!;
-        const weight = inferWeight(exactName);
-        if (!existing.weights.includes(weight)) {
-          existing.weights.push(weight);
-        }
-      } else {
-        fontFamilies.set(familyBase, {
-          url: fontUrl,
-          weights: [inferWeight(exactName)],
-        });
-      }
-
-      // Register with exact name (no normalization)
-      fontAssets[exactName] = {
-        family: exactName,
-        weights: [inferWeight(exactName)],
-        source: 'custom',
-        url: fontUrl,
-      };
-    }
+export function resolveFonts(
+  layout: ProlibuLayout,
+  fileFaces: Record<string, FontFaceInfo> = {}
+): ResolvedFonts {
+  const fontAssets: Record<string, FamilyFontAsset> = {};
+  const faces: Record<string, FontFace> = {};
+  const files = (layout.embeddedFonts ?? []).flatMap((font) => {
+    const file = embeddedFontFile(font);
+    if (!file) return []; // Unknown format, skip
+
+    // File extension is not part of the font name in CSS
+    const exactName = file.name.replace(/\.(ttf|otf|woff2?)$/i, '');
+    // Quill classes use the name without the upload suffix (ql-font-NouvelR_Bold)
+    const baseName = exactName.replace(UPLOAD_SUFFIX, '');
+    const info = fileFaces[exactName] ?? fileFaces[baseName];
+    return [{ ...file, exactName, baseName, info, named: faceFromName(baseName) }];
+  });
+
+  // File-name family → family read from a file of it ("NouvelR" → "Nouvel R"),
+  // so files that weren't downloaded on this run land in the same family
+  const familyAliases: Record<string, string> = {};
+  for (const { info, named } of files) {
+    if (info) familyAliases[named.family] ??= normalizeFamily(info.family);
   }
 
-  // Build family-level assets
-  for (const [family, data] of fontFamilies) {
-    if (!fontAssets[family]) {
-      fontAssets[family] = {
-        family,
-        weights: data.weights.sort((a, b) => a - b),
-        source: 'custom',
-        url: data.url,
-      };
+  for (const { url, exactName, baseName, info, named } of files) {
+    // Skip duplicates (exact same name)
+    if (faces[exactName]) continue;
+
+    const face = info
+      ? faceFromFile(info)
+      : { ...named, family: familyAliases[named.family] ?? named.family };
+    faces[exactName] = face;
+    faces[baseName] ??= face;
+
+    const asset = (fontAssets[face.family] ??= {
+      family: face.family,
+      weights: [],
+      source: 'custom',
+      url,
+      variants: [],
+    });
+    // Two files for the same weight/style: the first one wins
+    if (
+      !asset.variants.some((v: FontVariant) => v.weight === face.weight && v.style === face.style)
+    ) {
+      asset.variants.push({
+        weight: face.weight,
+        style: face.style,
+        url,
+        name: exactName,
+      });
     }
   }
 
-  // Available fonts: all unique names (individual + families)
-  const availableFonts = Array.from(new Set([...seenBaseNames, ...fontFamilies.keys()])).sort();
+  for (const asset of Object.values(fontAssets)) {
+    asset.variants.sort(
+      (a: FontVariant, b: FontVariant) =>
+        a.weight - b.weight || Number(a.style === 'italic') - Number(b.style === 'italic')
+    );
+    asset.weights = [...new Set(asset.variants.map((v: FontVariant) => v.weight))];
+    // Family-level URL (for consumers that load one file per family): the regular file
+    asset.url = findFontVariant(asset, 400, 'normal')?.url ?? asset.url;
+  }
+
+  const availableFonts = Object.keys(fontAssets).sort();
 
-  // Default font - preserve exact name
+  // Default font: the family of the v1 file
   const defaultFontFamily = layout.defaultFont
-    ? layout.defaultFont
+    ? (findFontFace(layout.defaultFont, faces)?.family ?? layout.defaultFont)
     : (availableFonts[0] ?? 'Inter');
 
-  return { fontAssets, availableFonts, defaultFontFamily };
+  return { fontAssets, availableFonts, defaultFontFamily, faces };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LOOKUP
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Family, weight and style of a v1 font name (CSS `fontFamily` value or Quill
+ * `ql-font-*` class), with or without quotes, extension or upload suffix.
+ */
+export function findFontFace(name: string, faces: Record<string, FontFace>): FontFace | undefined {
+  const cleaned = resolveFontFamily(name);
+  return faces[cleaned] ?? faces[cleaned.replace(UPLOAD_SUFFIX, '')];
+}
+
+/**
+ * File of the family closest to a weight, in the given style when the family
+ * has it.
+ */
+export function findFontVariant(
+  asset: Pick<FamilyFontAsset, 'variants'>,
+  weight: number,
+  style: FontStyle
+): FontVariant | undefined {
+  const inStyle = asset.variants.filter((v: FontVariant) => v.style === style);
+  const candidates = inStyle.length > 0 ? inStyle : asset.variants;
+  let best: FontVariant | undefined;
+  for (const variant of candidates) {
+    if (!best || Math.abs(variant.weight - weight) < Math.abs(best.weight - weight)) {
+      best = variant;
+    }
+  }
+  return best;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/** File name and URL of an embedded font, for each v1 format */
+function embeddedFontFile(font: ProlibuEmbeddedFont): { name: string; url: string } | null {
+  if (typeof font === 'string') return { name: font, url: '' };
+  // Populated format: { _id, fileName, url, ... }
+  if ('fileName' in font) return { name: font.fileName, url: font.url };
+  // Legacy format: { fontName, fontUrl }
+  if ('fontName' in font) return { name: font.fontName, url: font.fontUrl };
+  return null;
+}
+
+function faceFromFile(info: FontFaceInfo): FontFace {
+  return {
+    family: normalizeFamily(info.family),
+    weight: info.weight ?? inferWeight(info.subfamily),
+    style: info.italic ? 'italic' : 'normal',
+  };
+}
+
+/** Name-table families can carry stray or doubled spaces ("Nouvel  R ") */
+function normalizeFamily(family: string): string {
+  return family.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Face from a file name: "NouvelR_Bold" → NouvelR 700, "Roboto-LightItalic" →
+ * Roboto 300 italic, "Roboto" → Roboto 400.
+ */
+function faceFromName(name: string): FontFace {
+  const family = extractFamilyBase(name);
+  const variant = name.slice(family.length);
+  return {
+    family,
+    weight: inferWeight(variant),
+    style: /italic|oblique/i.test(variant) ? 'italic' : 'normal',
+  };
 }
 
 /**
  * Extract the base family name from a font variant name.
  * "NouvelR_Bold" → "NouvelR"
- * "NouvelR-Light" → "NouvelR"
+ * "NouvelR-LightItalic" → "NouvelR"
  * "Roboto" → "Roboto"
  */
 function extractFamilyBase(name: string): string {
-  // Common weight suffixes to strip
-  const weightSuffixes =
-    /[_-](Thin|ExtraLight|UltraLight|Light|Regular|Book|Medium|SemiBold|DemiBold|Bold|ExtraBold|UltraBold|Black|Heavy)$/i;
-
-  const stripped = name.replace(weightSuffixes, '');
-  return stripped || name;
+  const match = name.match(VARIANT_SUFFIX);
+  // A bare separator isn't a variant
+  if (!match || (!match[1] && !match[2])) return name;
+  return name.slice(0, match.index) || name;
 }
 
 /**
@@ -128,7 +235,7 @@ function extractFamilyBase(name: string): string {
  */
 function inferWeight(name: string): number {
   const lower = name.toLowerCase();
-  if (lower.includes('thin')) return 100;
+  if (lower.includes('thin') || lower.includes('hairline')) return 100;
   if (lower.includes('extralight') || lower.includes('ultralight')) return 200;
   if (lower.includes('light')) return 300;
   if (lower.includes('book') || lower.includes('regular')) return 400;
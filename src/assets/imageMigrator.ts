@@ -0,0 +1,406 @@
+/**
+ * Image Migrator — rehosts the images of a migrated document into the
+ * destination account, so templates keep their pictures when the source
+ * account is shut down
+ *
+ * Flow:
+ * 1. Collect image URLs from `imageRef` / `backgroundImage` (wildcards skipped)
+ * 2. Download each URL once
+ * 3. Hash the content — the same image behind different URLs is uploaded once
+ * 4. Upload to the destination file API
+ * 5. Rewrite the references and register them in `DocumentAssets.images`
+ *
+ * Inline `data:image/…` URIs (which can weigh megabytes in the template
+ * payload) are extracted the same way by `extractDataUris`: decoded, deduped
+ * by hash and uploaded, or written to a local folder in JSON-only mode.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Document } from '@design-studio/schema';
+import { decodeDataUri } from './imageProbe.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface ImageApiConfig {
+  /** Base URL for the v2 API of the destination account */
+  baseUrl: string;
+  /** Bearer token for authentication */
+  authToken: string;
+}
+
+export interface UploadedImage {
+  /** File document ID in the destination account */
+  id: string;
+  url: string;
+  /** sha256 of the content */
+  hash: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ImageSyncResult {
+  /** Source URL → destination URL */
+  urlMap: Record<string, string>;
+  /** Source URLs whose content was uploaded by this sync */
+  uploaded: string[];
+  /** Source URLs whose content was already uploaded (same URL or same content) */
+  reused: string[];
+  /** Images that couldn't be rehosted (the source URL is kept) */
+  failed: Array<{ url: string; error: string; nodeIds: string[] }>;
+}
+
+/**
+ * Uploads shared by every template of a run (`migrate-all`), so an image used
+ * by many templates is downloaded and uploaded once. Promises, so templates
+ * migrated in parallel wait for the same upload.
+ */
+export interface ImageCache {
+  byUrl: Map<string, Promise<UploadedImage>>;
+  byHash: Map<string, Promise<UploadedImage>>;
+}
+
+/**
+ * Where extracted data URIs go: uploaded to the file API, or written to a
+ * local folder and referenced as `<urlPrefix>/<file>` (relative to the JSON).
+ */
+export type DataUriTarget =
+  { type: 'upload'; apiConfig: ImageApiConfig } | { type: 'local'; dir: string; urlPrefix: string };
+
+export interface DataUriExtractionResult {
+  /** Distinct images extracted (identical data URIs count once) */
+  extracted: number;
+  /** Node references replaced */
+  references: number;
+  /** Size of the replaced data URIs in the document, in bytes */
+  inlineBytes: number;
+  /** `inlineBytes` minus the size of the references that replaced them */
+  savedBytes: number;
+  /** Data URIs that couldn't be extracted (kept inline) */
+  failed: Array<{ error: string; nodeIds: string[] }>;
+}
+
+/** Node fields that hold an image URL */
+const IMAGE_FIELDS = ['imageRef', 'backgroundImage'] as const;
+
+// ═══════════════════════════════════════════════════════════════
+// MAIN FUNCTION
+// ═══════════════════════════════════════════════════════════════
+
+export function createImageCache(): ImageCache {
+  return { byUrl: new Map(), byHash: new Map() };
+}
+
+/**
+ * Rehost every remote image of `document` into the destination account.
+ * The document is updated in place (node references and `assets.images`).
+ */
+export async function syncImages(
+  document: Document,
+  apiConfig: ImageApiConfig,
+  cache: ImageCache = createImageCache()
+): Promise<ImageSyncResult> {
+  const result: ImageSyncResult = { urlMap: {}, uploaded: [], reused: [], failed: [] };
+
+  const references = collectImageUrls(document);
+  if (references.size === 0) return result;
+
+  console.log(`\n🖼️  [ImageSync] Rehosting ${references.size} image(s)...`);
+
+  for (const [url, nodeIds] of references) {
+    try {
+      const cached = cache.byUrl.get(url);
+      const { image, reused } = cached
+        ? { image: await cached, reused: true }
+        : await rehostImage(url, apiConfig, cache);
+
+      result.urlMap[url] = image.url;
+      (reused ? result.reused : result.uploaded).push(url);
+      document.assets.images[image.id] = {
+        id: image.id,
+        url: image.url,
+        mimeType: image.mimeType,
+        size: image.size,
+      } as Document['assets']['images'][string];
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`   ❌ ERROR: ${url.substring(0, 60)} - ${errorMessage}`);
+      result.failed.push({ url, error: errorMessage, nodeIds });
+    }
+  }
+
+  rewriteImageUrls(document, result.urlMap);
+
+  console.log(
+    `   Uploaded: ${result.uploaded.length}, reused: ${result.reused.length}, failed: ${result.failed.length}`
+  );
+  return result;
+}
+
+/**
+ * Remote image URLs referenced by the document's nodes → IDs of the nodes
+ * using them. `data:` URIs, relative paths and wildcard expressions
+ * (`{{{user.avatar}}}`) are left alone.
+ */
+export function collectImageUrls(document: Document): Map<string, string[]> {
+  return collectReferences(document, isRehostable);
+}
+
+/**
+ * Replace image references found in `urlMap` (source URL → new URL).
+ */
+export function rewriteImageUrls(document: Document, urlMap: Record<string, string>): void {
+  for (const node of Object.values(document.nodes)) {
+    const fields = node as Record<string, unknown>;
+    for (const field of IMAGE_FIELDS) {
+      const value = fields[field];
+      if (typeof value === 'string' && Object.hasOwn(urlMap, value)) {
+        fields[field] = urlMap[value];
+      }
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DATA URIs
+// ═══════════════════════════════════════════════════════════════
+
+/** File extensions that differ from the MIME subtype */
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/svg+xml': 'svg' };
+
+/**
+ * Replace the inline `data:image/…` URIs of `document` with references to
+ * files (uploaded, or written to a local folder). Identical images are stored
+ * once. The document is updated in place; data URIs that can't be decoded or
+ * stored are kept inline and listed in `failed`.
+ */
+export async function extractDataUris(
+  document: Document,
+  target: DataUriTarget,
+  cache: ImageCache = createImageCache()
+): Promise<DataUriExtractionResult> {
+  const result: DataUriExtractionResult = {
+    extracted: 0,
+    references: 0,
+    inlineBytes: 0,
+    savedBytes: 0,
+    failed: [],
+  };
+
+  const references = collectReferences(document, isDataUri);
+  if (references.size === 0) return result;
+
+  console.log(`\n🗜️  [DataUri] Extracting ${references.size} inline image(s)...`);
+
+  const urlMap: Record<string, string> = {};
+  const hashes = new Set<string>();
+  for (const [dataUri, nodeIds] of references) {
+    try {
+      const file = decodeDataUri(dataUri);
+      const hash = createHash('sha256').update(file.bytes).digest('hex');
+      const image = await storeDataUri(file, hash, target, cache);
+
+      urlMap[dataUri] = image.url;
+      hashes.add(hash);
+      document.assets.images[image.id] = {
+        id: image.id,
+        url: image.url,
+        mimeType: image.mimeType,
+        size: image.size,
+      } as Document['assets']['images'][string];
+
+      const inline = Buffer.byteLength(dataUri);
+      result.references += nodeIds.length;
+      result.inlineBytes += inline * nodeIds.length;
+      result.savedBytes += (inline - Buffer.byteLength(image.url)) * nodeIds.length;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`   ❌ ERROR: ${dataUri.substring(0, 40)}… - ${errorMessage}`);
+      result.failed.push({ error: errorMessage, nodeIds });
+    }
+  }
+
+  result.extracted = hashes.size;
+  rewriteImageUrls(document, urlMap);
+
+  console.log(
+    `   Extracted: ${result.extracted} image(s) from ${result.references} reference(s), saved ${formatBytes(result.savedBytes)}`
+  );
+  return result;
+}
+
+/**
+ * Upload a decoded image or write it to the local folder (once per hash).
+ */
+function storeDataUri(
+  file: { bytes: Uint8Array; mimeType: string },
+  hash: string,
+  target: DataUriTarget,
+  cache: ImageCache
+): Promise<UploadedImage> {
+  const existing = cache.byHash.get(hash);
+  if (existing) return existing;
+
+  const extension = EXTENSIONS[file.mimeType] ?? file.mimeType.split('/')[1].split('+')[0];
+  const fileName = `${hash.slice(0, 16)}.${extension}`;
+
+  const pending =
+    target.type === 'upload'
+      ? uploadImage({ ...file, fileName }, hash, target.apiConfig)
+      : writeLocalImage(file, fileName, hash, target);
+
+  cache.byHash.set(hash, pending);
+  pending.catch(() => cache.byHash.delete(hash));
+  return pending;
+}
+
+async function writeLocalImage(
+  file: { bytes: Uint8Array; mimeType: string },
+  fileName: string,
+  hash: string,
+  target: { dir: string; urlPrefix: string }
+): Promise<UploadedImage> {
+  await mkdir(target.dir, { recursive: true });
+  await writeFile(join(target.dir, fileName), file.bytes);
+  return {
+    id: hash.slice(0, 16),
+    url: `${target.urlPrefix}/${fileName}`,
+    hash,
+    mimeType: file.mimeType,
+    size: file.bytes.length,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Image field values matching `accept` → IDs of the nodes using them.
+ */
+function collectReferences(
+  document: Document,
+  accept: (url: string) => boolean
+): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+
+  for (const [nodeId, node] of Object.entries(document.nodes)) {
+    for (const field of IMAGE_FIELDS) {
+      const value = (node as Record<string, unknown>)[field];
+      if (typeof value !== 'string' || !accept(value)) continue;
+      const nodeIds = references.get(value);
+      if (nodeIds) nodeIds.push(nodeId);
+      else references.set(value, [nodeId]);
+    }
+  }
+
+  return references;
+}
+
+function isRehostable(url: string): boolean {
+  return /^https?:\/\//i.test(url) && !url.includes('{{');
+}
+
+function isDataUri(url: string): boolean {
+  return /^data:image\//i.test(url);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Download and upload one URL (or reuse the upload of identical content).
+ */
+async function rehostImage(
+  url: string,
+  apiConfig: ImageApiConfig,
+  cache: ImageCache
+): Promise<{ image: UploadedImage; reused: boolean }> {
+  let reused = false;
+  const pending = (async () => {
+    const file = await downloadImage(url);
+    const hash = createHash('sha256').update(file.bytes).digest('hex');
+
+    const existing = cache.byHash.get(hash);
+    if (existing) {
+      reused = true;
+      return existing;
+    }
+
+    const upload = uploadImage(file, hash, apiConfig);
+    cache.byHash.set(hash, upload);
+    // A failed upload can be retried by a later template
+    upload.catch(() => cache.byHash.delete(hash));
+    return upload;
+  })();
+
+  cache.byUrl.set(url, pending);
+  pending.catch(() => cache.byUrl.delete(url));
+  return { image: await pending, reused };
+}
+
+/**
+ * Download an image (rejects error pages served as text/HTML).
+ */
+async function downloadImage(
+  url: string
+): Promise<{ bytes: Uint8Array; mimeType: string; fileName: string }> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to download: HTTP ${response.status}`);
+  }
+
+  const mimeType = response.headers.get('content-type')?.split(';')[0].trim() || 'image/png';
+  if (mimeType.startsWith('text/')) {
+    throw new Error(`Not an image (${mimeType})`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'image';
+  return { bytes, mimeType, fileName };
+}
+
+/**
+ * Upload an image to the v2 file API.
+ */
+async function uploadImage(
+  file: { bytes: Uint8Array; mimeType: string; fileName: string },
+  hash: string,
+  config: ImageApiConfig
+): Promise<UploadedImage> {
+  const url = new URL('/v2/file', config.baseUrl);
+
+  const formData = new FormData();
+  formData.append('file', new File([file.bytes], file.fileName, { type: file.mimeType }));
+  formData.append('allowEveryone', JSON.stringify({ view: true, edit: false }));
+
+  // Normalize auth token (avoid "Bearer Bearer ...")
+  const authHeader = config.authToken.startsWith('Bearer ')
+    ? config.authToken
+    : `Bearer ${config.authToken}`;
+
+  const response = await fetch(url.toString(), {
+    method: 'POST',
+    headers: { Authorization: authHeader },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(errorData.error || `Upload failed: HTTP ${response.status}`);
+  }
+
+  const data = (await response.json()) as { _id?: string; url?: string };
+  if (!data._id || !data.url) {
+    throw new Error('Upload response has no file URL');
+  }
+
+  return { id: data._id, url: data.url, hash, mimeType: file.mimeType, size: file.bytes.length };
+}
@@ -0,0 +1,241 @@
+/**
+ * Image Probe — intrinsic image size from the first bytes of the file
+ *
+ * Reads the PNG, GIF, JPEG, WebP and BMP headers and the root `<svg>` element,
+ * so background crops can be reproduced without downloading whole images.
+ * Remote images are read with a `Range` request (with the API client's
+ * timeout and retries); `data:` URIs are decoded in place. JPEG EXIF
+ * orientation is not applied.
+ */
+
+import { fetchAsset } from '../client/prolibuClient.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/** Bytes read from remote images — enough for the header of nearly every file */
+const PROBE_BYTES = 64 * 1024;
+
+/** Per-request timeout in ms — a host that never answers must not hang the migration */
+const PROBE_TIMEOUT = 10_000;
+
+// ═══════════════════════════════════════════════════════════════
+// PROBING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Read the size of remote (`http(s)`) images. Images that can't be read (or
+ * time out) are left out of the result.
+ */
+export async function probeImageSizes(
+  urls: Iterable<string>,
+  timeout = PROBE_TIMEOUT
+): Promise<Record<string, ImageSize>> {
+  const sizes: Record<string, ImageSize> = {};
+  const pending = [...new Set(urls)].filter((url) => /^https?:\/\//i.test(url));
+  if (pending.length === 0) return sizes;
+
+  console.log(`\n📐 [ImageProbe] Reading the size of ${pending.length} image(s)...`);
+
+  for (const url of pending) {
+    try {
+      const size = readImageSize(await fetchHeader(url, timeout));
+      if (size) sizes[url] = size;
+      else console.log(`   ⚠️  Unknown image format: ${url.substring(0, 60)}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`   ❌ ERROR: ${url.substring(0, 60)} - ${errorMessage}`);
+    }
+  }
+
+  return sizes;
+}
+
+/**
+ * Size of a `data:image/…` URI, or null when it can't be decoded or read.
+ */
+export function dataUriImageSize(dataUri: string): ImageSize | null {
+  try {
+    return readImageSize(decodeDataUri(dataUri).bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a `data:image/…` URI (base64 or percent-encoded, e.g. inline SVG).
+ */
+export function decodeDataUri(dataUri: string): { bytes: Uint8Array; mimeType: string } {
+  const match = dataUri.match(/^data:(image\/[\w.+-]+)((?:;[^;,]*)*),(.*)$/is);
+  if (!match) throw new Error('Malformed data URI');
+
+  const mimeType = match[1].toLowerCase();
+  const base64 = /;base64$/i.test(match[2]);
+  const data = match[3];
+
+  if (base64 && !/^[A-Za-z0-9+/=\s]*$/.test(data)) {
+    throw new Error('Invalid base64 data');
+  }
+  const bytes = base64 ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data));
+  if (bytes.length === 0) throw new Error('Empty image data');
+
+  return { bytes, mimeType };
+}
+
+/**
+ * First bytes of a remote file (servers that ignore `Range` are cut off).
+ */
+async function fetchHeader(url: string, timeout: number): Promise<Uint8Array> {
+  const response = await fetchAsset(
+    url,
+    { method: 'GET', headers: { Range: `bytes=0-${PROBE_BYTES - 1}` } },
+    timeout
+  );
+  if (!response.body) return new Uint8Array(await response.arrayBuffer());
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (length < PROBE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  return Buffer.concat(chunks);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HEADER PARSING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Intrinsic size from the start of an image file, or null for unknown
+ * formats and truncated headers.
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  try {
+    // PNG: IHDR is always the first chunk
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') {
+      return valid({ width: view.getUint32(16), height: view.getUint32(20) });
+    }
+    if (ascii(0, 4) === 'GIF8') {
+      return valid({ width: view.getUint16(6, true), height: view.getUint16(8, true) });
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return readJpegSize(view);
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+      return readWebpSize(view, ascii(12, 16));
+    }
+    if (ascii(0, 2) === 'BM') {
+      // Negative height = top-down bitmap
+      return valid({
+        width: Math.abs(view.getInt32(18, true)),
+        height: Math.abs(view.getInt32(22, true)),
+      });
+    }
+  } catch {
+    // Header shorter than its fields
+    return null;
+  }
+
+  return readSvgSize(Buffer.from(bytes).toString('utf-8'));
+}
+
+/** Start-of-frame markers (baseline, progressive, lossless…), not DHT/JPG/DAC */
+const JPEG_SOF = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+function readJpegSize(view: DataView): ImageSize | null {
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (JPEG_SOF.has(marker)) {
+      return valid({ width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) });
+    }
+    // Markers without a length: TEM, RSTn, SOI
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function readWebpSize(view: DataView, chunk: string): ImageSize | null {
+  if (chunk === 'VP8 ') {
+    // Lossy: 14-bit sizes after the frame start code
+    return valid({
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff,
+    });
+  }
+  if (chunk === 'VP8L') {
+    // Lossless: 14-bit width − 1 and height − 1, packed after the 0x2f signature
+    const bits = view.getUint32(21, true);
+    return valid({ width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 });
+  }
+  if (chunk === 'VP8X') {
+    // Extended: 24-bit canvas width − 1 and height − 1
+    const uint24 = (offset: number) =>
+      view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+    return valid({ width: uint24(24) + 1, height: uint24(27) + 1 });
+  }
+  return null;
+}
+
+/**
+ * Size of the root `<svg>` element: `width`/`height` in px (or unitless),
+ * else the `viewBox` size.
+ */
+function readSvgSize(text: string): ImageSize | null {
+  const root = text.match(/<svg\b[^>]*>/i)?.[0];
+  if (!root) return null;
+
+  const attribute = (name: string) =>
+    root.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1].trim();
+  const px = (value: string | undefined) =>
+    value && /^[\d.]+(px)?$/.test(value) ? parseFloat(value) : undefined;
+
+  const viewBox = attribute('viewBox')
+    ?.split(/[\s,]+/)
+    .map(Number);
+  const box =
+    viewBox?.length === 4 && viewBox.every((n) => !isNaN(n))
+      ? { width: viewBox[2], height: viewBox[3] }
+      : undefined;
+
+  const width = px(attribute('width'));
+  const height = px(attribute('height'));
+  if (width && height) return { width, height };
+  // One side given: the other follows the viewBox aspect ratio
+  if (box && width) return valid({ width, height: (width * box.height) / box.width });
+  if (box && height) return valid({ width: (height * box.width) / box.height, height });
+  return box ? valid(box) : null;
+}
+
+function valid(size: ImageSize): ImageSize | null {
+  return size.width > 0 && size.height > 0 && isFinite(size.width) && isFinite(size.height)
+    ? size
+    : null;
+}
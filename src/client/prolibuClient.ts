@@ -42,6 +42,13 @@ export class ProlibuApiError extends Error {
   }
 }
 
+export class ProlibuTimeoutError extends ProlibuApiError {
+  constructor(message: string) {
+    super(message, 0);
+    this.name = 'ProlibuTimeoutError';
+  }
+}
+
 export class ProlibuParseError extends Error {
   constructor(
     message: string,
@@ -63,6 +70,28 @@ export async function fetchContentTemplate(
   id: string,
   config: ProlibuClientConfig
 ): Promise<ProlibuLayout> {
+  const json = await fetchContentTemplateJson(id, config);
+
+  // Validate with zod
+  const parsed = ProlibuLayoutSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ProlibuParseError(
+      `Invalid API response structure for template ${id}: ${parsed.error.message}`,
+      parsed.error.issues
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Fetch a content template as the raw API JSON (not validated, unknown keys kept).
+ * Used by `pull` to archive templates exactly as the API returns them.
+ */
+export async function fetchContentTemplateJson(
+  id: string,
+  config: ProlibuClientConfig
+): Promise<unknown> {
   // Build URL with populate to get embeddedFonts with URLs
   const populatePath = JSON.stringify([{ path: 'embeddedFonts', select: 'fileName url mimeType' }]);
   const url = `${config.baseUrl}/v2/contenttemplate/${id}?populatePath=${encodeURIComponent(populatePath)}`;
@@ -79,18 +108,7 @@ export async function fetchContentTemplate(
     `fetching template ${id}`
   );
 
-  const json = await safeParseJson(response, `template ${id}`);
-
-  // Validate with zod
-  const parsed = ProlibuLayoutSchema.safeParse(json);
-  if (!parsed.success) {
-    throw new ProlibuParseError(
-      `Invalid API response structure for template ${id}: ${parsed.error.message}`,
-      parsed.error.issues
-    );
-  }
-
-  return parsed.data;
+  return safeParseJson(response, `template ${id}`);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -239,7 +257,7 @@ export async function createContentTemplate(
 }
 
 // ═══════════════════════════════════════════════════════════════
-// DEACTIVATE TEMPLATE (mark as inactive)
+// DEACTIVATE / REACTIVATE / DELETE TEMPLATE
 // ═══════════════════════════════════════════════════════════════
 
 /**
@@ -248,6 +266,18 @@ export async function createContentTemplate(
  * This effectively "disables" the old template after migration.
  */
 export async function hideTemplate(templateId: string, config: ProlibuClientConfig): Promise<void> {
+  await setTemplateActive(templateId, false, config);
+}
+
+/**
+ * Set the `active` flag of a content template via PATCH.
+ * Used by `hideTemplate` and by rollback to un-hide source templates.
+ */
+export async function setTemplateActive(
+  templateId: string,
+  active: boolean,
+  config: ProlibuClientConfig
+): Promise<void> {
   const url = `${config.baseUrl}/v2/contenttemplate/${templateId}`;
 
   await fetchWithRetry(
@@ -258,9 +288,31 @@ export async function hideTemplate(templateId: string, config: ProlibuClientConf
         Authorization: config.authToken,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ active: false }),
+      body: JSON.stringify({ active }),
     },
-    `deactivating template ${templateId}`
+    `${active ? 'activating' : 'deactivating'} template ${templateId}`
+  );
+}
+
+/**
+ * Permanently delete a content template.
+ */
+export async function deleteContentTemplate(
+  templateId: string,
+  config: ProlibuClientConfig
+): Promise<void> {
+  const url = `${config.baseUrl}/v2/contenttemplate/${templateId}`;
+
+  await fetchWithRetry(
+    url,
+    {
+      method: 'DELETE',
+      headers: {
+        Authorization: config.authToken,
+        'Content-Type': 'application/json',
+      },
+    },
+    `deleting template ${templateId}`
   );
 }
 
@@ -293,22 +345,23 @@ async function fetchWithRetry(
   url: string,
   init: RequestInit,
   context: string,
-  attempt = 1
+  attempt = 1,
+  timeout = REQUEST_TIMEOUT
 ): Promise<Response> {
   let response: Response;
   try {
     response = await fetch(url, {
       ...init,
-      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      signal: AbortSignal.timeout(timeout),
     });
   } catch (error) {
     if (error instanceof DOMException && error.name === 'TimeoutError') {
-      throw new ProlibuApiError(`Request timed out (${REQUEST_TIMEOUT}ms) ${context}`, 0);
+      throw new ProlibuTimeoutError(`Request timed out (${timeout}ms) ${context}`);
     }
     if (attempt < MAX_RETRIES) {
       const delay = Math.min(1000 * 2 ** (attempt - 1), 8000);
       await sleep(delay);
-      return fetchWithRetry(url, init, context, attempt + 1);
+      return fetchWithRetry(url, init, context, attempt + 1, timeout);
     }
     throw new ProlibuApiError(
       `Network error ${context} after ${MAX_RETRIES} attempts: ${error instanceof Error ? error.message : String(error)}`,
@@ -317,10 +370,11 @@ async function fetchWithRetry(
   }
 
   // Retry on transient HTTP errors (not on POST to avoid duplicates when not idempotent)
-  if (RETRYABLE_STATUS.has(response.status) && init.method === 'GET' && attempt < MAX_RETRIES) {
+  const idempotent = init.method === 'GET' || init.method === 'HEAD';
+  if (RETRYABLE_STATUS.has(response.status) && idempotent && attempt < MAX_RETRIES) {
     const delay = Math.min(1000 * 2 ** (attempt - 1), 8000);
     await sleep(delay);
-    return fetchWithRetry(url, init, context, attempt + 1);
+    return fetchWithRetry(url, init, context, attempt + 1, timeout);
   }
 
   if (!response.ok) {
@@ -335,6 +389,19 @@ async function fetchWithRetry(
   return response;
 }
 
+/**
+ * Request a URL outside the API (an image or font file) with the client's
+ * timeout and retry behavior. Rejects with `ProlibuApiError` (status 0 for
+ * network errors) or `ProlibuTimeoutError`.
+ */
+export function fetchAsset(
+  url: string,
+  init: RequestInit,
+  timeout = REQUEST_TIMEOUT
+): Promise<Response> {
+  return fetchWithRetry(url, init, `for ${url}`, 1, timeout);
+}
+
 /**
  * Safely parse JSON from a response, throwing ProlibuApiError on failure.
  */
@@ -365,6 +432,7 @@ export interface ContentTemplateListItem {
   contentTemplateCode?: string;
   templateType: string;
   createdAt?: string;
+  active?: boolean;
 }
 
 /**
@@ -383,7 +451,7 @@ export async function fetchExistingTemplates(
     const url = new URL('/v2/contenttemplate/', config.baseUrl);
     url.searchParams.set(
       'select',
-      'contentTemplateName contentTemplateCode templateType createdAt'
+      'contentTemplateName contentTemplateCode templateType createdAt active'
     );
     url.searchParams.set('limit', String(limit));
     url.searchParams.set('page', String(page));
@@ -0,0 +1,258 @@
+/**
+ * check-assets command — Find broken image and font links before go-live.
+ *
+ * Migrates each template in memory (local v1 JSON files, or the templates of
+ * an account with `--domain`), requests every `imageRef`, `backgroundImage`
+ * and font URL of the result, and lists 404s, other HTTP errors, timeouts and
+ * plain `http://` (mixed content) URLs per template and node. Each URL is
+ * requested once per run. Exits with code 2 when a link is broken.
+ *
+ * Usage:
+ *   pnpm start check-assets ./archive/redrenault
+ *   pnpm start check-assets --domain redrenault --type layout --report ./output/assets.json
+ */
+
+import { writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
+import type { Document } from '@design-studio/schema';
+import { collectLayoutFiles, migrateLayoutFile } from './migrateFile.js';
+import { filterTemplatesByIds } from './pull.js';
+import {
+  checkDocumentAssets,
+  describeAssetIssue,
+  type AssetCheckOptions,
+  type AssetIssue,
+  type AssetIssueType,
+} from '../assets/assetChecker.js';
+import { fetchExistingTemplates } from '../client/prolibuClient.js';
+import { resolveConfigFromDomain } from '../config/envLoader.js';
+import { loadComponentMap, type ComponentMap } from '../config/componentMap.js';
+import { migrate } from '../pipeline/migrationPipeline.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface CheckAssetsOptions {
+  /** Check the templates of this account instead of local files */
+  domain?: string;
+  type: string;
+  ids?: string;
+  concurrency: string;
+  /** Per-request timeout in ms */
+  timeout: string;
+  /** JSON report path */
+  report?: string;
+  verbose: boolean;
+  /** JSON/YAML component mapping file (see config/componentMap.ts) */
+  componentMap?: string;
+}
+
+export interface AssetIssueReport extends Omit<AssetIssue, 'nodeIds'> {
+  /** v2 nodes using the URL, with their names */
+  nodes: Array<{ id: string; name?: string }>;
+}
+
+export interface TemplateAssetReport {
+  /** File path or template code/ID */
+  source: string;
+  name: string;
+  /** Distinct URLs checked */
+  checked: number;
+  issues: AssetIssueReport[];
+  /** Template couldn't be read or migrated */
+  error?: string;
+}
+
+/** Contents of the `--report` file */
+export interface AssetCheckReport {
+  checkedAt: string;
+  templates: TemplateAssetReport[];
+  summary: { templates: number; broken: number } & Record<AssetIssueType, number>;
+}
+
+/** A template to check: loaded and migrated on demand */
+interface AssetCheckSource {
+  source: string;
+  name: string;
+  load: () => Promise<{ name?: string; document: Document }>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Report entry for a checked template, with node names for each issue.
+ */
+export function buildTemplateAssetReport(
+  source: string,
+  name: string,
+  document: Document,
+  result: { checked: number; issues: AssetIssue[] }
+): TemplateAssetReport {
+  return {
+    source,
+    name,
+    checked: result.checked,
+    issues: result.issues.map(({ nodeIds, ...issue }) => ({
+      ...issue,
+      nodes: nodeIds.map((id) => ({ id, name: document.nodes[id]?.name })),
+    })),
+  };
+}
+
+/**
+ * Issue counts over all templates. `broken` counts every issue except mixed content.
+ */
+export function summarizeAssetReports(
+  templates: TemplateAssetReport[]
+): AssetCheckReport['summary'] {
+  const summary: AssetCheckReport['summary'] = {
+    templates: templates.length,
+    broken: 0,
+    'not-found': 0,
+    'http-error': 0,
+    timeout: 0,
+    unreachable: 0,
+    'mixed-content': 0,
+  };
+  for (const issue of templates.flatMap((t) => t.issues)) {
+    summary[issue.issue]++;
+    if (issue.issue !== 'mixed-content') summary.broken++;
+  }
+  return summary;
+}
+
+function formatNodes(nodes: AssetIssueReport['nodes']): string {
+  if (nodes.length === 0) return 'no text node uses it';
+  return nodes.map((n) => (n.name ? `"${n.name}" (${n.id})` : n.id)).join(', ');
+}
+
+async function collectSources(
+  input: string | undefined,
+  opts: CheckAssetsOptions,
+  componentMap: ComponentMap | undefined
+): Promise<AssetCheckSource[]> {
+  if (!opts.domain) {
+    const files = await collectLayoutFiles(resolve(input!));
+    return files.map((file) => ({
+      source: file,
+      name: basename(file),
+      load: async () => {
+        const { layout, result } = await migrateLayoutFile(file, { componentMap });
+        return { name: layout.contentTemplateName, document: result.document };
+      },
+    }));
+  }
+
+  const config = await resolveConfigFromDomain(opts.domain, 'Source');
+  const templateType =
+    opts.type === 'all' ? undefined : (opts.type as 'layout' | 'content' | 'snippet');
+  const templates = await fetchExistingTemplates(config, templateType);
+
+  const ids = opts.ids
+    ? opts.ids
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+    : [];
+  const { matched, notFound } = filterTemplatesByIds(templates, ids);
+  if (notFound.length > 0) {
+    console.log(`   ⚠️  IDs no encontrados: ${notFound.join(', ')}`);
+  }
+
+  return matched.map((template) => ({
+    source: template.contentTemplateCode ?? template._id,
+    name: template.contentTemplateName,
+    load: async () => {
+      // Crops aren't needed here — skip image size probing
+      const result = await migrate(template._id, { config, componentMap, probeImages: false });
+      return { document: result.document };
+    },
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMAND HANDLER
+// ═══════════════════════════════════════════════════════════════
+
+export async function handleCheckAssets(
+  input: string | undefined,
+  opts: CheckAssetsOptions
+): Promise<void> {
+  if (!input === !opts.domain) {
+    console.error('❌ Pass either a v1 JSON path or --domain <domain>');
+    process.exit(1);
+  }
+
+  const checkOptions: AssetCheckOptions = {
+    concurrency: Math.max(1, parseInt(opts.concurrency, 10) || 10),
+    timeout: Math.max(1, parseInt(opts.timeout, 10) || 10_000),
+    cache: new Map(),
+  };
+
+  let sources: AssetCheckSource[];
+  try {
+    const componentMap = opts.componentMap
+      ? await loadComponentMap(resolve(opts.componentMap))
+      : undefined;
+    sources = await collectSources(input, opts, componentMap);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (sources.length === 0) {
+    console.log('⚠️  No templates to check');
+    return;
+  }
+
+  console.log(`\n🔗 Checking image and font links of ${sources.length} template(s)`);
+
+  const templates: TemplateAssetReport[] = [];
+  for (const { source, name, load } of sources) {
+    try {
+      const loaded = await load();
+      const result = await checkDocumentAssets(loaded.document, checkOptions);
+      const report = buildTemplateAssetReport(source, loaded.name ?? name, loaded.document, result);
+      templates.push(report);
+
+      if (report.issues.length === 0) {
+        console.log(`   ✅ ${report.name} — ${report.checked} URL(s) OK`);
+        continue;
+      }
+      console.log(
+        `   ❌ ${report.name} — ${report.issues.length} issue(s) in ${report.checked} URL(s)`
+      );
+      for (const issue of report.issues) {
+        console.log(`      ${issue.kind} ${issue.url}: ${describeAssetIssue(issue)}`);
+        if (opts.verbose) console.log(`         Used by: ${formatNodes(issue.nodes)}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      templates.push({ source, name, checked: 0, issues: [], error: message });
+      console.log(`   ❌ ${name}: ${message}`);
+    }
+  }
+
+  const summary = summarizeAssetReports(templates);
+  console.log('\n' + '═'.repeat(50));
+  console.log('📊 Asset Check Complete\n');
+  console.log(`   Not found:     ${summary['not-found']}`);
+  console.log(`   HTTP errors:   ${summary['http-error']}`);
+  console.log(`   Timeouts:      ${summary.timeout}`);
+  console.log(`   Unreachable:   ${summary.unreachable}`);
+  console.log(`   Mixed content: ${summary['mixed-content']}`);
+
+  if (opts.report) {
+    const reportPath = resolve(opts.report);
+    const report: AssetCheckReport = { checkedAt: new Date().toISOString(), templates, summary };
+    await mkdir(dirname(reportPath), { recursive: true });
+    await writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`\n📄 Report: ${reportPath}`);
+  }
+
+  if (templates.some((t) => t.error)) process.exit(1);
+  if (summary.broken > 0) process.exit(2);
+}
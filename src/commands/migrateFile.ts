@@ -0,0 +1,264 @@
+/**
+ * migrate-file command — Offline migration from local v1 JSON exports.
+ *
+ * Reads v1 content-template JSON from disk (a single file or every `.json`
+ * in a directory), validates it with `ProlibuLayoutSchema`, runs
+ * `migrateFromLayout` (no API, no token) and writes next to each input:
+ *  - `<name>.v2.json`     — the v2 Document
+ *  - `<name>.report.json` — validation result, warnings and stats
+ *
+ * Usage:
+ *   pnpm start migrate-file ./archive/main-layout.json
+ *   pnpm start migrate-file ./archive/ --dry-run --verbose
+ */
+
+import { readFile, writeFile, readdir, stat } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import type { ValidationResult } from '@design-studio/schema';
+import {
+  migrateFromLayout,
+  type MigrationResult,
+  type TransformOptions,
+} from '../pipeline/migrationPipeline.js';
+import type { MigrationStats } from '../transformers/nodeRouter.js';
+import { ProlibuLayoutSchema, type ProlibuLayout } from '../types/prolibu.js';
+import { ProlibuParseError } from '../client/prolibuClient.js';
+import { formatWarning, type MigrationWarning } from '../types/migrationWarning.js';
+import { loadComponentMap } from '../config/componentMap.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface MigrateFileOptions {
+  dryRun: boolean;
+  verbose: boolean;
+  /** JSON/YAML component mapping file (see config/componentMap.ts) */
+  componentMap?: string;
+}
+
+/** Per-file report written as `<name>.report.json` */
+export interface FileMigrationReport {
+  source: string;
+  output?: string;
+  templateName?: string;
+  templateCode?: string;
+  status: 'valid' | 'invalid' | 'failed';
+  /** Parse / pipeline error (status `failed`) */
+  error?: string;
+  validation?: Pick<ValidationResult, 'valid' | 'errors' | 'warnings'>;
+  warnings: MigrationWarning[];
+  stats?: MigrationStats;
+  migratedAt: string;
+}
+
+const V2_SUFFIX = '.v2.json';
+const REPORT_SUFFIX = '.report.json';
+
+// ═══════════════════════════════════════════════════════════════
+// FILE DISCOVERY
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Resolve the input path to the list of v1 JSON files to migrate.
+ * Directories are read one level deep; files produced by a previous run
+ * (`*.v2.json`, `*.report.json`) and `index.json` are skipped.
+ */
+export async function collectLayoutFiles(inputPath: string): Promise<string[]> {
+  const info = await stat(inputPath);
+  if (!info.isDirectory()) return [inputPath];
+
+  const entries = await readdir(inputPath, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isFile() && isLayoutFileName(e.name))
+    .map((e) => join(inputPath, e.name))
+    .sort();
+}
+
+function isLayoutFileName(name: string): boolean {
+  return (
+    name.endsWith('.json') &&
+    !name.endsWith(V2_SUFFIX) &&
+    !name.endsWith(REPORT_SUFFIX) &&
+    name !== 'index.json'
+  );
+}
+
+/**
+ * Output paths for an input file: `foo.json` → `foo.v2.json`, `foo.report.json`.
+ */
+export function outputPathsFor(inputPath: string): { documentPath: string; reportPath: string } {
+  const base = basename(inputPath).replace(/\.json$/i, '');
+  const dir = dirname(inputPath);
+  return {
+    documentPath: join(dir, `${base}${V2_SUFFIX}`),
+    reportPath: join(dir, `${base}${REPORT_SUFFIX}`),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MIGRATION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Read, validate and migrate one v1 JSON file (no writes).
+ *
+ * @throws ProlibuParseError if the file is not valid JSON or not a v1 layout
+ */
+export async function migrateLayoutFile(
+  path: string,
+  transformOptions: TransformOptions = {}
+): Promise<{ layout: ProlibuLayout; result: MigrationResult }> {
+  const text = await readFile(path, 'utf-8');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ProlibuParseError(`File is not valid JSON: ${path}`);
+  }
+
+  const parsed = ProlibuLayoutSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ProlibuParseError(
+      `Invalid layout structure in ${path}: ${parsed.error.message}`,
+      parsed.error.issues
+    );
+  }
+
+  return {
+    layout: parsed.data,
+    result: migrateFromLayout(parsed.data, undefined, undefined, transformOptions),
+  };
+}
+
+/**
+ * Build the per-file report from a migration result.
+ */
+export function buildFileReport(
+  source: string,
+  layout: ProlibuLayout,
+  result: MigrationResult,
+  output?: string
+): FileMigrationReport {
+  return {
+    source,
+    output,
+    templateName: layout.contentTemplateName,
+    templateCode: layout.contentTemplateCode,
+    status: result.validation.valid ? 'valid' : 'invalid',
+    validation: {
+      valid: result.validation.valid,
+      errors: result.validation.errors,
+      warnings: result.validation.warnings,
+    },
+    warnings: result.warnings,
+    stats: result.stats,
+    migratedAt: new Date().toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMAND HANDLER
+// ═══════════════════════════════════════════════════════════════
+
+export async function handleMigrateFile(input: string, opts: MigrateFileOptions): Promise<void> {
+  const { dryRun, verbose } = opts;
+  const inputPath = resolve(input);
+
+  let files: string[];
+  const transformOptions: TransformOptions = {};
+  try {
+    files = await collectLayoutFiles(inputPath);
+    if (opts.componentMap) {
+      transformOptions.componentMap = await loadComponentMap(resolve(opts.componentMap));
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (files.length === 0) {
+    console.log(`⚠️  No v1 JSON files found in ${inputPath}`);
+    return;
+  }
+
+  console.log(`\n📂 Migrating ${files.length} file(s) from ${inputPath}`);
+  if (dryRun) console.log('   🔍 DRY RUN — no files will be written');
+
+  let valid = 0;
+  let invalid = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    const { documentPath, reportPath } = outputPathsFor(file);
+    let report: FileMigrationReport;
+
+    try {
+      const { layout, result } = await migrateLayoutFile(file, transformOptions);
+      report = buildFileReport(file, layout, result, dryRun ? undefined : documentPath);
+
+      if (!dryRun) {
+        await writeFile(documentPath, JSON.stringify(result.document, null, 2), 'utf-8');
+      }
+
+      if (report.status === 'valid') {
+        valid++;
+        console.log(
+          `   ✅ ${basename(file)} → ${basename(documentPath)} (${result.warnings.length} warnings)`
+        );
+      } else {
+        invalid++;
+        console.log(
+          `   ⚠️  ${basename(file)} → ${basename(documentPath)} (validation FAILED, ${result.validation.errors.length} errors)`
+        );
+      }
+
+      if (verbose) {
+        for (const err of result.validation.errors) {
+          console.log(`      Error: ${err.message} (${err.path}) [${err.code}]`);
+        }
+        for (const w of result.warnings) {
+          console.log(`      - [${w.severity}] ${formatWarning(w)}`);
+        }
+      }
+    } catch (error) {
+      failed++;
+      const message = error instanceof Error ? error.message : String(error);
+      report = {
+        source: file,
+        status: 'failed',
+        error: message,
+        warnings: [],
+        migratedAt: new Date().toISOString(),
+      };
+      console.log(`   ❌ ${basename(file)}: ${message}`);
+    }
+
+    if (!dryRun) {
+      try {
+        await writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+      } catch (error) {
+        console.log(
+          `   ❌ ${basename(file)}: could not write ${reportPath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        // Counted once, as failed
+        if (report.status === 'valid') valid--;
+        if (report.status === 'invalid') invalid--;
+        if (report.status !== 'failed') failed++;
+        continue;
+      }
+    }
+  }
+
+  console.log('\n' + '═'.repeat(60));
+  console.log('📊 MIGRATE-FILE SUMMARY');
+  console.log('═'.repeat(60));
+  console.log(`   ✅ Valid:   ${valid}`);
+  console.log(`   ⚠️  Invalid: ${invalid}`);
+  console.log(`   ❌ Failed:  ${failed}`);
+  console.log('═'.repeat(60));
+
+  if (failed > 0) process.exit(1);
+  if (invalid > 0) process.exit(2);
+}
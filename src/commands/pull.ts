@@ -0,0 +1,199 @@
+/**
+ * pull command — Download the v1 templates of an account to a local archive.
+ *
+ * Writes one JSON file per template (the raw API response, unknown keys kept)
+ * plus an `index.json` with `_id`, code, name and type of each one. The
+ * archive is a frozen snapshot to keep before `migrate-all --hide-old`, and
+ * it can be migrated offline with `migrate-file <dir>`.
+ *
+ * Usage:
+ *   pnpm start pull --domain redrenault
+ *   pnpm start pull --domain redrenault --type snippet --out ./archive/redrenault
+ *   pnpm start pull --domain redrenault --ids main-layout,cover-snippet
+ */
+
+import { writeFile, mkdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import {
+  fetchExistingTemplates,
+  fetchContentTemplateJson,
+  type ContentTemplateListItem,
+} from '../client/prolibuClient.js';
+import { resolveConfigFromDomain } from '../config/envLoader.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface PullOptions {
+  domain: string;
+  out?: string;
+  type: string;
+  ids?: string;
+  concurrency: string;
+  verbose: boolean;
+}
+
+export interface PullIndexEntry {
+  _id: string;
+  code?: string;
+  name: string;
+  type: string;
+  /** File name inside the archive directory */
+  file: string;
+}
+
+/** Contents of `index.json` */
+export interface PullIndex {
+  domain: string;
+  pulledAt: string;
+  templates: PullIndexEntry[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Keep only templates whose `_id` or code is in the list (no list = all).
+ */
+export function filterTemplatesByIds(
+  templates: ContentTemplateListItem[],
+  ids: string[]
+): { matched: ContentTemplateListItem[]; notFound: string[] } {
+  if (ids.length === 0) return { matched: templates, notFound: [] };
+
+  const idSet = new Set(ids);
+  const matched = templates.filter(
+    (t) => idSet.has(t._id) || idSet.has(t.contentTemplateCode ?? '')
+  );
+  const foundIds = new Set(
+    matched.flatMap((t) => [t._id, t.contentTemplateCode].filter(Boolean) as string[])
+  );
+  return { matched, notFound: ids.filter((id) => !foundIds.has(id)) };
+}
+
+/**
+ * File name for a template: its code (or `_id`), made filesystem-safe.
+ * Falls back to `<code>__<_id>` if another template already took the name.
+ */
+export function templateFileName(template: ContentTemplateListItem, used: Set<string>): string {
+  const base = (template.contentTemplateCode ?? template._id)
+    .replace(/[^a-zA-Z0-9_\-.]/g, '-')
+    .replace(/^\.+/, '')
+    .slice(0, 100);
+
+  let name = `${base || template._id}.json`;
+  if (used.has(name) || name === 'index.json') {
+    name = `${base}__${template._id}.json`;
+  }
+  used.add(name);
+  return name;
+}
+
+function defaultOutDir(domain: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return resolve('output', 'pull', `${domain}_${stamp}`);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMAND HANDLER
+// ═══════════════════════════════════════════════════════════════
+
+export async function handlePull(opts: PullOptions): Promise<void> {
+  const { domain, verbose } = opts;
+  const concurrency = Math.max(1, parseInt(opts.concurrency, 10) || 5);
+  const templateType =
+    opts.type === 'all' ? undefined : (opts.type as 'layout' | 'content' | 'snippet');
+
+  const config = await resolveConfigFromDomain(domain, 'Source');
+  const outDir = opts.out ? resolve(opts.out) : defaultOutDir(domain);
+
+  console.log(`\n📥 Pull: ${domain} → ${outDir}`);
+  console.log(`   Type filter: ${opts.type}`);
+
+  const templates = await fetchExistingTemplates(config, templateType);
+  console.log(`   Found ${templates.length} templates`);
+
+  const ids = opts.ids
+    ? opts.ids
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+    : [];
+  const { matched, notFound } = filterTemplatesByIds(templates, ids);
+  if (ids.length > 0) {
+    if (notFound.length > 0) {
+      console.log(`   ⚠️  IDs no encontrados: ${notFound.join(', ')}`);
+    }
+    console.log(`   Filtered to ${matched.length} templates by IDs`);
+  }
+
+  if (matched.length === 0) {
+    console.log('   Nothing to pull.');
+    return;
+  }
+
+  await mkdir(outDir, { recursive: true });
+
+  // Assign file names up front so they do not depend on download order
+  const usedNames = new Set<string>();
+  const jobs = matched.map((template) => ({
+    template,
+    file: templateFileName(template, usedNames),
+  }));
+
+  const saved: PullIndexEntry[] = [];
+  const errors: Array<{ name: string; error: string }> = [];
+  let done = 0;
+
+  const pullTemplate = async ({ template, file }: (typeof jobs)[number]) => {
+    try {
+      const json = await fetchContentTemplateJson(template._id, config);
+      await writeFile(join(outDir, file), JSON.stringify(json, null, 2), 'utf-8');
+      saved.push({
+        _id: template._id,
+        code: template.contentTemplateCode,
+        name: template.contentTemplateName,
+        type: template.templateType,
+        file,
+      });
+      done++;
+      if (verbose) {
+        const pct = Math.round((done / jobs.length) * 100);
+        console.log(`   [${pct}%] ${template.contentTemplateName} → ${file}`);
+      }
+    } catch (error) {
+      done++;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push({ name: template.contentTemplateName, error: errorMsg });
+      console.log(`   [ERR] FAILED: ${template.contentTemplateName} — ${errorMsg}`);
+    }
+  };
+
+  // Process with concurrency limit
+  const queue = [...jobs];
+  const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await pullTemplate(queue.shift()!);
+    }
+  });
+  await Promise.all(workers);
+
+  // Index in listing order, regardless of completion order
+  const order = new Map(jobs.map((j, i) => [j.template._id, i]));
+  saved.sort((a, b) => order.get(a._id)! - order.get(b._id)!);
+
+  const index: PullIndex = { domain, pulledAt: new Date().toISOString(), templates: saved };
+  await writeFile(join(outDir, 'index.json'), JSON.stringify(index, null, 2), 'utf-8');
+
+  console.log('\n' + '═'.repeat(50));
+  console.log('📊 Pull Complete\n');
+  console.log(`   ✅ Saved:  ${saved.length}`);
+  console.log(`   ❌ Failed: ${errors.length}`);
+  console.log(`   📁 ${outDir}`);
+
+  if (errors.length > 0) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * report command — Before/after HTML pages for local v1 JSON exports.
+ *
+ * Migrates each v1 file in memory (same as `migrate-file`, nothing else is
+ * written) and renders `<name>.html` with the v1 frames next to the v2 pages,
+ * highlighting skipped nodes and nodes with warnings. With several files an
+ * `index.html` linking every page is written as well.
+ *
+ * Usage:
+ *   pnpm start report ./archive/main-layout.json --html
+ *   pnpm start report ./output/pull/acme_2026-01-01 --html ./output/html
+ */
+
+import { writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import { collectLayoutFiles, migrateLayoutFile } from './migrateFile.js';
+import { renderHtmlReport } from '../report/htmlReport.js';
+import { escapeXml as escapeHtml } from '../report/migrationReport.js';
+import { loadComponentMap } from '../config/componentMap.js';
+import type { TransformOptions } from '../pipeline/migrationPipeline.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface ReportOptions {
+  /** `true` = next to each input file, string = output directory */
+  html?: boolean | string;
+  /** JSON/YAML component mapping file (see config/componentMap.ts) */
+  componentMap?: string;
+}
+
+interface IndexEntry {
+  file: string;
+  title: string;
+  valid: boolean;
+  warnings: number;
+  skipped: number;
+}
+
+/**
+ * Output path for an input file: `foo.json` → `<outDir>/foo.html`.
+ */
+export function htmlPathFor(inputPath: string, outDir?: string): string {
+  const base = basename(inputPath).replace(/\.json$/i, '');
+  return join(outDir ?? dirname(inputPath), `${base}.html`);
+}
+
+/**
+ * `index.html` listing every rendered template.
+ */
+export function renderHtmlIndex(entries: IndexEntry[]): string {
+  const rows = entries.map(
+    (e) =>
+      `<tr><td><a href="${escapeHtml(e.file)}">${escapeHtml(e.title)}</a></td><td>${e.valid ? 'valid' : 'invalid'}</td><td>${e.warnings}</td><td>${e.skipped}</td></tr>`
+  );
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Migration reports</title>
+<style>body{font-family:system-ui,sans-serif;margin:24px}table{border-collapse:collapse}td,th{border:1px solid #d4d4d8;padding:4px 8px;text-align:left}</style>
+</head>
+<body>
+<h1>Migration reports</h1>
+<table><thead><tr><th>Template</th><th>Validation</th><th>Warnings</th><th>Skipped nodes</th></tr></thead>
+<tbody>${rows.join('\n')}</tbody></table>
+</body>
+</html>
+`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMAND HANDLER
+// ═══════════════════════════════════════════════════════════════
+
+export async function handleReport(input: string, opts: ReportOptions): Promise<void> {
+  if (!opts.html) {
+    console.error('❌ Choose a report format: --html [dir]');
+    process.exit(1);
+  }
+
+  const inputPath = resolve(input);
+  const outDir = typeof opts.html === 'string' ? resolve(opts.html) : undefined;
+
+  let files: string[];
+  const transformOptions: TransformOptions = {};
+  try {
+    files = await collectLayoutFiles(inputPath);
+    if (opts.componentMap) {
+      transformOptions.componentMap = await loadComponentMap(resolve(opts.componentMap));
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (files.length === 0) {
+    console.log(`⚠️  No v1 JSON files found in ${inputPath}`);
+    return;
+  }
+
+  if (outDir) await mkdir(outDir, { recursive: true });
+  console.log(`\n🖼️  Rendering HTML reports for ${files.length} file(s) from ${inputPath}`);
+
+  const entries: IndexEntry[] = [];
+  let failed = 0;
+
+  for (const file of files) {
+    const htmlPath = htmlPathFor(file, outDir);
+    try {
+      const { layout, result } = await migrateLayoutFile(file, transformOptions);
+      await writeFile(htmlPath, renderHtmlReport({ layout, result, source: file }), 'utf-8');
+
+      entries.push({
+        file: basename(htmlPath),
+        title: layout.contentTemplateName ?? basename(file),
+        valid: result.validation.valid,
+        warnings: result.warnings.length,
+        skipped: result.skippedNodes.length,
+      });
+      console.log(`   ✅ ${basename(file)} → ${htmlPath}`);
+    } catch (error) {
+      failed++;
+      console.log(`   ❌ ${basename(file)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (files.length > 1 && entries.length > 0) {
+    const indexPath = join(outDir ?? inputPath, 'index.html');
+    await writeFile(indexPath, renderHtmlIndex(entries), 'utf-8');
+    console.log(`\n📄 Index: ${indexPath}`);
+  }
+
+  if (failed > 0) process.exit(1);
+}
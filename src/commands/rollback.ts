@@ -0,0 +1,332 @@
+/**
+ * rollback command — Undo a previous migration run.
+ *
+ * Two ways to select what to undo:
+ *  - From a run manifest written by `migrate-all` (`--manifest <path>`)
+ *  - From a date range plus the `-migrated` code convention used by
+ *    `upsertContentTemplate` (`--to <domain> --since <date>`)
+ *
+ * Steps (in this order, so nothing points at a template that is gone):
+ *  1. Revert product `snippets` arrays from the new snippet IDs to the old ones
+ *  2. Un-hide source templates deactivated by `--hide-old` (manifest only)
+ *  3. Deactivate (or `--delete`) the v2 templates created by the run
+ *
+ * Usage:
+ *   pnpm start rollback --manifest ./output/manifests/migrate-all_a_b_<ts>.json --dry-run
+ *   pnpm start rollback --from redrenault --to honda --since 2026-03-01 --until 2026-03-02
+ */
+
+import { resolve } from 'node:path';
+import {
+  fetchExistingTemplates,
+  buildTemplateCodeMap,
+  setTemplateActive,
+  deleteContentTemplate,
+  type ProlibuClientConfig,
+  type ContentTemplateListItem,
+} from '../client/prolibuClient.js';
+import { resolveConfigFromDomain } from '../config/envLoader.js';
+import { runSnippetReplacementPhase } from '../pipeline/snippetReplacer.js';
+import { loadRunManifest, type RunManifest } from '../pipeline/runManifest.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface RollbackPlan {
+  /** Source account domain (where templates were hidden) */
+  from: string;
+  /** Destination account domain (where templates were created) */
+  to: string;
+  /** Created v2 templates to deactivate or delete */
+  templatesToRemove: Array<{ targetId: string; targetCode: string; name: string }>;
+  /** Templates that cannot be undone automatically */
+  skipped: Array<{ targetCode: string; reason: string }>;
+  /** Source template IDs to re-activate */
+  sourcesToUnhide: string[];
+  /** Map of new snippet ID → old snippet ID, applied to products */
+  snippetRevertMap: Map<string, string>;
+}
+
+export interface RollbackOptions {
+  manifest?: string;
+  from?: string;
+  to?: string;
+  since?: string;
+  until?: string;
+  type: string;
+  delete: boolean;
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PLAN BUILDERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Build a rollback plan from a run manifest.
+ *
+ * Only templates the run *created* are removed: an `updated` target existed
+ * before the run and its previous content is not recoverable from here.
+ */
+export function buildPlanFromManifest(manifest: RunManifest): RollbackPlan {
+  const plan: RollbackPlan = {
+    from: manifest.from,
+    to: manifest.to,
+    templatesToRemove: [],
+    skipped: [],
+    sourcesToUnhide: [],
+    snippetRevertMap: new Map(),
+  };
+
+  for (const entry of Object.values(manifest.entries)) {
+    if (entry.hidden) {
+      plan.sourcesToUnhide.push(entry.sourceId);
+    }
+
+    if (entry.status !== 'completed' || !entry.targetId) continue;
+
+    if (
+      manifest.options.updateProducts &&
+      entry.templateType === 'snippet' &&
+      entry.targetId !== entry.sourceId
+    ) {
+      plan.snippetRevertMap.set(entry.targetId, entry.sourceId);
+    }
+
+    if (entry.action === 'created') {
+      plan.templatesToRemove.push({
+        targetId: entry.targetId,
+        targetCode: entry.targetCode,
+        name: entry.name,
+      });
+    } else {
+      plan.skipped.push({
+        targetCode: entry.targetCode,
+        reason: 'template existed before the run (updated) — previous content not recoverable',
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Build a rollback plan from a date range using the `-migrated` code convention.
+ *
+ * Every destination template whose code ends in `-migrated` and whose
+ * `createdAt` falls in [since, until] is removed. Its source counterpart is the
+ * template with the code minus the suffix: for same-account snippets, products
+ * are pointed back at it.
+ *
+ * Source templates are never re-activated here: without a run manifest there is
+ * no record of which ones `--hide-old` deactivated and which were already
+ * inactive. Across accounts, products are not reverted either — the source
+ * snippet IDs don't exist in the destination.
+ */
+export function buildPlanFromDateRange(
+  destTemplates: ContentTemplateListItem[],
+  sourceTemplates: ContentTemplateListItem[],
+  range: { from: string; to: string; since: Date; until: Date }
+): RollbackPlan {
+  const plan: RollbackPlan = {
+    from: range.from,
+    to: range.to,
+    templatesToRemove: [],
+    skipped: [],
+    sourcesToUnhide: [],
+    snippetRevertMap: new Map(),
+  };
+
+  const sourceByCode = buildTemplateCodeMap(sourceTemplates);
+  const sameAccount = range.from === range.to;
+
+  for (const t of destTemplates) {
+    const code = t.contentTemplateCode;
+    if (!code?.endsWith('-migrated')) continue;
+
+    if (!t.createdAt) {
+      plan.skipped.push({ targetCode: code, reason: 'no createdAt — cannot match date range' });
+      continue;
+    }
+    const createdAt = new Date(t.createdAt);
+    if (createdAt < range.since || createdAt > range.until) continue;
+
+    plan.templatesToRemove.push({
+      targetId: t._id,
+      targetCode: code,
+      name: t.contentTemplateName,
+    });
+
+    if (t.templateType !== 'snippet') continue;
+    if (!sameAccount) {
+      plan.skipped.push({
+        targetCode: code,
+        reason: 'cross-account — products not pointed back at source snippet IDs',
+      });
+      continue;
+    }
+    const sourceId = sourceByCode.get(code.slice(0, -'-migrated'.length));
+    if (sourceId) plan.snippetRevertMap.set(t._id, sourceId);
+  }
+
+  return plan;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMMAND HANDLER
+// ═══════════════════════════════════════════════════════════════
+
+export async function handleRollback(opts: RollbackOptions): Promise<void> {
+  const { dryRun, verbose } = opts;
+  const templateType =
+    opts.type === 'all' ? undefined : (opts.type as 'layout' | 'content' | 'snippet');
+
+  // 1. Build the plan
+  let plan: RollbackPlan;
+  let sourceConfig: ProlibuClientConfig;
+  let destConfig: ProlibuClientConfig;
+
+  if (opts.manifest) {
+    const manifestPath = resolve(opts.manifest);
+    console.log(`\n⏪ Rollback from manifest: ${manifestPath}`);
+    const manifest = await loadRunManifest(manifestPath);
+    plan = buildPlanFromManifest(manifest);
+
+    sourceConfig = await resolveConfigFromDomain(plan.from, 'Source');
+    destConfig =
+      plan.from === plan.to ? sourceConfig : await resolveConfigFromDomain(plan.to, 'Destination');
+  } else {
+    if (!opts.to || !opts.since) {
+      console.error('❌ Use --manifest <path>, or --to <domain> with --since <date>.');
+      process.exit(1);
+    }
+    const since = parseDateOption(opts.since, '--since');
+    const until = opts.until ? parseDateOption(opts.until, '--until') : new Date();
+    const from = opts.from ?? opts.to;
+
+    console.log(`\n⏪ Rollback by date range: ${since.toISOString()} → ${until.toISOString()}`);
+
+    destConfig = await resolveConfigFromDomain(opts.to, 'Destination');
+    sourceConfig = from === opts.to ? destConfig : await resolveConfigFromDomain(from, 'Source');
+
+    const destTemplates = await fetchExistingTemplates(destConfig, templateType);
+    const sourceTemplates =
+      from === opts.to ? destTemplates : await fetchExistingTemplates(sourceConfig, templateType);
+
+    plan = buildPlanFromDateRange(destTemplates, sourceTemplates, {
+      from,
+      to: opts.to,
+      since,
+      until,
+    });
+    console.log('   ⚠️  Source templates are not un-hidden without --manifest');
+  }
+
+  console.log(`   From: ${plan.from}`);
+  console.log(`   To:   ${plan.to}`);
+  console.log(
+    `   Templates to ${opts.delete ? 'delete' : 'deactivate'}: ${plan.templatesToRemove.length}`
+  );
+  console.log(`   Source templates to un-hide: ${plan.sourcesToUnhide.length}`);
+  console.log(`   Snippets to revert in products: ${plan.snippetRevertMap.size}`);
+
+  if (plan.skipped.length > 0) {
+    console.log(`\n   ⚠️  Skipped (${plan.skipped.length}):`);
+    for (const s of plan.skipped) {
+      console.log(`      - ${s.targetCode}: ${s.reason}`);
+    }
+  }
+
+  if (verbose) {
+    for (const t of plan.templatesToRemove) {
+      console.log(`   [REMOVE] ${t.name} (${t.targetCode}, ${t.targetId})`);
+    }
+  }
+
+  // 2. Products: new snippet ID → old snippet ID (products live in the destination)
+  if (plan.snippetRevertMap.size > 0) {
+    await runSnippetReplacementPhase(plan.snippetRevertMap, destConfig, dryRun, verbose);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run — no templates changed');
+    return;
+  }
+
+  // 3. Un-hide source templates
+  const unhide = await runForEach(plan.sourcesToUnhide, (id) =>
+    setTemplateActive(id, true, sourceConfig)
+  );
+  if (plan.sourcesToUnhide.length > 0) {
+    console.log(`\n👁️  Un-hidden: ${unhide.ok}`);
+    printFailures(unhide.failed, 'un-hide', verbose);
+  }
+
+  // 4. Deactivate or delete created templates
+  const remove = await runForEach(
+    plan.templatesToRemove.map((t) => t.targetId),
+    (id) =>
+      opts.delete ? deleteContentTemplate(id, destConfig) : setTemplateActive(id, false, destConfig)
+  );
+  if (plan.templatesToRemove.length > 0) {
+    console.log(`\n🗑️  ${opts.delete ? 'Deleted' : 'Deactivated'}: ${remove.ok}`);
+    printFailures(remove.failed, opts.delete ? 'delete' : 'deactivate', verbose);
+  }
+
+  const totalFailed = unhide.failed.length + remove.failed.length;
+  if (totalFailed > 0) {
+    process.exit(1);
+  }
+  console.log('\n✅ Rollback complete.');
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function parseDateOption(value: string, flag: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(`❌ Invalid date for ${flag}: "${value}"`);
+    process.exit(1);
+  }
+  return date;
+}
+
+/**
+ * Run an action for each ID sequentially, collecting failures instead of stopping.
+ */
+async function runForEach(
+  ids: string[],
+  action: (id: string) => Promise<void>
+): Promise<{ ok: number; failed: Array<{ id: string; error: string }> }> {
+  let ok = 0;
+  const failed: Array<{ id: string; error: string }> = [];
+
+  for (const id of ids) {
+    try {
+      await action(id);
+      ok++;
+    } catch (error) {
+      failed.push({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { ok, failed };
+}
+
+function printFailures(
+  failed: Array<{ id: string; error: string }>,
+  verb: string,
+  verbose: boolean
+): void {
+  if (failed.length === 0) return;
+  console.log(`   ❌ Failed to ${verb}: ${failed.length}`);
+  if (verbose) {
+    for (const f of failed) {
+      console.log(`      - ${f.id}: ${f.error}`);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Component Map — v1 `comX` → v2 component plugin mapping.
+ *
+ * The built-in mapping (`DEFAULT_COMPONENT_MAP`) can be extended per account
+ * with a JSON or YAML file, given with `--component-map <file>` or
+ * `COMPONENT_MAP=<file>` in the domain `.env`:
+ *
+ *   components:
+ *     comCountdown:
+ *       pluginId: com-countdown
+ *       componentName: Countdown
+ *       renameProps: { endDate: deadline }
+ *       defaultProps: { showSeconds: false }
+ *     comSign:
+ *       renderOnly: false
+ *
+ * Entries for known components are merged field by field over the built-in one;
+ * new components must give a `pluginId`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface ComponentMapping {
+  pluginId: string;
+  componentName: string;
+  /** v1 prop name → v2 prop name */
+  renameProps: Record<string, string>;
+  /** Props set when the v1 config doesn't have them */
+  defaultProps: Record<string, unknown>;
+  /** Rendered in export but not editable in the canvas */
+  renderOnly: boolean;
+}
+
+/** Keyed by v1 component name (`comQuote`, without the `--` prefix) */
+export type ComponentMap = Record<string, ComponentMapping>;
+
+const ComponentMappingSchema = z
+  .object({
+    pluginId: z.string().min(1).optional(),
+    componentName: z.string().min(1).optional(),
+    renameProps: z.record(z.string().min(1)).optional(),
+    defaultProps: z.record(z.unknown()).optional(),
+    renderOnly: z.boolean().optional(),
+  })
+  .strict();
+
+export const ComponentMapFileSchema = z
+  .object({
+    components: z.record(z.string().regex(/^com[A-Za-z0-9]+$/), ComponentMappingSchema),
+  })
+  .strict();
+
+export type ComponentMapFile = z.infer<typeof ComponentMapFileSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// BUILT-IN MAPPING
+// ═══════════════════════════════════════════════════════════════
+
+function builtIn(pluginId: string, componentName: string, renderOnly = false): ComponentMapping {
+  return { pluginId, componentName, renameProps: {}, defaultProps: {}, renderOnly };
+}
+
+export const DEFAULT_COMPONENT_MAP: ComponentMap = {
+  comProposalHeader: builtIn('com-proposal-header', 'Proposal Header'),
+  comAgent: builtIn('com-agent', 'Agent Info'),
+  comQuote: builtIn('com-quote', 'Price Quote'),
+  comQuickProposalApproval: builtIn('com-quick-proposal-approval', 'Quick Approval'),
+  comRate: builtIn('com-rate', 'Rating'),
+  comAccordion: builtIn('com-accordion', 'Accordion'),
+  comPaymentPlan: builtIn('com-payment-plan', 'Payment Plan'),
+  comAttachment: builtIn('com-attachment', 'Attachment'),
+  // Render-only (not editable in canvas, but rendered by doc-render)
+  comAvatar: builtIn('com-avatar', 'Avatar', true),
+  comSign: builtIn('com-sign', 'Signature', true),
+  comAgreementSignature: builtIn('com-agreement-signature', 'Agreement Signature', true),
+};
+
+// ═══════════════════════════════════════════════════════════════
+// LOADING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Read, validate and merge a mapping file over the built-in map.
+ * `.yaml` / `.yml` files are parsed as YAML, anything else as JSON.
+ *
+ * @throws Error naming the file on unreadable, malformed or invalid config
+ */
+export async function loadComponentMap(
+  path: string,
+  base: ComponentMap = DEFAULT_COMPONENT_MAP
+): Promise<ComponentMap> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Cannot read component map ${path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const ext = extname(path).toLowerCase();
+  const format = ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json';
+  try {
+    return mergeComponentMap(base, parseComponentMapFile(text, format));
+  } catch (error) {
+    throw new Error(
+      `Invalid component map ${path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Parse and validate the file contents.
+ *
+ * @throws Error on syntax errors or a structure that doesn't match the schema
+ */
+export function parseComponentMapFile(text: string, format: 'json' | 'yaml'): ComponentMapFile {
+  const data: unknown = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+
+  const parsed = ComponentMapFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(issues.join('; '));
+  }
+  return parsed.data;
+}
+
+/**
+ * Merge file entries over `base`: known components field by field (props
+ * maps are merged too), new components need a `pluginId`.
+ *
+ * @throws Error if a new component has no pluginId
+ */
+export function mergeComponentMap(base: ComponentMap, file: ComponentMapFile): ComponentMap {
+  const merged: ComponentMap = { ...base };
+
+  for (const [comName, entry] of Object.entries(file.components)) {
+    const existing = base[comName];
+    if (!existing && !entry.pluginId) {
+      throw new Error(`components.${comName}: pluginId is required for a new component`);
+    }
+
+    merged[comName] = {
+      pluginId: entry.pluginId ?? existing.pluginId,
+      componentName: entry.componentName ?? existing?.componentName ?? comName,
+      renameProps: { ...existing?.renameProps, ...entry.renameProps },
+      defaultProps: { ...existing?.defaultProps, ...entry.defaultProps },
+      renderOnly: entry.renderOnly ?? existing?.renderOnly ?? false,
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Apply a mapping's prop renames and defaults to the (already cleaned) v1 props.
+ */
+export function mapComponentProps(
+  props: Record<string, unknown>,
+  mapping: ComponentMapping
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(props)) {
+    result[mapping.renameProps[key] ?? key] = value;
+  }
+  for (const [key, value] of Object.entries(mapping.defaultProps)) {
+    if (!(key in result)) result[key] = value;
+  }
+  return result;
+}
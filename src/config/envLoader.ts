@@ -12,6 +12,7 @@
 import { readFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
 import { existsSync, readdirSync } from 'node:fs';
+import type { ProlibuClientConfig } from '../client/prolibuClient.js';
 
 export interface EnvConfig {
   PROLIBU_API_URL?: string;
@@ -56,6 +57,32 @@ export async function loadDomainEnv(domain: string): Promise<EnvConfig> {
   return parseEnvFile(filePath);
 }
 
+/**
+ * Build a Prolibu client config from a `.{domain}.env` file.
+ * Falls back to `https://{domain}.prolibu.com/api` when PROLIBU_API_URL is missing.
+ *
+ * @param domain Domain name (e.g. "redrenault")
+ * @param label  Log prefix, e.g. "Source" or "Destination"
+ */
+export async function resolveConfigFromDomain(
+  domain: string,
+  label: string
+): Promise<ProlibuClientConfig> {
+  const env = await loadDomainEnv(domain);
+  const apiUrl = env.PROLIBU_API_URL ?? `https://${domain}.prolibu.com/api`;
+  const token = env.PROLIBU_AUTH_TOKEN;
+
+  if (!token) {
+    throw new Error(`${label}: No PROLIBU_AUTH_TOKEN found in .${domain}.env`);
+  }
+
+  console.log(`📂 ${label}: loaded .${domain}.env`);
+  return {
+    baseUrl: apiUrl,
+    authToken: token.startsWith('Bearer ') ? token : `Bearer ${token}`,
+  };
+}
+
 /**
  * Parse a simple .env file into key-value pairs.
  */
@@ -1,95 +1,342 @@
 /**
  * Color Parser — converts CSS color strings to RGBA
  *
- * Supports: rgb(), rgba(), hex (#RGB, #RRGGBB, #RRGGBBAA),
- * 'transparent', and named colors (white, black).
+ * Supports:
+ * - hex (#RGB, #RGBA, #RRGGBB, #RRGGBBAA)
+ * - rgb() / rgba() / hsl() / hsla(), comma-separated or space-separated
+ *   (CSS Color 4: `rgb(255 0 0 / 50%)`), with percentages, hue units and `none`
+ * - the 148 CSS named colors and 'transparent'
+ * - 'currentColor' (when the caller knows the element's `color`)
+ * - var(--x, fallback) — custom properties aren't known, only the fallback is used
+ *
+ * `tryParseColor` returns a result or an error message so callers can report
+ * bad colors; `parseColor` keeps the old behavior of falling back to black.
  */
 
 import type { RGBA } from '@design-studio/schema';
 
-const NAMED_COLORS: Record<string, RGBA> = {
-  white: { r: 255, g: 255, b: 255, a: 1 },
-  black: { r: 0, g: 0, b: 0, a: 1 },
-  red: { r: 255, g: 0, b: 0, a: 1 },
-  green: { r: 0, g: 128, b: 0, a: 1 },
-  blue: { r: 0, g: 0, b: 255, a: 1 },
-  gray: { r: 128, g: 128, b: 128, a: 1 },
-  grey: { r: 128, g: 128, b: 128, a: 1 },
-  transparent: { r: 0, g: 0, b: 0, a: 0 },
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type ColorParseResult = { ok: true; color: RGBA } | { ok: false; error: string };
+
+export interface ColorParseOptions {
+  /** Value of `currentColor` (the element's `color`); unresolved without it */
+  currentColor?: RGBA;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// NAMED COLORS
+// ═══════════════════════════════════════════════════════════════
+
+/** CSS Color 4 named colors (without 'transparent') */
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff',
+  antiquewhite: 'faebd7',
+  aqua: '00ffff',
+  aquamarine: '7fffd4',
+  azure: 'f0ffff',
+  beige: 'f5f5dc',
+  bisque: 'ffe4c4',
+  black: '000000',
+  blanchedalmond: 'ffebcd',
+  blue: '0000ff',
+  blueviolet: '8a2be2',
+  brown: 'a52a2a',
+  burlywood: 'deb887',
+  cadetblue: '5f9ea0',
+  chartreuse: '7fff00',
+  chocolate: 'd2691e',
+  coral: 'ff7f50',
+  cornflowerblue: '6495ed',
+  cornsilk: 'fff8dc',
+  crimson: 'dc143c',
+  cyan: '00ffff',
+  darkblue: '00008b',
+  darkcyan: '008b8b',
+  darkgoldenrod: 'b8860b',
+  darkgray: 'a9a9a9',
+  darkgreen: '006400',
+  darkgrey: 'a9a9a9',
+  darkkhaki: 'bdb76b',
+  darkmagenta: '8b008b',
+  darkolivegreen: '556b2f',
+  darkorange: 'ff8c00',
+  darkorchid: '9932cc',
+  darkred: '8b0000',
+  darksalmon: 'e9967a',
+  darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b',
+  darkslategray: '2f4f4f',
+  darkslategrey: '2f4f4f',
+  darkturquoise: '00ced1',
+  darkviolet: '9400d3',
+  deeppink: 'ff1493',
+  deepskyblue: '00bfff',
+  dimgray: '696969',
+  dimgrey: '696969',
+  dodgerblue: '1e90ff',
+  firebrick: 'b22222',
+  floralwhite: 'fffaf0',
+  forestgreen: '228b22',
+  fuchsia: 'ff00ff',
+  gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff',
+  gold: 'ffd700',
+  goldenrod: 'daa520',
+  gray: '808080',
+  green: '008000',
+  greenyellow: 'adff2f',
+  grey: '808080',
+  honeydew: 'f0fff0',
+  hotpink: 'ff69b4',
+  indianred: 'cd5c5c',
+  indigo: '4b0082',
+  ivory: 'fffff0',
+  khaki: 'f0e68c',
+  lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00',
+  lemonchiffon: 'fffacd',
+  lightblue: 'add8e6',
+  lightcoral: 'f08080',
+  lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2',
+  lightgray: 'd3d3d3',
+  lightgreen: '90ee90',
+  lightgrey: 'd3d3d3',
+  lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a',
+  lightseagreen: '20b2aa',
+  lightskyblue: '87cefa',
+  lightslategray: '778899',
+  lightslategrey: '778899',
+  lightsteelblue: 'b0c4de',
+  lightyellow: 'ffffe0',
+  lime: '00ff00',
+  limegreen: '32cd32',
+  linen: 'faf0e6',
+  magenta: 'ff00ff',
+  maroon: '800000',
+  mediumaquamarine: '66cdaa',
+  mediumblue: '0000cd',
+  mediumorchid: 'ba55d3',
+  mediumpurple: '9370db',
+  mediumseagreen: '3cb371',
+  mediumslateblue: '7b68ee',
+  mediumspringgreen: '00fa9a',
+  mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585',
+  midnightblue: '191970',
+  mintcream: 'f5fffa',
+  mistyrose: 'ffe4e1',
+  moccasin: 'ffe4b5',
+  navajowhite: 'ffdead',
+  navy: '000080',
+  oldlace: 'fdf5e6',
+  olive: '808000',
+  olivedrab: '6b8e23',
+  orange: 'ffa500',
+  orangered: 'ff4500',
+  orchid: 'da70d6',
+  palegoldenrod: 'eee8aa',
+  palegreen: '98fb98',
+  paleturquoise: 'afeeee',
+  palevioletred: 'db7093',
+  papayawhip: 'ffefd5',
+  peachpuff: 'ffdab9',
+  peru: 'cd853f',
+  pink: 'ffc0cb',
+  plum: 'dda0dd',
+  powderblue: 'b0e0e6',
+  purple: '800080',
+  rebeccapurple: '663399',
+  red: 'ff0000',
+  rosybrown: 'bc8f8f',
+  royalblue: '4169e1',
+  saddlebrown: '8b4513',
+  salmon: 'fa8072',
+  sandybrown: 'f4a460',
+  seagreen: '2e8b57',
+  seashell: 'fff5ee',
+  sienna: 'a0522d',
+  silver: 'c0c0c0',
+  skyblue: '87ceeb',
+  slateblue: '6a5acd',
+  slategray: '708090',
+  slategrey: '708090',
+  snow: 'fffafa',
+  springgreen: '00ff7f',
+  steelblue: '4682b4',
+  tan: 'd2b48c',
+  teal: '008080',
+  thistle: 'd8bfd8',
+  tomato: 'ff6347',
+  turquoise: '40e0d0',
+  violet: 'ee82ee',
+  wheat: 'f5deb3',
+  white: 'ffffff',
+  whitesmoke: 'f5f5f5',
+  yellow: 'ffff00',
+  yellowgreen: '9acd32',
 };
 
-export function parseColor(cssColor: string): RGBA {
+// ═══════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Parse a CSS color, returning the color or why it isn't one.
+ */
+export function tryParseColor(cssColor: string, options: ColorParseOptions = {}): ColorParseResult {
   const trimmed = cssColor.trim().toLowerCase();
+  if (!trimmed) return fail('empty color');
 
-  // Named colors
-  if (NAMED_COLORS[trimmed]) {
-    return { ...NAMED_COLORS[trimmed] };
+  // var(--x) / var(--x, fallback)
+  const varMatch = trimmed.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/);
+  if (varMatch) {
+    if (varMatch[2] === undefined) return fail(`unresolved CSS variable ${varMatch[1]}`);
+    return tryParseColor(varMatch[2], options);
   }
 
-  // rgb(r, g, b)
-  const rgbMatch = trimmed.match(/^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
-  if (rgbMatch) {
-    return {
-      r: clamp(parseInt(rgbMatch[1], 10), 0, 255),
-      g: clamp(parseInt(rgbMatch[2], 10), 0, 255),
-      b: clamp(parseInt(rgbMatch[3], 10), 0, 255),
-      a: 1,
-    };
+  if (trimmed === 'transparent') return ok({ r: 0, g: 0, b: 0, a: 0 });
+
+  if (trimmed === 'currentcolor') {
+    return options.currentColor
+      ? ok({ ...options.currentColor })
+      : fail('currentColor has no color to resolve to');
   }
 
-  // rgba(r, g, b, a)
-  const rgbaMatch = trimmed.match(/^rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([\d.]+)\s*\)$/);
-  if (rgbaMatch) {
-    return {
-      r: clamp(parseInt(rgbaMatch[1], 10), 0, 255),
-      g: clamp(parseInt(rgbaMatch[2], 10), 0, 255),
-      b: clamp(parseInt(rgbaMatch[3], 10), 0, 255),
-      a: clamp(parseFloat(rgbaMatch[4]), 0, 1),
-    };
+  if (Object.hasOwn(NAMED_COLORS, trimmed)) {
+    return ok(hexToRgba(NAMED_COLORS[trimmed]));
   }
 
-  // Hex
   if (trimmed.startsWith('#')) {
-    return parseHex(trimmed);
+    const hex = trimmed.slice(1);
+    if (!/^[0-9a-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+      return fail(`invalid hex color "${cssColor.trim()}"`);
+    }
+    return ok(hexToRgba(hex));
   }
 
-  // Fallback: black (unrecognized format)
-  console.warn(`⚠️  Unrecognized color format: "${cssColor}" — defaulting to black`);
-  return { r: 0, g: 0, b: 0, a: 1 };
+  const fnMatch = trimmed.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (fnMatch) {
+    const args = splitArgs(fnMatch[2]);
+    const color = args && (fnMatch[1].startsWith('rgb') ? rgbFromArgs(args) : hslFromArgs(args));
+    return color ? ok(color) : fail(`invalid ${fnMatch[1]}() color "${cssColor.trim()}"`);
+  }
+
+  return fail(`unrecognized color "${cssColor.trim()}"`);
 }
 
-function parseHex(hex: string): RGBA {
-  const h = hex.slice(1);
-
-  if (h.length === 3) {
-    // #RGB → #RRGGBB
-    return {
-      r: parseInt(h[0] + h[0], 16),
-      g: parseInt(h[1] + h[1], 16),
-      b: parseInt(h[2] + h[2], 16),
-      a: 1,
-    };
-  }
+/**
+ * Parse a CSS color, falling back to black when it isn't one.
+ * Prefer `tryParseColor` where the failure can be reported.
+ */
+export function parseColor(cssColor: string, options: ColorParseOptions = {}): RGBA {
+  const result = tryParseColor(cssColor, options);
+  return result.ok ? result.color : { r: 0, g: 0, b: 0, a: 1 };
+}
 
-  if (h.length === 6) {
-    return {
-      r: parseInt(h.slice(0, 2), 16),
-      g: parseInt(h.slice(2, 4), 16),
-      b: parseInt(h.slice(4, 6), 16),
-      a: 1,
-    };
-  }
+function ok(color: RGBA): ColorParseResult {
+  return { ok: true, color };
+}
+
+function fail(error: string): ColorParseResult {
+  return { ok: false, error };
+}
 
-  if (h.length === 8) {
-    return {
-      r: parseInt(h.slice(0, 2), 16),
-      g: parseInt(h.slice(2, 4), 16),
-      b: parseInt(h.slice(4, 6), 16),
-      a: Math.round((parseInt(h.slice(6, 8), 16) / 255) * 100) / 100,
-    };
+/**
+ * Split function arguments into 3 channels + optional alpha.
+ * Legacy: `a, b, c[, alpha]` — modern: `a b c[ / alpha]`.
+ */
+function splitArgs(body: string): { channels: string[]; alpha?: string } | null {
+  if (body.includes(',')) {
+    const parts = body.split(',').map((p) => p.trim());
+    if (parts.length !== 3 && parts.length !== 4) return null;
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
   }
 
-  return { r: 0, g: 0, b: 0, a: 1 };
+  const [channelPart, alpha, ...rest] = body.split('/').map((p) => p.trim());
+  if (rest.length > 0 || alpha === '') return null;
+  const channels = channelPart.split(/\s+/).filter(Boolean);
+  if (channels.length !== 3) return null;
+  return { channels, alpha };
+}
+
+function rgbFromArgs(args: { channels: string[]; alpha?: string }): RGBA | null {
+  const [r, g, b] = args.channels.map((c) => parseChannel(c, 255));
+  const a = parseAlpha(args.alpha);
+  if (r === null || g === null || b === null || a === null) return null;
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b), a };
+}
+
+function hslFromArgs(args: { channels: string[]; alpha?: string }): RGBA | null {
+  const h = parseHue(args.channels[0]);
+  const s = parseChannel(args.channels[1], 100);
+  const l = parseChannel(args.channels[2], 100);
+  const a = parseAlpha(args.alpha);
+  if (h === null || s === null || l === null || a === null) return null;
+  return { ...hslToRgb(h, s / 100, l / 100), a };
+}
+
+/** Number or percentage of `max`, clamped to [0, max]; `none` = 0 */
+function parseChannel(value: string, max: number): number | null {
+  if (value === 'none') return 0;
+  const match = value.match(/^(-?[\d.]+(?:e-?\d+)?)(%?)$/);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  if (isNaN(n)) return null;
+  return clamp(match[2] ? (n / 100) * max : n, 0, max);
+}
+
+function parseAlpha(value: string | undefined): number | null {
+  if (value === undefined) return 1;
+  const alpha = parseChannel(value, 1);
+  return alpha === null ? null : Math.round(alpha * 1000) / 1000;
+}
+
+/** Hue in degrees, normalized to [0, 360) */
+function parseHue(value: string): number | null {
+  if (value === 'none') return 0;
+  const match = value.match(/^(-?[\d.]+(?:e-?\d+)?)(deg|rad|grad|turn)?$/);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  if (isNaN(n)) return null;
+
+  const perUnit: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+  const degrees = n * perUnit[match[2] ?? 'deg'];
+  return ((degrees % 360) + 360) % 360;
+}
+
+function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return {
+    r: Math.round(f(0) * 255),
+    g: Math.round(f(8) * 255),
+    b: Math.round(f(4) * 255),
+  };
+}
+
+function hexToRgba(hex: string): RGBA {
+  // #RGB / #RGBA → #RRGGBB / #RRGGBBAA
+  const h =
+    hex.length <= 4
+      ? hex
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : hex;
+
+  return {
+    r: parseInt(h.slice(0, 2), 16),
+    g: parseInt(h.slice(2, 4), 16),
+    b: parseInt(h.slice(4, 6), 16),
+    a: h.length === 8 ? Math.round((parseInt(h.slice(6, 8), 16) / 255) * 100) / 100 : 1,
+  };
 }
 
 function clamp(value: number, min: number, max: number): number {
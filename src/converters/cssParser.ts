@@ -2,12 +2,20 @@
  * CSS Parser — converts Prolibu node styles (key-value) to structured values
  *
  * Prolibu nodes have `styles: Record<string, string>` with CSS property values.
- * This parser extracts numeric values, background info, and border info.
+ * This parser extracts numeric values, background info, border info,
+ * effects (shadows, filters, blend mode) and 2D transforms. Lengths go through
+ * `tryParseLength` (units, percentages, calc()).
  */
 
+const GRADIENT_LAYER_RE = /^(repeating-)?(linear|radial|conic)-gradient\(/i;
+
 export interface ParentDimensions {
   width: number;
   height: number;
+  /** Font size children inherit, for em units */
+  fontSize?: number;
+  /** Page size, for vw/vh units */
+  viewport?: { width: number; height: number };
 }
 
 export interface ParsedStyles {
@@ -18,10 +26,28 @@ export interface ParsedStyles {
   opacity: number;
   visible: boolean;
   zIndex: number;
+  /** How the node follows its parent's resizing (from left/right/top/bottom) */
+  constraints: ParsedConstraints;
+  /** Clockwise degrees around the box center (from `transform`) */
+  rotation: number;
+  /** Transform parts that can't be represented (skew, flips), as written */
+  unsupportedTransforms?: string[];
+  /** Scale factors of `transform`, already applied to width/height (set when not 1) */
+  transformScale?: { x: number; y: number };
   backgroundColor?: string;
   backgroundImage?: string;
+  /** CSS gradient layers of backgroundImage, top layer first (see gradientParser.ts) */
+  backgroundGradients?: string[];
+  /** Size, position and repeat of `backgroundImage` (set with it) */
+  background?: ParsedBackground;
+  /** All sides when they're the same, otherwise the first drawn side (bottom, top, left, right) */
   border?: ParsedBorder;
+  /** Each drawn side (see `parseBorders`) */
+  borders?: ParsedBorders;
+  /** Set when all corners have the same radius */
   borderRadius?: number;
+  /** Set instead of `borderRadius` when the corners differ */
+  cornerRadii?: CornerRadii;
   fontFamily?: string;
   fontSize?: number;
   color?: string;
@@ -30,6 +56,47 @@ export interface ParsedStyles {
   minHeight?: number;
   heightAuto: boolean;
   widthAuto: boolean;
+  boxShadows?: ParsedShadow[];
+  textShadows?: ParsedShadow[];
+  /** filter: blur() radius in px */
+  blur?: number;
+  /** filter: drop-shadow() */
+  dropShadows?: ParsedShadow[];
+  /** mixBlendMode as written (validated by the transformers) */
+  blendMode?: string;
+  /** Effect declarations that couldn't be parsed, as `property: value` */
+  unsupportedEffects?: string[];
+  /** Lengths that couldn't be resolved, as `property: value (reason)` (default used) */
+  unresolvedLengths?: string[];
+}
+
+export interface ParsedShadow {
+  x: number;
+  y: number;
+  blur: number;
+  spread: number;
+  /** As written; `undefined` = currentColor */
+  color?: string;
+  inset: boolean;
+}
+
+/** A background position on one axis, as CSS computes it: fraction × (box − image) + px */
+export interface BackgroundOffset {
+  /** 0 = left/top, 0.5 = center, 1 = right/bottom (percentages) */
+  fraction: number;
+  px: number;
+}
+
+export interface ParsedBackground {
+  /** `cover`, `contain`, or a size in px (an `undefined` side is `auto`) */
+  size: 'cover' | 'contain' | { width?: number; height?: number };
+  position: { x: BackgroundOffset; y: BackgroundOffset };
+  repeat: { x: boolean; y: boolean };
+}
+
+export interface ParsedConstraints {
+  horizontal: 'left' | 'right' | 'left-right' | 'center' | 'scale';
+  vertical: 'top' | 'bottom' | 'top-bottom' | 'center' | 'scale';
 }
 
 export interface ParsedBorder {
@@ -38,14 +105,27 @@ export interface ParsedBorder {
   color: string;
 }
 
+export type BorderSide = 'top' | 'right' | 'bottom' | 'left';
+
+export type ParsedBorders = Partial<Record<BorderSide, ParsedBorder>>;
+
+export interface CornerRadii {
+  topLeft: number;
+  topRight: number;
+  bottomRight: number;
+  bottomLeft: number;
+}
+
 /**
  * Parse a Prolibu node's styles object into structured values.
  * @param styles The styles object from a Prolibu node
  * @param parentDimensions Optional parent dimensions for percentage calculations
+ * @param options.intrinsicSize Content size for `auto` width/height (e.g. measured text)
  */
 export function parseNodeStyles(
   styles: Record<string, string | number> | undefined,
-  parentDimensions?: ParentDimensions
+  parentDimensions?: ParentDimensions,
+  options: { intrinsicSize?: { width: number; height?: number } } = {}
 ): ParsedStyles {
   if (!styles) {
     return {
@@ -56,6 +136,8 @@ export function parseNodeStyles(
       opacity: 1,
       visible: true,
       zIndex: 0,
+      constraints: { horizontal: 'left', vertical: 'top' },
+      rotation: 0,
       heightAuto: false,
       widthAuto: false,
     };
@@ -67,29 +149,68 @@ export function parseNodeStyles(
     s[k] = String(v);
   }
 
+  // Font size first: em lengths of every other property depend on it
+  const unresolved: string[] = [];
+  const fontSize = s.fontSize
+    ? parseFontSize(s.fontSize, parentDimensions, unresolved)
+    : parentDimensions?.fontSize;
+  const lengths: LengthContext = { fontSize, viewport: parentDimensions?.viewport };
+
+  /** A length property in px; null when absent, `auto` or unresolved (recorded) */
+  const length = (property: string, percentBase?: number): number | null => {
+    const value = s[property]?.trim();
+    if (!value || value === 'auto' || value === 'none') return null;
+    const result = tryParseLength(value, { ...lengths, percentBase });
+    if (result.ok) return value.includes('%') ? Math.round(result.value) : result.value;
+    unresolved.push(`${property}: ${value} (${result.error})`);
+    return null;
+  };
+
   // Detect auto dimensions
   const widthAuto = s.width === 'auto' || !s.width;
   const heightAuto = s.height === 'auto' || !s.height;
 
-  // For auto width, use 85% of parent width as the standard width
-  const x = parsePx(s.left) ?? 0;
+  // For auto width, use the content width or 85% of parent width as the standard width
+  const intrinsic = options.intrinsicSize;
   let width: number;
-  if (widthAuto) {
+  if (widthAuto && intrinsic) {
+    width = intrinsic.width;
+  } else if (widthAuto) {
     // Use 85% of parent width, or 400 as reasonable default without parent
     width = parentDimensions ? Math.round(parentDimensions.width * 0.85) : 400;
   } else {
-    width = parseDimension(s.width, parentDimensions?.width) ?? 100;
+    width = length('width', parentDimensions?.width) ?? 100;
   }
 
-  const result: ParsedStyles = {
-    x,
-    y: parsePx(s.top) ?? 0,
+  // Position from left/top, or from right/bottom and the parent size
+  const horizontal = resolveAxis(
+    { value: s.left, px: length('left', parentDimensions?.width) },
+    { value: s.right, px: length('right', parentDimensions?.width) },
+    s.width,
     width,
-    height: parseDimension(s.height, parentDimensions?.height) ?? 100,
+    parentDimensions?.width
+  );
+  const vertical = resolveAxis(
+    { value: s.top, px: length('top', parentDimensions?.height) },
+    { value: s.bottom, px: length('bottom', parentDimensions?.height) },
+    s.height,
+    (heightAuto ? intrinsic?.height : undefined) ??
+      length('height', parentDimensions?.height) ??
+      100,
+    parentDimensions?.height
+  );
+
+  const result: ParsedStyles = {
+    x: horizontal.position,
+    y: vertical.position,
+    width: horizontal.size,
+    height: vertical.size,
     opacity:
       s.opacity !== undefined ? (isNaN(parseFloat(s.opacity)) ? 1 : parseFloat(s.opacity)) : 1,
     visible: s.display !== 'none',
     zIndex: s.zIndex ? (isNaN(parseInt(s.zIndex, 10)) ? 0 : parseInt(s.zIndex, 10)) : 0,
+    constraints: { horizontal: 'left', vertical: 'top' },
+    rotation: 0,
     heightAuto,
     widthAuto,
   };
@@ -99,26 +220,46 @@ export function parseNodeStyles(
     result.backgroundColor = s.backgroundColor;
   }
 
-  // Background image
+  // Background image — gradient layers are kept apart, the first other layer is the image
+  let backgroundLayer = 0;
   if (s.backgroundImage && s.backgroundImage !== 'none') {
-    // Extract URL from url("...") wrapper
-    const urlMatch = s.backgroundImage.match(/url\(["']?(.+?)["']?\)/);
-    if (urlMatch) {
-      result.backgroundImage = urlMatch[1];
-    } else {
-      result.backgroundImage = s.backgroundImage;
+    const layers = splitCssList(s.backgroundImage);
+    const gradients = layers.filter((layer) => GRADIENT_LAYER_RE.test(layer));
+    if (gradients.length > 0) {
+      result.backgroundGradients = gradients;
+    }
+
+    backgroundLayer = layers.findIndex(
+      (layer) => !GRADIENT_LAYER_RE.test(layer) && layer !== 'none'
+    );
+    const image = layers[backgroundLayer];
+    if (image) {
+      // Extract URL from url("...") wrapper
+      const urlMatch = image.match(/url\(["']?(.+?)["']?\)/);
+      if (urlMatch) {
+        result.backgroundImage = urlMatch[1];
+      } else {
+        result.backgroundImage = image;
+      }
     }
   }
 
   // Border
-  const border = parseBorder(s);
-  if (border) {
-    result.border = border;
+  const borders = parseBorders(s);
+  if (borders) {
+    result.borders = borders;
+    result.border = singleBorder(borders);
   }
 
   // Border radius
-  if (s.borderRadius) {
-    result.borderRadius = parsePx(s.borderRadius) ?? 0;
+  const radii = parseCornerRadii(s, Math.min(width, result.height), lengths);
+  if (radii) {
+    const { topLeft, topRight, bottomRight, bottomLeft } = radii;
+    if (topLeft === topRight && topLeft === bottomRight && topLeft === bottomLeft) {
+      result.borderRadius = topLeft;
+    } else {
+      result.cornerRadii = radii;
+    }
   }
 
   // Typography - preserve exact font name (only strip quotes and file extension)
@@ -128,8 +269,8 @@ export function parseNodeStyles(
       .replace(/\.(ttf|otf|woff2?)$/i, '')
       .trim();
   }
-  if (s.fontSize) {
-    result.fontSize = parsePx(s.fontSize) ?? 16;
+  if (fontSize !== undefined) {
+    result.fontSize = fontSize;
   }
   if (s.color) {
     result.color = s.color;
@@ -137,98 +278,1059 @@ export function parseNodeStyles(
   if (s.fontWeight) {
     result.fontWeight = parseInt(s.fontWeight, 10) || 400;
   }
-  if (s.lineHeight) {
-    result.lineHeight = parsePx(s.lineHeight) ?? undefined;
+  if (s.lineHeight && s.lineHeight !== 'normal') {
+    // Unitless = multiple of the font size
+    const factor = /^[\d.]+$/.test(s.lineHeight.trim()) ? parseFloat(s.lineHeight) : null;
+    const em = fontSize ?? DEFAULT_FONT_SIZE;
+    result.lineHeight =
+      factor !== null ? round2(factor * em) : (length('lineHeight', em) ?? undefined);
   }
 
+  // Effects
+  parseEffects(s, result, lengths);
+
   // Min height (for auto-grow pages)
   if (s.minHeight) {
-    result.minHeight = parsePx(s.minHeight) ?? undefined;
+    result.minHeight = length('minHeight', parentDimensions?.height) ?? undefined;
+  }
+
+  // Transform — folded into position/size/rotation
+  if (s.transform && s.transform !== 'none') {
+    applyTransform(s.transform, s.transformOrigin, result, lengths);
+  }
+
+  // Background size/position/repeat (after the transform: percentages are of the final box)
+  if (result.backgroundImage) {
+    result.background = parseBackground(s, backgroundLayer, result, lengths, unresolved);
+  }
+
+  // Constraints (after the transform: `left: 50%` + `translateX(-50%)` is centered)
+  result.constraints = {
+    horizontal: constraintFor(horizontal, result.x, result.width, parentDimensions?.width, [
+      'left',
+      'right',
+      'left-right',
+    ]),
+    vertical: constraintFor(vertical, result.y, result.height, parentDimensions?.height, [
+      'top',
+      'bottom',
+      'top-bottom',
+    ]),
+  };
+
+  if (unresolved.length > 0) {
+    result.unresolvedLengths = unresolved;
   }
 
   return result;
 }
 
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9,
+  'x-small': 10,
+  small: 13,
+  medium: 16,
+  large: 18,
+  'x-large': 24,
+  'xx-large': 32,
+  'xxx-large': 48,
+};
+
+/** Ratio between adjacent absolute sizes, used for `smaller` / `larger` */
+const FONT_SIZE_STEP = 1.2;
+
+/**
+ * `fontSize` in px: em, %, `inherit`, `smaller` and `larger` are of the
+ * inherited font size. Unresolved values keep the inherited size (recorded
+ * in `unresolved`).
+ */
+function parseFontSize(
+  value: string,
+  parent: ParentDimensions | undefined,
+  unresolved: string[]
+): number {
+  const inherited = parent?.fontSize ?? DEFAULT_FONT_SIZE;
+  const lower = value.trim().toLowerCase();
+  const keyword = FONT_SIZE_KEYWORDS[lower];
+  if (keyword !== undefined) return keyword;
+  if (lower === 'initial') return DEFAULT_FONT_SIZE;
+  if (lower === 'inherit' || lower === 'unset') return inherited;
+  if (lower === 'smaller') return round2(inherited / FONT_SIZE_STEP);
+  if (lower === 'larger') return round2(inherited * FONT_SIZE_STEP);
+
+  const result = tryParseLength(value, {
+    fontSize: inherited,
+    percentBase: inherited,
+    viewport: parent?.viewport,
+  });
+  if (result.ok) return result.value;
+
+  unresolved.push(`fontSize: ${value.trim()} (${result.error})`);
+  return inherited;
+}
+
+/**
+ * What a node's children resolve their lengths against: its size, its font
+ * size (inherited) and the page size.
+ */
+export function childDimensions(styles: ParsedStyles, parent?: ParentDimensions): ParentDimensions {
+  return {
+    width: styles.width,
+    height: styles.height,
+    ...(styles.fontSize !== undefined ? { fontSize: styles.fontSize } : {}),
+    ...(parent?.viewport ? { viewport: parent.viewport } : {}),
+  };
+}
+
+interface ResolvedAxis {
+  position: number;
+  size: number;
+  anchor: 'start' | 'end' | 'both';
+  /** The anchoring offset is a percentage */
+  percentOffset: boolean;
+  percentSize: boolean;
+}
+
+/**
+ * Position and size along one axis. With only the end offset (`right` /
+ * `bottom`) the position is measured from the parent's far edge; with both
+ * offsets and no size, the size stretches between them. With both offsets
+ * and a size, CSS ignores the end offset.
+ */
+function resolveAxis(
+  { value: start, px: startPx }: { value?: string; px: number | null },
+  { value: end, px: endPx }: { value?: string; px: number | null },
+  sizeValue: string | undefined,
+  size: number,
+  parentSize: number | undefined
+): ResolvedAxis {
+  const sizeAuto = !sizeValue || sizeValue === 'auto';
+  const percentSize = !sizeAuto && isPercent(sizeValue);
+
+  if (startPx !== null && endPx !== null && sizeAuto && parentSize !== undefined) {
+    return {
+      position: startPx,
+      size: Math.max(0, parentSize - startPx - endPx),
+      anchor: 'both',
+      percentOffset: isPercent(start) && isPercent(end),
+      percentSize,
+    };
+  }
+
+  if (startPx === null && endPx !== null) {
+    return {
+      position: parentSize !== undefined ? parentSize - endPx - size : 0,
+      size,
+      anchor: 'end',
+      percentOffset: isPercent(end),
+      percentSize,
+    };
+  }
+
+  return {
+    position: startPx ?? 0,
+    size,
+    anchor: 'start',
+    percentOffset: isPercent(start),
+    percentSize,
+  };
+}
+
+/**
+ * v2 constraint for an axis: percentage offset + size → scale, percentage
+ * offset that centers the box → center, otherwise the anchored side(s).
+ */
+function constraintFor<T extends string>(
+  axis: ResolvedAxis,
+  position: number,
+  size: number,
+  parentSize: number | undefined,
+  [start, end, both]: [T, T, T]
+): T | 'center' | 'scale' {
+  if (axis.percentOffset && axis.percentSize) return 'scale';
+  if (
+    axis.percentOffset &&
+    parentSize !== undefined &&
+    Math.abs(position + size / 2 - parentSize / 2) <= 0.5
+  ) {
+    return 'center';
+  }
+  return axis.anchor === 'both' ? both : axis.anchor === 'end' ? end : start;
+}
+
+/** Has a percentage part (`50%`, `calc(50% - 10px)`) */
+function isPercent(value: string | undefined): boolean {
+  return value?.includes('%') ?? false;
+}
+
+/**
+ * Split a CSS value list at top-level separators (not inside parentheses or
+ * quotes): `linear-gradient(red, blue), url(a.png)` → 2 layers. With `' '`
+ * it splits on whitespace runs. Parts are trimmed, empty parts dropped.
+ */
+export function splitCssList(value: string, separator: ',' | '/' | ' ' = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LENGTHS
+// ═══════════════════════════════════════════════════════════════
+
+/** What relative lengths are resolved against */
+export interface LengthContext {
+  /** Element font size in px, for em/ex/ch (default 16) */
+  fontSize?: number;
+  /** Root font size in px, for rem (default 16) */
+  rootFontSize?: number;
+  /** What 100% is, in px; percentages can't be resolved without it */
+  percentBase?: number;
+  /** Page size, for vw/vh/vmin/vmax */
+  viewport?: { width: number; height: number };
+}
+
+export type LengthParseResult = { ok: true; value: number } | { ok: false; error: string };
+
+const DEFAULT_FONT_SIZE = 16;
+
+/** Absolute units in CSS px (96 per inch) */
+const ABSOLUTE_UNITS: Record<string, number> = {
+  px: 1,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  q: 96 / 101.6,
+  pt: 96 / 72,
+  pc: 16,
+};
+
+/**
+ * Evaluate a CSS length to px: absolute units, em/rem/ex/ch, %, viewport
+ * units and `calc()` / `min()` / `max()` / `clamp()` arithmetic (nested).
+ * `var(--x, fallback)` uses the fallback. ex and ch are taken as half an em.
+ * A bare number is px, as v1 stored numeric styles (`left: 10`, `width: "200"`).
+ *
+ * Examples:
+ *   tryParseLength("12") → 12
+ *   tryParseLength("12pt") → 16
+ *   tryParseLength("2em", { fontSize: 14 }) → 28
+ *   tryParseLength("calc(100% - 40px)", { percentBase: 792 }) → 752
+ *   tryParseLength("50%") → error (no percentage base)
+ */
+export function tryParseLength(value: string, context: LengthContext = {}): LengthParseResult {
+  try {
+    const result = evaluateLength(tokenizeLength(value), context);
+    return { ok: true, value: round2(result.value) };
+  } catch (error) {
+    if (!(error instanceof LengthError)) throw error;
+    return { ok: false, error: error.message };
+  }
+}
+
+class LengthError extends Error {}
+
+/** Numbers (with their unit), identifiers, parentheses, commas and operators */
+function tokenizeLength(value: string): string[] {
+  const tokens: string[] = [];
+  const re =
+    /\s*(?:((?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?:%|[a-z]+)?)|(--[\w-]+|[a-z-]+\()|([()+\-*/,]))/iy;
+  let index = 0;
+  while (index < value.length) {
+    if (/^\s*$/.test(value.slice(index))) break;
+    re.lastIndex = index;
+    const match = re.exec(value);
+    if (!match) throw new LengthError(`cannot parse "${value.trim()}"`);
+    const token = match[1] ?? match[2] ?? match[3];
+    // Binary + and - need whitespace on both sides (`5px -3px` is two values)
+    if ((token === '+' || token === '-') && endsOperand(tokens[tokens.length - 1])) {
+      const spaced = /^\s/.test(match[0]) && /\s/.test(value[re.lastIndex] ?? '');
+      if (!spaced) throw new LengthError(`"${token}" needs whitespace on both sides`);
+    }
+    tokens.push(token);
+    index = re.lastIndex;
+  }
+  if (tokens.length === 0) throw new LengthError('empty value');
+  return tokens;
+}
+
+/** Whether a `+` / `-` after this token is a binary operator rather than a sign */
+function endsOperand(token: string | undefined): boolean {
+  return token !== undefined && (token === ')' || token.startsWith('--') || /^[\d.]/.test(token));
+}
+
+interface LengthTerm {
+  value: number;
+  /** false for plain numbers (`2` in `calc(2 * 10px)`) */
+  length: boolean;
+}
+
 /**
- * Parse a CSS pixel value: "705px" → 705, "auto" → null
+ * Recursive-descent evaluation of `tokenizeLength` tokens:
+ * sum = product (('+' | '-') product)*, product = unary (('*' | '/') unary)*
  */
-export function parsePx(value: string | undefined): number | null {
+function evaluateLength(tokens: string[], context: LengthContext): LengthTerm {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => {
+    const token = tokens[index++];
+    if (token === undefined) throw new LengthError('unexpected end of value');
+    return token;
+  };
+  const expect = (token: string) => {
+    const found = next();
+    if (found !== token) throw new LengthError(`expected "${token}" but found "${found}"`);
+  };
+
+  const sum = (): LengthTerm => {
+    let left = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const right = product();
+      if (left.length !== right.length && left.value !== 0 && right.value !== 0) {
+        throw new LengthError('cannot add a number to a length');
+      }
+      left = {
+        value: op === '+' ? left.value + right.value : left.value - right.value,
+        length: left.length || right.length,
+      };
+    }
+    return left;
+  };
+
+  const product = (): LengthTerm => {
+    let left = unary();
+    while (peek() === '*' || peek() === '/') {
+      const op = next();
+      const right = unary();
+      if (op === '*') {
+        if (left.length && right.length) throw new LengthError('cannot multiply two lengths');
+        left = { value: left.value * right.value, length: left.length || right.length };
+      } else {
+        if (right.length) throw new LengthError('cannot divide by a length');
+        if (right.value === 0) throw new LengthError('division by zero');
+        left = { value: left.value / right.value, length: left.length };
+      }
+    }
+    return left;
+  };
+
+  const unary = (): LengthTerm => {
+    if (peek() === '-') {
+      next();
+      const term = unary();
+      return { ...term, value: -term.value };
+    }
+    if (peek() === '+') next();
+    return term();
+  };
+
+  const term = (): LengthTerm => {
+    const token = next();
+
+    if (token === '(') {
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    if (token.endsWith('(')) return fn(token.slice(0, -1).toLowerCase());
+
+    const match = token.match(/^([\d.]+(?:e[+-]?\d+)?)(%|[a-z]+)?$/i);
+    if (!match) throw new LengthError(`unexpected "${token}"`);
+    const n = parseFloat(match[1]);
+    const unit = match[2]?.toLowerCase();
+    return unit === undefined
+      ? { value: n, length: false }
+      : { value: unitToPx(n, unit, context), length: true };
+  };
+
+  const fn = (name: string): LengthTerm => {
+    if (name === 'calc') {
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+
+    if (name === 'var') {
+      const variable = next();
+      if (peek() !== ',') throw new LengthError(`${variable} has no fallback`);
+      next();
+      const fallback = sum();
+      expect(')');
+      return fallback;
+    }
+
+    if (name === 'min' || name === 'max' || name === 'clamp') {
+      const args = [sum()];
+      while (peek() === ',') {
+        next();
+        args.push(sum());
+      }
+      expect(')');
+      if (name === 'clamp' && args.length !== 3) throw new LengthError('clamp() needs 3 values');
+      const values = args.map((a) => a.value);
+      const value =
+        name === 'min'
+          ? Math.min(...values)
+          : name === 'max'
+            ? Math.max(...values)
+            : Math.max(values[0], Math.min(values[1], values[2]));
+      return { value, length: args.some((a) => a.length) };
+    }
+
+    throw new LengthError(`${name}() is not supported`);
+  };
+
+  const result = sum();
+  if (index < tokens.length) throw new LengthError(`unexpected "${tokens[index]}"`);
+  return result;
+}
+
+function unitToPx(n: number, unit: string, context: LengthContext): number {
+  const { fontSize = DEFAULT_FONT_SIZE, rootFontSize = DEFAULT_FONT_SIZE, viewport } = context;
+  if (unit in ABSOLUTE_UNITS) return n * ABSOLUTE_UNITS[unit];
+
+  switch (unit) {
+    case 'em':
+      return n * fontSize;
+    case 'rem':
+      return n * rootFontSize;
+    case 'ex':
+    case 'ch':
+      return (n * fontSize) / 2;
+    case '%':
+      if (context.percentBase === undefined) {
+        throw new LengthError('percentage without a parent size');
+      }
+      return (n / 100) * context.percentBase;
+    case 'vw':
+    case 'vh':
+    case 'vmin':
+    case 'vmax': {
+      if (!viewport) throw new LengthError(`${unit} without a page size`);
+      const { width, height } = viewport;
+      const size =
+        unit === 'vw'
+          ? width
+          : unit === 'vh'
+            ? height
+            : unit === 'vmin'
+              ? Math.min(width, height)
+              : Math.max(width, height);
+      return (n / 100) * size;
+    }
+    default:
+      throw new LengthError(`unknown unit "${unit}"`);
+  }
+}
+
+/**
+ * Parse a CSS length to px: "705px" → 705, "705" → 705, "12pt" → 16, "auto" → null.
+ * Percentages need a `percentBase` in the context.
+ */
+export function parsePx(value: string | undefined, context: LengthContext = {}): number | null {
   if (!value || value === 'auto' || value === 'none') return null;
-  const num = parseFloat(value);
-  return isNaN(num) ? null : num;
+  const result = tryParseLength(value, context);
+  return result.ok ? result.value : null;
 }
 
 /**
- * Parse a CSS dimension value that can be in px or percentage.
- * For percentages, calculates the actual pixel value based on parent dimension.
+ * Parse a CSS dimension value that can be in any unit, a percentage or a calc().
+ * Results that use a percentage are rounded to whole px.
  *
- * @param value The CSS value (e.g., "90%", "100px", "auto")
+ * @param value The CSS value (e.g., "90%", "100px", "calc(100% - 40px)", "auto")
  * @param parentDimension The parent dimension in pixels for percentage calculations
- * @returns The calculated pixel value, or null for "auto"/"none"
+ * @param context Font size and page size for relative units
+ * @returns The calculated pixel value, or null for "auto"/"none" and for
+ *   values that can't be resolved (a percentage without a parent dimension)
  *
  * Examples:
- *   parseDimension("90%", 792) → 712.8
+ *   parseDimension("90%", 792) → 713
  *   parseDimension("100px", 792) → 100
  *   parseDimension("auto", 792) → null
+ *   parseDimension("90%") → null
  */
-export function parseDimension(value: string | undefined, parentDimension?: number): number | null {
-  if (!value || value === 'auto' || value === 'none') return null;
+export function parseDimension(
+  value: string | undefined,
+  parentDimension?: number,
+  context: LengthContext = {}
+): number | null {
+  const px = parsePx(value, { ...context, percentBase: parentDimension });
+  if (px === null) return null;
+  return value?.includes('%') ? Math.round(px) : px;
+}
 
-  // Check if it's a percentage
-  if (value.endsWith('%')) {
-    const percent = parseFloat(value);
-    if (isNaN(percent)) return null;
+/**
+ * Parse boxShadow, textShadow, filter and mixBlendMode into `result`.
+ * Anything that can't be parsed is listed in `unsupportedEffects`.
+ */
+function parseEffects(
+  s: Record<string, string>,
+  result: ParsedStyles,
+  lengths: LengthContext
+): void {
+  const unsupported: string[] = [];
+
+  if (s.boxShadow && s.boxShadow !== 'none') {
+    const shadows = parseShadowList(s.boxShadow, true, lengths);
+    if (shadows) result.boxShadows = shadows;
+    else unsupported.push(`boxShadow: ${s.boxShadow}`);
+  }
 
-    // If no parent dimension provided, fallback to treating percentage as raw number
-    // This maintains backward compatibility but may produce suboptimal results
-    if (parentDimension === undefined) {
-      return percent; // Fallback: treat "90%" as 90
+  if (s.textShadow && s.textShadow !== 'none') {
+    const shadows = parseShadowList(s.textShadow, false, lengths);
+    if (shadows) result.textShadows = shadows;
+    else unsupported.push(`textShadow: ${s.textShadow}`);
+  }
+
+  if (s.filter && s.filter !== 'none') {
+    for (const fn of splitCssList(s.filter, ' ')) {
+      const match = fn.match(/^([a-z-]+)\((.*)\)$/i);
+      const name = match?.[1].toLowerCase();
+      const blur = name === 'blur' ? parseLength(match?.[2].trim() || '0px', lengths) : null;
+      const shadow = name === 'drop-shadow' ? parseShadow(match?.[2] ?? '', false, lengths) : null;
+
+      if (blur !== null) {
+        result.blur = blur;
+      } else if (shadow) {
+        (result.dropShadows ??= []).push(shadow);
+      } else {
+        unsupported.push(`filter: ${fn}`);
+      }
     }
+  }
 
-    return Math.round((percent / 100) * parentDimension);
+  if (s.mixBlendMode) {
+    result.blendMode = s.mixBlendMode.trim().toLowerCase();
   }
 
-  // Otherwise parse as px value
-  const num = parseFloat(value);
-  return isNaN(num) ? null : num;
+  if (unsupported.length > 0) {
+    result.unsupportedEffects = unsupported;
+  }
 }
 
 /**
- * Parse border properties from styles into a structured border.
+ * `2px 4px 8px rgba(0,0,0,.2), inset 0 0 0 1px #ddd` → shadows, or null if
+ * any shadow is invalid.
+ *
+ * @param allowSpreadAndInset `box-shadow` syntax (text/drop shadows have neither)
  */
-function parseBorder(styles: Record<string, string>): ParsedBorder | null {
-  // Shorthand: "1px solid #000"
-  if (styles.border && styles.border !== 'none') {
-    const match = styles.border.match(/^([\d.]+)px\s+(\w+)\s+(.+)$/);
-    if (match) {
-      return { width: parseFloat(match[1]), style: match[2], color: match[3] };
+function parseShadowList(
+  value: string,
+  allowSpreadAndInset: boolean,
+  lengths: LengthContext
+): ParsedShadow[] | null {
+  const shadows = splitCssList(value).map((v) => parseShadow(v, allowSpreadAndInset, lengths));
+  return shadows.length > 0 && shadows.every((s) => s !== null)
+    ? (shadows as ParsedShadow[])
+    : null;
+}
+
+function parseShadow(
+  value: string,
+  allowSpreadAndInset: boolean,
+  context: LengthContext
+): ParsedShadow | null {
+  const lengths: number[] = [];
+  const colorTokens: string[] = [];
+  let inset = false;
+  let lengthsEnded = false;
+
+  for (const token of splitCssList(value, ' ')) {
+    const length = parseLength(token, context);
+    if (length !== null) {
+      // Lengths must be contiguous
+      if (lengthsEnded) return null;
+      lengths.push(length);
+      continue;
+    }
+
+    if (lengths.length > 0) lengthsEnded = true;
+    if (token.toLowerCase() === 'inset' && allowSpreadAndInset) {
+      inset = true;
+    } else {
+      colorTokens.push(token);
     }
   }
 
-  // Longhand: borderWidth + borderStyle + borderColor
-  if (styles.borderWidth || styles.borderStyle || styles.borderColor) {
-    return {
-      width: parsePx(styles.borderWidth) ?? 1,
-      style: styles.borderStyle || 'solid',
-      color: styles.borderColor || '#000000',
+  const maxLengths = allowSpreadAndInset ? 4 : 3;
+  if (lengths.length < 2 || lengths.length > maxLengths || colorTokens.length > 1) return null;
+
+  return {
+    x: lengths[0],
+    y: lengths[1],
+    blur: Math.max(0, lengths[2] ?? 0),
+    spread: lengths[3] ?? 0,
+    color: colorTokens[0],
+    inset,
+  };
+}
+
+/** A length without percentages (`4px`, `0.5em`, `calc(…)`) → px, or null */
+function parseLength(token: string, lengths: LengthContext = {}): number | null {
+  const result = tryParseLength(token, { ...lengths, percentBase: undefined });
+  return result.ok ? result.value : null;
+}
+
+const SIDES: BorderSide[] = ['top', 'right', 'bottom', 'left'];
+
+const BORDER_STYLES = new Set([
+  'none',
+  'hidden',
+  'solid',
+  'dashed',
+  'dotted',
+  'double',
+  'groove',
+  'ridge',
+  'inset',
+  'outset',
+]);
+
+const BORDER_WIDTH_KEYWORDS: Record<string, number> = { thin: 1, medium: 3, thick: 5 };
+
+type BorderPart = 'width' | 'style' | 'color';
+type SideState = Partial<Record<BorderPart, string>>;
+
+/**
+ * Parse border shorthands and longhands into per-side borders, applying the
+ * declarations in source order like the cascade does (`border`, `borderWidth`
+ * 1–4 values, `borderTop`, `borderTopColor`, …). Missing parts default to
+ * 1px solid currentColor when only longhands are given (the v1 editor writes
+ * `borderWidth` + `borderColor` without a style); `none`/`hidden`/0px sides
+ * aren't drawn.
+ *
+ * @returns The drawn sides, or null when there are none
+ */
+export function parseBorders(styles: Record<string, string>): ParsedBorders | null {
+  const state: Record<BorderSide, SideState> = { top: {}, right: {}, bottom: {}, left: {} };
+  let declared = false;
+
+  for (const [key, value] of Object.entries(styles)) {
+    const match = key.match(/^border(Top|Right|Bottom|Left)?(Width|Style|Color)?$/);
+    if (!match || value === undefined) continue;
+    declared = true;
+
+    const sides = match[1] ? [match[1].toLowerCase() as BorderSide] : SIDES;
+    const part = match[2]?.toLowerCase() as BorderPart | undefined;
+
+    if (!part) {
+      // Shorthand resets the parts it doesn't give
+      const parsed = parseBorderShorthand(value);
+      for (const side of sides) state[side] = { ...parsed };
+    } else if (match[1]) {
+      state[sides[0]][part] = value.trim();
+    } else {
+      // 1–4 values: top, right, bottom, left
+      const values = expandBox(splitCssList(value, ' '));
+      SIDES.forEach((side, i) => (state[side][part] = values[i]));
+    }
+  }
+  if (!declared) return null;
+
+  const borders: ParsedBorders = {};
+  for (const side of SIDES) {
+    const { width, style, color } = state[side];
+    if (width === undefined && style === undefined && color === undefined) continue;
+
+    const resolvedStyle = (style ?? 'solid').toLowerCase();
+    const resolvedWidth = width !== undefined ? parseBorderWidth(width) : 1;
+    if (resolvedStyle === 'none' || resolvedStyle === 'hidden' || !resolvedWidth) continue;
+
+    borders[side] = { width: resolvedWidth, style: resolvedStyle, color: color ?? 'currentColor' };
+  }
+
+  return Object.keys(borders).length > 0 ? borders : null;
+}
+
+/**
+ * `2px dashed #ccc` in any order; omitted parts get their CSS initial values.
+ */
+function parseBorderShorthand(value: string): SideState {
+  const state: SideState = { width: 'medium', style: 'none', color: 'currentColor' };
+  const colorTokens: string[] = [];
+
+  for (const token of splitCssList(value, ' ')) {
+    if (BORDER_STYLES.has(token.toLowerCase())) state.style = token;
+    else if (parseBorderWidth(token) !== null) state.width = token;
+    else colorTokens.push(token);
+  }
+  if (colorTokens.length > 0) state.color = colorTokens.join(' ');
+
+  return state;
+}
+
+function parseBorderWidth(value: string): number | null {
+  const keyword = BORDER_WIDTH_KEYWORDS[value.trim().toLowerCase()];
+  if (keyword !== undefined) return keyword;
+  return /^[\d.]+(px)?$/.test(value.trim()) ? parseFloat(value) : null;
+}
+
+/** CSS box shorthand expansion: [a] / [a b] / [a b c] / [a b c d] → 4 values */
+function expandBox<T>(values: T[]): T[] {
+  const [a, b = a, c = a, d = b] = values;
+  return [a, b, c, d];
+}
+
+/**
+ * The single border for nodes that draw one stroke: all sides when they're
+ * the same, otherwise the first drawn side (bottom, top, left, right).
+ */
+function singleBorder(borders: ParsedBorders): ParsedBorder | undefined {
+  return uniformBorder(borders) ?? borders.bottom ?? borders.top ?? borders.left ?? borders.right;
+}
+
+/**
+ * The border when all four sides are drawn the same, otherwise undefined.
+ */
+export function uniformBorder(borders: ParsedBorders | undefined): ParsedBorder | undefined {
+  const top = borders?.top;
+  if (!top) return undefined;
+  const same = SIDES.every((side) => {
+    const b = borders[side];
+    return b && b.width === top.width && b.style === top.style && b.color === top.color;
+  });
+  return same ? top : undefined;
+}
+
+/**
+ * `borderRadius` (1–4 values, `/` vertical radii ignored) and the per-corner
+ * longhands. Percentages are taken of the smaller side.
+ */
+function parseCornerRadii(
+  styles: Record<string, string>,
+  size: number,
+  lengths: LengthContext
+): CornerRadii | null {
+  const toPx = (value: string | undefined) => {
+    const first = value ? splitCssList(value, ' ')[0] : undefined;
+    if (!first) return 0;
+    const px = parsePx(first, { ...lengths, percentBase: size });
+    return (first.includes('%') ? Math.round(px ?? 0) : px) || 0;
+  };
+
+  let radii: CornerRadii | null = null;
+  for (const [key, value] of Object.entries(styles)) {
+    if (key === 'borderRadius') {
+      const [topLeft, topRight, bottomRight, bottomLeft] = expandBox(
+        splitCssList(value.split('/')[0], ' ')
+      ).map(toPx);
+      radii = { topLeft, topRight, bottomRight, bottomLeft };
+      continue;
+    }
+
+    const corner = key.match(/^border(Top|Bottom)(Left|Right)Radius$/);
+    if (corner) {
+      radii ??= { topLeft: 0, topRight: 0, bottomRight: 0, bottomLeft: 0 };
+      radii[`${corner[1].toLowerCase()}${corner[2]}` as keyof CornerRadii] = toPx(value);
+    }
+  }
+
+  return radii;
+}
+
+const POSITION_KEYWORDS: Record<string, number> = {
+  left: 0,
+  top: 0,
+  center: 0.5,
+  right: 1,
+  bottom: 1,
+};
+
+/**
+ * `backgroundSize`, `backgroundPosition` (and its X/Y longhands) and
+ * `backgroundRepeat` of the image layer. Unset properties default to a
+ * centered, non-repeating `cover` (how v1 images were migrated so far), not
+ * to the CSS initial values.
+ *
+ * @param layer Index of the image in the `backgroundImage` layers
+ * @param box Element size, for percentage sizes
+ */
+function parseBackground(
+  styles: Record<string, string>,
+  layer: number,
+  box: { width: number; height: number },
+  lengths: LengthContext,
+  unresolved: string[]
+): ParsedBackground {
+  // Layer lists repeat to match the number of images
+  const pick = (property: string) => {
+    const layers = styles[property] ? splitCssList(styles[property]) : [];
+    return layers.length > 0 ? layers[layer % layers.length].toLowerCase() : undefined;
+  };
+
+  const length = (property: string, token: string, percentBase?: number) => {
+    const result = tryParseLength(token, { ...lengths, percentBase });
+    if (result.ok) return result.value;
+    unresolved.push(`${property}: ${token} (${result.error})`);
+    return undefined;
+  };
+
+  // Size
+  const sizeValue = pick('backgroundSize') ?? 'cover';
+  let size: ParsedBackground['size'];
+  if (sizeValue === 'cover' || sizeValue === 'contain') {
+    size = sizeValue;
+  } else {
+    const [width = 'auto', height = 'auto'] = splitCssList(sizeValue, ' ');
+    size = {
+      width: width === 'auto' ? undefined : length('backgroundSize', width, box.width),
+      height: height === 'auto' ? undefined : length('backgroundSize', height, box.height),
     };
   }
 
-  // Top/Bottom/Left/Right specific (take first found)
-  if (styles.borderBottom && styles.borderBottom !== 'none') {
-    const match = styles.borderBottom.match(/^([\d.]+)px\s+(\w+)\s+(.+)$/);
-    if (match) {
-      return { width: parseFloat(match[1]), style: match[2], color: match[3] };
+  // Position: one or two values, or keyword + offset pairs (`right 10px bottom 20%`)
+  const offset = (token: string): BackgroundOffset => {
+    if (token in POSITION_KEYWORDS) return { fraction: POSITION_KEYWORDS[token], px: 0 };
+    if (/^-?[\d.]+%$/.test(token)) return { fraction: parseFloat(token) / 100, px: 0 };
+    return { fraction: 0, px: length('backgroundPosition', token) ?? 0 };
+  };
+  const center: BackgroundOffset = { fraction: 0.5, px: 0 };
+  const position = { x: center, y: center };
+
+  const tokens = splitCssList(pick('backgroundPosition') ?? 'center', ' ');
+  if (tokens.length <= 2) {
+    const [first, second = 'center'] = tokens;
+    const vertical = (t: string) => t === 'top' || t === 'bottom';
+    const horizontal = (t: string) => t === 'left' || t === 'right';
+    // `top`, `top left`, `center right` name the vertical side first
+    if (vertical(first) || horizontal(second)) {
+      position.x = offset(second);
+      position.y = offset(first);
+    } else {
+      position.x = offset(first);
+      position.y = offset(second);
     }
+  } else {
+    for (let i = 0; i < tokens.length; i++) {
+      const keyword = tokens[i];
+      const next = tokens[i + 1];
+      const edge = { ...offset(keyword) };
+      if (next !== undefined && !(next in POSITION_KEYWORDS)) {
+        // An offset from the right/bottom edge moves left/up
+        const by = offset(next);
+        const sign = edge.fraction === 1 ? -1 : 1;
+        edge.fraction += sign * by.fraction;
+        edge.px += sign * by.px;
+        i++;
+      }
+      if (keyword === 'left' || keyword === 'right') position.x = edge;
+      else if (keyword === 'top' || keyword === 'bottom') position.y = edge;
+    }
+  }
+
+  const positionX = pick('backgroundPositionX');
+  if (positionX) position.x = offset(positionX);
+  const positionY = pick('backgroundPositionY');
+  if (positionY) position.y = offset(positionY);
+
+  // Repeat: `space` and `round` tile too
+  const [repeatX, repeatY = repeatX] = splitCssList(pick('backgroundRepeat') ?? 'no-repeat', ' ');
+  const tiles = (value: string) => value === 'repeat' || value === 'space' || value === 'round';
+  const repeat =
+    repeatX === 'repeat-x'
+      ? { x: true, y: false }
+      : repeatX === 'repeat-y'
+        ? { x: false, y: true }
+        : { x: tiles(repeatX), y: tiles(repeatY) };
+
+  return { size, position, repeat };
+}
+
+/** 2D affine matrix [a c e; b d f], as in DOMMatrix */
+type Matrix = [a: number, b: number, c: number, d: number, e: number, f: number];
+
+/**
+ * Fold a CSS `transform` into the box: translations move x/y, scale resizes
+ * around the transform origin, rotation goes to `rotation` (around the center,
+ * so x/y are the unrotated box). Skew and flips can't be represented; they're
+ * listed in `unsupportedTransforms` and the rest is applied without them (a
+ * flip is dropped, not read as a half turn).
+ */
+function applyTransform(
+  transform: string,
+  origin: string | undefined,
+  result: ParsedStyles,
+  lengths: LengthContext
+): void {
+  const { width, height } = result;
+  const unsupported: string[] = [];
+  let m: Matrix = [1, 0, 0, 1, 0, 0];
+
+  for (const fn of splitCssList(transform, ' ')) {
+    const match = fn.match(/^([a-z0-9]+)\((.*)\)$/i);
+    const next = match
+      ? transformMatrix(match[1], splitCssList(match[2]), width, height, lengths)
+      : null;
+    if (next) m = multiply(m, next);
+    else unsupported.push(fn);
   }
-  if (styles.borderTop && styles.borderTop !== 'none') {
-    const match = styles.borderTop.match(/^([\d.]+)px\s+(\w+)\s+(.+)$/);
-    if (match) {
-      return { width: parseFloat(match[1]), style: match[2], color: match[3] };
+
+  // Decompose the linear part into rotation + scale (skew shows as non-orthogonal columns)
+  const [a, b, c, d] = m;
+  const scaleX = Math.hypot(a, b);
+  const det = a * d - b * c;
+  if (scaleX === 0 || det === 0) {
+    result.unsupportedTransforms = [...unsupported, transform];
+    return;
+  }
+  const scaleY = Math.abs(det) / scaleX;
+  if (Math.abs(a * c + b * d) > 1e-6) unsupported.push('skew');
+  if (det < 0) unsupported.push('flip');
+
+  // Where the box center ends up: origin + M·(center − origin)
+  const o = parseTransformOrigin(origin, width, height, lengths);
+  const cx = width / 2 - o.x;
+  const cy = height / 2 - o.y;
+  const centerX = o.x + a * cx + c * cy + m[4];
+  const centerY = o.y + b * cx + d * cy + m[5];
+
+  const newWidth = round2(width * scaleX);
+  const newHeight = round2(height * scaleY);
+  result.x = round2(result.x + centerX - newWidth / 2);
+  result.y = round2(result.y + centerY - newHeight / 2);
+  result.width = newWidth;
+  result.height = newHeight;
+
+  // With a flip, mirror across whichever axis leaves the smaller rotation:
+  // scaleX(-1) is a flip, not rotate(180deg)
+  let degrees = (Math.atan2(b, a) * 180) / Math.PI;
+  if (det < 0) {
+    const mirrored = (Math.atan2(-b, -a) * 180) / Math.PI;
+    if (Math.abs(mirrored) < Math.abs(degrees)) degrees = mirrored;
+  }
+  result.rotation = round2(Math.abs(degrees) < 1e-9 ? 0 : degrees);
+
+  if (Math.abs(scaleX - 1) > 1e-6 || Math.abs(scaleY - 1) > 1e-6) {
+    result.transformScale = { x: scaleX, y: scaleY };
+  }
+
+  if (unsupported.length > 0) result.unsupportedTransforms = unsupported;
+}
+
+/**
+ * Matrix for one transform function, or null when it isn't supported
+ * (skew, matrix, 3D). Percent translations are of the element's own size.
+ */
+function transformMatrix(
+  name: string,
+  args: string[],
+  width: number,
+  height: number,
+  lengths: LengthContext
+): Matrix | null {
+  const length = (value: string | undefined, size: number) =>
+    value === undefined ? 0 : parsePx(value.trim(), { ...lengths, percentBase: size });
+  const num = (value: string | undefined) => {
+    const n = value === undefined ? NaN : parseFloat(value);
+    return value?.trim().endsWith('%') ? n / 100 : n;
+  };
+
+  switch (name.toLowerCase()) {
+    case 'translate': {
+      const tx = length(args[0], width);
+      const ty = length(args[1], height);
+      return tx === null || ty === null ? null : [1, 0, 0, 1, tx, ty];
+    }
+    case 'translatex': {
+      const tx = length(args[0], width);
+      return tx === null ? null : [1, 0, 0, 1, tx, 0];
+    }
+    case 'translatey': {
+      const ty = length(args[0], height);
+      return ty === null ? null : [1, 0, 0, 1, 0, ty];
     }
+    case 'rotate': {
+      const degrees = parseAngleDegrees(args[0]);
+      if (degrees === null || args.length !== 1) return null;
+      const rad = (degrees * Math.PI) / 180;
+      return [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0];
+    }
+    case 'scale': {
+      const sx = num(args[0]);
+      const sy = args[1] === undefined ? sx : num(args[1]);
+      return isNaN(sx) || isNaN(sy) ? null : [sx, 0, 0, sy, 0, 0];
+    }
+    case 'scalex': {
+      const sx = num(args[0]);
+      return isNaN(sx) ? null : [sx, 0, 0, 1, 0, 0];
+    }
+    case 'scaley': {
+      const sy = num(args[0]);
+      return isNaN(sy) ? null : [1, 0, 0, sy, 0, 0];
+    }
+    default:
+      return null;
+  }
+}
+
+function parseAngleDegrees(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(-?[\d.]+)(deg|rad|grad|turn)?$/i);
+  if (!match || (!match[2] && parseFloat(match[1]) !== 0)) return null;
+  const perUnit: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+  return parseFloat(match[1]) * perUnit[match[2]?.toLowerCase() ?? 'deg'];
+}
+
+/** `transform-origin` in px from the box's top-left (default: center) */
+function parseTransformOrigin(
+  value: string | undefined,
+  width: number,
+  height: number,
+  lengths: LengthContext
+): { x: number; y: number } {
+  const tokens = splitCssList(value ?? '', ' ');
+  const keywordsX: Record<string, number> = { left: 0, center: 0.5, right: 1 };
+  const keywordsY: Record<string, number> = { top: 0, center: 0.5, bottom: 1 };
+
+  // Vertical keyword first (`top left`, `bottom`) → swap into x y order
+  if (tokens[0] && tokens[0] !== 'center' && tokens[0] in keywordsY) {
+    tokens.reverse();
+    if (tokens.length === 1) tokens.unshift('center');
   }
 
-  return null;
+  const resolve = (token: string | undefined, keywords: Record<string, number>, size: number) => {
+    if (token === undefined) return size / 2;
+    if (token in keywords) return keywords[token] * size;
+    return parsePx(token, { ...lengths, percentBase: size }) ?? size / 2;
+  };
+
+  return { x: resolve(tokens[0], keywordsX, width), y: resolve(tokens[1], keywordsY, height) };
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
 }
 
 /**
@@ -0,0 +1,290 @@
+/**
+ * Gradient Parser — converts CSS linear-gradient() / radial-gradient() values
+ * to angle/center + normalized color stops.
+ *
+ * Stop positions are fractions of the gradient line (0–1); `px` positions and
+ * corner directions (`to top right`) need the element size. Color hints
+ * (`red, 30%, blue`) are ignored. `repeating-*` and conic gradients aren't
+ * supported and return an error.
+ */
+
+import type { RGBA } from '@design-studio/schema';
+import { tryParseColor } from './colorParser.js';
+import { splitCssList } from './cssParser.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface GradientStop {
+  /** 0–1 along the gradient line */
+  position: number;
+  color: RGBA;
+}
+
+export interface LinearGradient {
+  type: 'linear';
+  /** CSS angle in degrees: 0 = to top, 90 = to right, 180 = to bottom */
+  angle: number;
+  stops: GradientStop[];
+}
+
+export interface RadialGradient {
+  type: 'radial';
+  shape: 'circle' | 'ellipse';
+  /** Center as fractions of the element size */
+  center: { x: number; y: number };
+  stops: GradientStop[];
+}
+
+export type ParsedGradient = LinearGradient | RadialGradient;
+
+export type GradientParseResult =
+  { ok: true; gradient: ParsedGradient } | { ok: false; error: string };
+
+interface Box {
+  width: number;
+  height: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════
+
+const GRADIENT_RE = /^(repeating-)?(linear|radial|conic)-gradient\((.*)\)$/is;
+
+/**
+ * Parse one CSS gradient.
+ *
+ * @param box Element size, for px stops and corner directions (square if omitted)
+ */
+export function tryParseGradient(css: string, box?: Box): GradientParseResult {
+  const match = css.trim().match(GRADIENT_RE);
+  if (!match) return fail(`not a gradient "${css.trim()}"`);
+
+  const kind = match[2].toLowerCase();
+  if (match[1] || kind === 'conic') {
+    return fail(`${match[1] ?? ''}${kind}-gradient() is not supported`);
+  }
+
+  const args = splitCssList(match[3]);
+  if (args.length === 0) return fail(`${kind}-gradient() without color stops`);
+
+  if (kind === 'linear') {
+    const angle = parseDirection(args[0], box);
+    const stopArgs = angle === null ? args : args.slice(1);
+    const resolvedAngle = angle ?? 180;
+    const lineLength = box
+      ? Math.abs(box.width * Math.sin(toRad(resolvedAngle))) +
+        Math.abs(box.height * Math.cos(toRad(resolvedAngle)))
+      : undefined;
+
+    const stops = parseStops(stopArgs, lineLength);
+    if (typeof stops === 'string') return fail(`linear-gradient(): ${stops}`);
+    return { ok: true, gradient: { type: 'linear', angle: resolvedAngle, stops } };
+  }
+
+  const prelude = parseRadialPrelude(args[0], box);
+  const stopArgs = prelude ? args.slice(1) : args;
+  const { shape, center } = prelude ?? { shape: 'ellipse' as const, center: { x: 0.5, y: 0.5 } };
+  // Default size is farthest-corner: distance from the center to the farthest corner
+  const rayLength = box
+    ? Math.hypot(
+        Math.max(center.x, 1 - center.x) * box.width,
+        Math.max(center.y, 1 - center.y) * box.height
+      )
+    : undefined;
+
+  const stops = parseStops(stopArgs, rayLength);
+  if (typeof stops === 'string') return fail(`radial-gradient(): ${stops}`);
+  return { ok: true, gradient: { type: 'radial', shape, center, stops } };
+}
+
+function fail(error: string): GradientParseResult {
+  return { ok: false, error };
+}
+
+/**
+ * Linear direction (`45deg`, `0.25turn`, `to right`, `to top left`) in degrees,
+ * or null when the argument isn't a direction (it's the first color stop).
+ */
+function parseDirection(arg: string, box?: Box): number | null {
+  const value = arg.trim().toLowerCase();
+  const angle = parseAngle(value);
+  if (angle !== null) return angle;
+
+  const to = value.match(/^to\s+(.+)$/);
+  if (!to) return null;
+
+  const sides = to[1].split(/\s+/).sort().join(' ');
+  // Corner directions depend on the aspect ratio (perpendicular to the other diagonal)
+  const corner = toDeg(Math.atan2(box?.height ?? 1, box?.width ?? 1));
+  const directions: Record<string, number> = {
+    top: 0,
+    right: 90,
+    bottom: 180,
+    left: 270,
+    'right top': corner,
+    'bottom right': 180 - corner,
+    'bottom left': 180 + corner,
+    'left top': 360 - corner,
+  };
+  return directions[sides] ?? null;
+}
+
+function parseAngle(value: string): number | null {
+  const match = value.match(/^(-?[\d.]+)(deg|rad|grad|turn)$/);
+  if (!match) return value === '0' ? 0 : null;
+  const perUnit: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+  const degrees = parseFloat(match[1]) * perUnit[match[2]];
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * `circle at 30% 40%`, `ellipse farthest-corner`, `at center`… or null when
+ * the argument is the first color stop.
+ */
+function parseRadialPrelude(
+  arg: string,
+  box?: Box
+): { shape: 'circle' | 'ellipse'; center: { x: number; y: number } } | null {
+  const value = arg.trim().toLowerCase();
+  const [shapePart, positionPart] = value.split(/(?:^|\s+)at\s+/);
+  const shapeTokens = shapePart.split(/\s+/).filter(Boolean);
+
+  const sizeKeyword = /^(closest|farthest)-(side|corner)$/;
+  const isPrelude =
+    positionPart !== undefined ||
+    shapeTokens.some((t) => t === 'circle' || t === 'ellipse' || sizeKeyword.test(t));
+  if (!isPrelude) return null;
+
+  // A single length size (`radial-gradient(50px, …)`) also makes a circle
+  const lengths = shapeTokens.filter((t) => /^[\d.]+(px|%)?$/.test(t));
+  const shape =
+    shapeTokens.includes('circle') || (lengths.length === 1 && !shapeTokens.includes('ellipse'))
+      ? 'circle'
+      : 'ellipse';
+
+  return { shape, center: parsePosition(positionPart ?? 'center', box) };
+}
+
+function parsePosition(value: string, box?: Box): { x: number; y: number } {
+  const tokens = value.trim().split(/\s+/);
+  const keywordX: Record<string, number> = { left: 0, center: 0.5, right: 1 };
+  const keywordY: Record<string, number> = { top: 0, center: 0.5, bottom: 1 };
+
+  // A single vertical keyword (`at top`) sets y
+  if (tokens.length === 1 && (tokens[0] === 'top' || tokens[0] === 'bottom')) {
+    return { x: 0.5, y: keywordY[tokens[0]] };
+  }
+  // Keywords can come in either order (`at top left`)
+  if (
+    tokens.length === 2 &&
+    tokens[0] in keywordY &&
+    tokens[1] in keywordX &&
+    tokens[0] !== 'center'
+  ) {
+    tokens.reverse();
+  }
+
+  const fraction = (token: string | undefined, keywords: Record<string, number>, size?: number) => {
+    if (token === undefined) return 0.5;
+    if (token in keywords) return keywords[token];
+    if (token.endsWith('%')) return parseFloat(token) / 100;
+    const px = parseFloat(token);
+    return size && !isNaN(px) ? px / size : 0.5;
+  };
+
+  return {
+    x: fraction(tokens[0], keywordX, box?.width),
+    y: fraction(tokens[1], keywordY, box?.height),
+  };
+}
+
+/**
+ * Parse color stops and fill in missing positions the way CSS does: first 0,
+ * last 1, evenly spaced in between, never before a previous stop.
+ *
+ * @param length Gradient line length in px, for px positions
+ * @returns The stops or an error message
+ */
+function parseStops(args: string[], length?: number): GradientStop[] | string {
+  const raw: Array<{ color: RGBA; position?: number }> = [];
+
+  for (const arg of args) {
+    const tokens = splitCssList(arg, ' ');
+    const positions: number[] = [];
+    while (tokens.length > 1 && isLength(tokens[tokens.length - 1])) {
+      const position = toPosition(tokens.pop() as string, length);
+      if (position === null) return `cannot resolve stop position in "${arg.trim()}"`;
+      positions.unshift(position);
+    }
+
+    // Lone position = color hint, not supported (ignored)
+    if (tokens.length === 1 && isLength(tokens[0])) continue;
+
+    const color = tryParseColor(tokens.join(' '));
+    if (!color.ok) return color.error;
+
+    if (positions.length === 0) raw.push({ color: color.color });
+    for (const position of positions) raw.push({ color: color.color, position });
+  }
+
+  if (raw.length < 2) return 'needs at least two color stops';
+
+  raw[0].position ??= 0;
+  raw[raw.length - 1].position ??= 1;
+
+  // Never before a previous stop
+  let max = 0;
+  for (const stop of raw) {
+    if (stop.position !== undefined) {
+      stop.position = Math.max(stop.position, max);
+      max = stop.position;
+    }
+  }
+
+  // Evenly space runs of stops without a position
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i].position !== undefined) continue;
+    let end = i;
+    while (raw[end].position === undefined) end++;
+    const from = raw[i - 1].position as number;
+    const to = raw[end].position as number;
+    for (let k = i; k < end; k++) {
+      raw[k].position = from + ((to - from) * (k - i + 1)) / (end - i + 1);
+    }
+  }
+
+  return raw.map((stop) => ({
+    position: round(clamp(stop.position as number, 0, 1)),
+    color: stop.color,
+  }));
+}
+
+function isLength(token: string): boolean {
+  return /^-?[\d.]+(%|px)?$/.test(token);
+}
+
+function toPosition(token: string, length?: number): number | null {
+  const n = parseFloat(token);
+  if (token.endsWith('%')) return n / 100;
+  if (n === 0) return 0;
+  return length ? n / length : null;
+}
+
+function toRad(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDeg(radians: number): number {
+  return round((radians * 180) / Math.PI);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
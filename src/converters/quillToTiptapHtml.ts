@@ -7,12 +7,14 @@
  *
  * Transformations:
  * 1. ql-align-X class → text-align: X inline style
- * 2. ql-font-X class  → font-family: X inline style (resolved via fontMap)
+ * 2. ql-font-X class  → font-family: X inline style (family + weight/style of the
+ *    file when known, else resolved via fontMap)
  * 3. Strip pr-wildcard class and contenteditable attrs
  * 4. Normalize font names (remove __user__timestamp suffixes)
  */
 
 import { resolveFontFamily } from './cssParser.js';
+import { findFontFace, type FontFace } from '../assets/fontResolver.js';
 
 /**
  * Convert Quill HTML to TipTap-compatible HTML.
@@ -22,8 +24,13 @@ import { resolveFontFamily } from './cssParser.js';
  *
  * @param html The Quill HTML to convert
  * @param fontMap Optional map of original font names → new fontCodes (from font sync)
+ * @param faces Optional map of v1 font names → family, weight and style (see `resolveFonts`)
  */
-export function quillToTiptapHtml(html: string, fontMap?: Record<string, string>): string {
+export function quillToTiptapHtml(
+  html: string,
+  fontMap?: Record<string, string>,
+  faces?: Record<string, FontFace>
+): string {
   if (!html) return '';
 
   // Match every opening (or self-closing) HTML tag
@@ -51,9 +58,12 @@ export function quillToTiptapHtml(html: string, fontMap?: Record<string, string>
         style = mergeStyles(style, `text-align: ${alignMatch[1]}`);
       }
 
-      // ── Convert ql-font-* → font-family (resolved via fontMap) ──
+      // ── Convert ql-font-* → font-family (family + weight/style, or resolved via fontMap) ──
       const fontMatch = classes.match(/\bql-font-(\S+)/);
-      if (fontMatch) {
+      const face = fontMatch && faces ? findFontFace(fontMatch[1], faces) : undefined;
+      if (face) {
+        style = mergeStyles(style, fontFaceStyle(face));
+      } else if (fontMatch) {
         style = mergeStyles(style, `font-family: ${resolveFontFamily(fontMatch[1], fontMap)}`);
       }
 
@@ -82,6 +92,17 @@ export function quillToTiptapHtml(html: string, fontMap?: Record<string, string>
   return result;
 }
 
+/**
+ * Declarations selecting a family file. Regular (400) files keep the tag's own
+ * weight — v1 synthesized bold over them.
+ */
+function fontFaceStyle(face: FontFace): string {
+  const declarations = [`font-family: ${face.family}`];
+  if (face.weight !== 400) declarations.push(`font-weight: ${face.weight}`);
+  if (face.style === 'italic') declarations.push('font-style: italic');
+  return declarations.join('; ');
+}
+
 /**
  * Extract the value of a named attribute from an attribute string.
  */
@@ -5,12 +5,17 @@
  *   pnpm --filter @design-studio/layout-migrator start                          # interactive
  *   pnpm --filter @design-studio/layout-migrator migrate --domain redrenault --id <contentTemplateCode>
  *   pnpm --filter @design-studio/layout-migrator transfer --from redrenault --to honda --id <contentTemplateCode>
+ *   pnpm --filter @design-studio/layout-migrator migrate-file ./archive/main-layout.json
+ *   pnpm --filter @design-studio/layout-migrator report ./archive/main-layout.json --html
+ *   pnpm --filter @design-studio/layout-migrator check-assets ./archive/ --verbose
  */
 
 import { Command } from 'commander';
 import { writeFile, mkdir } from 'node:fs/promises';
-import { dirname, resolve } from 'node:path';
-import { migrate } from './pipeline/migrationPipeline.js';
+import { dirname, join, resolve } from 'node:path';
+import { migrate, type MigrationResult } from './pipeline/migrationPipeline.js';
+import { createImageCache, type DataUriTarget } from './assets/imageMigrator.js';
+import type { AssetCheckOptions } from './assets/assetChecker.js';
 import {
   createContentTemplate,
   fetchExistingTemplates,
@@ -21,17 +26,71 @@ import {
   type ProlibuClientConfig,
   type ContentTemplateListItem,
 } from './client/prolibuClient.js';
-import { loadDomainEnv } from './config/envLoader.js';
+import { loadDomainEnv, resolveConfigFromDomain } from './config/envLoader.js';
+import { loadComponentMap, type ComponentMap } from './config/componentMap.js';
 import { runInteractivePrompt } from './cli/interactive.js';
 import { runSnippetReplacementPhase } from './pipeline/snippetReplacer.js';
+import {
+  createRunManifest,
+  registerPendingTemplates,
+  recordCompleted,
+  recordFailed,
+  recordHidden,
+  getEntriesByStatus,
+  getRetryableIds,
+  loadRunManifest,
+  createManifestWriter,
+  defaultManifestPath,
+  type RunManifest,
+} from './pipeline/runManifest.js';
 import { handleUpdateProducts } from './commands/updateProducts.js';
+import { handleRollback } from './commands/rollback.js';
+import { handleMigrateFile } from './commands/migrateFile.js';
+import { handlePull } from './commands/pull.js';
+import { handleReport } from './commands/report.js';
+import { handleCheckAssets } from './commands/checkAssets.js';
+import { loadTransformerModules } from './transformers/transformerPlugins.js';
+import {
+  createMigrationReport,
+  buildTemplateReport,
+  buildErrorTemplateReport,
+  addTemplateReport,
+  writeReportFiles,
+  type MigrationReport,
+  type ReportPaths,
+  type TemplateUploadInfo,
+} from './report/migrationReport.js';
+import {
+  createWarningFilter,
+  filterWarnings,
+  findFailingWarnings,
+  type WarningFilter,
+  type WarningFilterCliOptions,
+} from './report/warningFilter.js';
+import { formatWarning, type MigrationWarning } from './types/migrationWarning.js';
 
 const program = new Command();
 
 program
   .name('layout-migrator')
   .description('Migrate Prolibu v1 content templates to Design Studio v2 format')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option(
+    '--transformers <module>',
+    'Load custom node-type transformers from a module (repeatable)',
+    collectList,
+    []
+  )
+  .hook('preAction', async () => {
+    const modules: string[] = program.opts().transformers;
+    if (modules.length === 0) return;
+    try {
+      await loadTransformerModules(modules);
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
 
 program
   .command('migrate')
@@ -46,7 +105,29 @@ program
   .option('--json-only', 'Only save JSON locally, do NOT upload to Prolibu', false)
   .option('--dry-run', 'Validate only — no upload, no file write', false)
   .option('--no-sync-fonts', 'Disable automatic font synchronization (enabled by default)')
+  .option(
+    '--check-assets',
+    'Request every image and font URL of the result and warn about broken links',
+    false
+  )
   .option('--verbose', 'Show warnings and stats', false)
+  .option('--report <path>', 'Write a machine-readable JSON report')
+  .option('--junit <path>', 'Write a JUnit XML report (fails on validation errors)')
+  .option('--warn-level <level>', 'Only show warnings at or above: info | warning | error', 'info')
+  .option(
+    '--ignore-warning <code>',
+    'Ignore a warning code (repeatable or comma-separated)',
+    collectList,
+    []
+  )
+  .option(
+    '--fail-on <list>',
+    'Exit with code 2 on these warning codes or severities (comma-separated)'
+  )
+  .option(
+    '--component-map <file>',
+    'JSON/YAML component plugin mapping (default: COMPONENT_MAP in .env)'
+  )
   .action(handleMigrate);
 
 // ── Transfer between accounts ──────────────────────────────
@@ -61,7 +142,33 @@ program
   .option('--save-json [path]', 'Also save JSON locally')
   .option('--dry-run', 'Validate only — no upload, no file write', false)
   .option('--no-sync-fonts', 'Disable automatic font synchronization (enabled by default)')
+  .option(
+    '--no-sync-images',
+    'Disable rehosting images into the destination account (enabled by default)'
+  )
+  .option(
+    '--check-assets',
+    'Request every image and font URL of the result and warn about broken links',
+    false
+  )
   .option('--verbose', 'Show warnings and stats', false)
+  .option('--report <path>', 'Write a machine-readable JSON report')
+  .option('--junit <path>', 'Write a JUnit XML report (fails on validation errors)')
+  .option('--warn-level <level>', 'Only show warnings at or above: info | warning | error', 'info')
+  .option(
+    '--ignore-warning <code>',
+    'Ignore a warning code (repeatable or comma-separated)',
+    collectList,
+    []
+  )
+  .option(
+    '--fail-on <list>',
+    'Exit with code 2 on these warning codes or severities (comma-separated)'
+  )
+  .option(
+    '--component-map <file>',
+    'JSON/YAML component plugin mapping (default: COMPONENT_MAP in .env)'
+  )
   .action(handleTransfer);
 
 // ── Migrate ALL templates from one account to another ──────
@@ -74,6 +181,15 @@ program
   .option('--concurrency <n>', 'Number of parallel migrations (default: 5)', '5')
   .option('--dry-run', 'List what would be migrated, no actual changes', false)
   .option('--hide-old', 'Hide (disable) old templates in source after migration', false)
+  .option(
+    '--no-sync-images',
+    'Disable rehosting images into the destination account (enabled by default)'
+  )
+  .option(
+    '--check-assets',
+    'Request every image and font URL of the result and warn about broken links',
+    false
+  )
   .option('--verbose', 'Show detailed progress and warnings', false)
   .option(
     '--ids <codes>',
@@ -89,8 +205,81 @@ program
     'Update products that reference migrated snippets with new snippet IDs',
     false
   )
+  .option(
+    '--manifest <path>',
+    'Where to write the run manifest (default: ./output/manifests/migrate-all_<from>_<to>_<timestamp>.json)'
+  )
+  .option(
+    '--resume <manifest>',
+    'Resume a previous run: skip completed templates, retry failed/pending ones'
+  )
+  .option('--report <path>', 'Write a machine-readable JSON report')
+  .option('--junit <path>', 'Write a JUnit XML report (one test case per template)')
+  .option('--warn-level <level>', 'Only show warnings at or above: info | warning | error', 'info')
+  .option(
+    '--ignore-warning <code>',
+    'Ignore a warning code (repeatable or comma-separated)',
+    collectList,
+    []
+  )
+  .option(
+    '--fail-on <list>',
+    'Exit with code 2 on these warning codes or severities (comma-separated)'
+  )
+  .option(
+    '--component-map <file>',
+    'JSON/YAML component plugin mapping (default: COMPONENT_MAP in .env)'
+  )
   .action(handleMigrateAll);
 
+// ── Offline migration from local v1 JSON files ─────────────
+program
+  .command('migrate-file')
+  .description('Migrate local v1 JSON exports (a file or a directory) — no API access needed')
+  .argument('<path>', 'v1 content-template JSON file, or a directory of them')
+  .option('--dry-run', 'Validate only — no files written', false)
+  .option('--verbose', 'Show validation errors and warnings per file', false)
+  .option('--component-map <file>', 'JSON/YAML component plugin mapping')
+  .action(handleMigrateFile);
+
+// ── Download templates to a local archive ──────────────────
+program
+  .command('pull')
+  .description('Download v1 templates of an account to a local directory (one JSON per template)')
+  .requiredOption('--domain <domain>', 'Account domain (reads from .<domain>.env)')
+  .option('--out <dir>', 'Output directory (default: ./output/pull/<domain>_<timestamp>)')
+  .option('--type <type>', 'Filter by template type: layout | content | snippet | all', 'all')
+  .option('--ids <codes>', 'Comma-separated template codes/IDs to download (default: all)')
+  .option('--concurrency <n>', 'Number of parallel downloads (default: 5)', '5')
+  .option('--verbose', 'Show each downloaded template', false)
+  .action(handlePull);
+
+// ── Before/after HTML report from local v1 JSON files ─────
+program
+  .command('report')
+  .description(
+    'Render before/after HTML pages (v1 frames next to v2 pages) for local v1 JSON exports'
+  )
+  .argument('<path>', 'v1 content-template JSON file, or a directory of them')
+  .option('--html [dir]', 'Write <name>.html per template (default: next to each input file)')
+  .option('--component-map <file>', 'JSON/YAML component plugin mapping')
+  .action(handleReport);
+
+// ── Broken image/font link check ───────────────────────────
+program
+  .command('check-assets')
+  .description('Check the image and font links of templates (404s, timeouts, mixed content)')
+  .argument('[path]', 'v1 content-template JSON file, or a directory of them')
+  .option('--domain <domain>', 'Check the templates of an account instead (reads .<domain>.env)')
+  .option('--type <type>', 'With --domain: layout | content | snippet | all', 'all')
+  .option('--ids <codes>', 'With --domain: comma-separated template codes/IDs (default: all)')
+  .option('--concurrency <n>', 'Number of parallel requests (default: 10)', '10')
+  .option('--timeout <ms>', 'Timeout per request in ms (default: 10000)', '10000')
+  .option('--report <path>', 'Write a JSON report')
+  .option('--verbose', 'Show the nodes using each broken URL', false)
+  .option('--component-map <file>', 'JSON/YAML component plugin mapping')
+  .action(handleCheckAssets);
+
 // ── Update products (standalone snippet→product replacement) ──
 program
   .command('update-products')
@@ -101,6 +290,23 @@ program
   .option('--ids <codes>', 'Comma-separated snippet codes to process (default: all)')
   .action(handleUpdateProducts);
 
+// ── Rollback a previous migration run ──────────────────────
+program
+  .command('rollback')
+  .description(
+    'Undo a migration run: remove created templates, un-hide sources, revert product snippets'
+  )
+  .option('--manifest <path>', 'Run manifest written by migrate-all')
+  .option('--from <domain>', 'Source domain (date-range mode, default: same as --to)')
+  .option('--to <domain>', 'Destination domain (date-range mode)')
+  .option('--since <date>', 'Date-range mode: templates created on/after this date (ISO)')
+  .option('--until <date>', 'Date-range mode: templates created on/before this date (default: now)')
+  .option('--type <type>', 'Date-range mode: layout | content | snippet | all', 'all')
+  .option('--delete', 'Delete created templates instead of deactivating them', false)
+  .option('--dry-run', 'Show what would be undone without changing anything', false)
+  .option('--verbose', 'Show detailed progress', false)
+  .action(handleRollback);
+
 // ── Interactive command (no flags needed) ──────────────────
 program
   .command('run')
@@ -152,6 +358,7 @@ async function runInteractiveFlow() {
       saveJson: answers.saveJson ? (answers.outputPath ?? true) : undefined,
       dryRun: answers.dryRun,
       syncFonts: true, // Always sync fonts in interactive mode
+      syncImages: true,
       verbose: answers.verbose,
     });
   } else {
@@ -170,19 +377,25 @@ async function runInteractiveFlow() {
   }
 }
 
-async function handleMigrate(opts: {
-  id: string;
-  domain?: string;
-  apiUrl?: string;
-  token?: string;
-  name?: string;
-  type?: string;
-  saveJson?: string | boolean;
-  jsonOnly: boolean;
-  dryRun: boolean;
-  syncFonts: boolean;
-  verbose: boolean;
-}) {
+async function handleMigrate(
+  opts: {
+    id: string;
+    domain?: string;
+    apiUrl?: string;
+    token?: string;
+    name?: string;
+    type?: string;
+    saveJson?: string | boolean;
+    jsonOnly: boolean;
+    dryRun: boolean;
+    syncFonts: boolean;
+    checkAssets?: boolean;
+    verbose: boolean;
+    report?: string;
+    junit?: string;
+    componentMap?: string;
+  } & WarningFilterCliOptions
+) {
   const { id, domain, verbose } = opts;
 
   // Load env from domain file if specified
@@ -227,6 +440,13 @@ async function handleMigrate(opts: {
   console.log(`🔄 Migrating contentTemplateCode: ${id}`);
   console.log(`   API: ${apiUrl}`);
 
+  const warningFilter = resolveWarningFilter(opts);
+  const componentMap = await resolveComponentMap(opts.componentMap, domain);
+  const report = createMigrationReport('migrate', { from: domain, to: domain });
+  const reportPaths: ReportPaths = { report: opts.report, junit: opts.junit };
+  const templateRef = { sourceId: id, name: id, templateType: opts.type };
+  let result: MigrationResult | undefined;
+
   try {
     // Build fontApiConfig if font sync is enabled
     const fontApiConfig = opts.syncFonts
@@ -236,17 +456,39 @@ async function handleMigrate(opts: {
         }
       : undefined;
 
-    const result = await migrate(id, { config, fontApiConfig });
+    // Inline data URI images → files in the account, or next to the JSON with --json-only
+    const jsonDir =
+      typeof opts.saveJson === 'string' ? dirname(resolve(opts.saveJson)) : resolve('output');
+    const dataUriTarget: DataUriTarget | undefined = opts.dryRun
+      ? undefined
+      : opts.jsonOnly
+        ? { type: 'local', dir: join(jsonDir, 'assets'), urlPrefix: 'assets' }
+        : { type: 'upload', apiConfig: config };
+
+    result = await migrate(id, {
+      config,
+      fontApiConfig,
+      dataUriTarget,
+      // Dry runs only preview: don't wait on image hosts for crops
+      probeImages: !opts.dryRun,
+      checkAssets: opts.checkAssets ? {} : undefined,
+      componentMap,
+    });
+    templateRef.name = result.document.name;
+    const failingWarnings = applyWarningFilter(result, warningFilter);
 
     // Stats
     printStats(result.stats);
     printWarnings(result.warnings);
+    printFailingWarnings(failingWarnings);
     printValidation(result.validation, verbose);
 
     // ── Dry run: stop here ─────────────────────────────────
     if (opts.dryRun) {
       console.log('\n🔍 Dry run — no upload, no file written');
-      if (!result.validation.valid) process.exit(2);
+      addTemplateReport(report, buildTemplateReport(templateRef, result, {}, failingWarnings));
+      await saveReport(report, reportPaths);
+      if (!result.validation.valid || failingWarnings.length > 0) process.exit(2);
       return;
     }
 
@@ -263,14 +505,17 @@ async function handleMigrate(opts: {
     }
 
     // ── Upload to Prolibu (default behavior) ───────────────
+    let upload: TemplateUploadInfo = {};
     if (!opts.jsonOnly) {
       console.log('\n📤 Uploading to Prolibu as new template...');
 
+      const uploadStart = Date.now();
       const created = await createContentTemplate(result.document, config, {
         name: opts.name,
         templateType: opts.type,
         fontIds: result.fontSync?.fontIds,
       });
+      upload = { action: 'created', targetId: created._id, uploadMs: Date.now() - uploadStart };
 
       console.log(
         `✅ Created: ${created.contentTemplateName ?? opts.name ?? result.document.name}`
@@ -282,8 +527,11 @@ async function handleMigrate(opts: {
       console.log(`   Debug: http://localhost:3000/?id=${created._id}`);
     }
 
-    // Exit code based on validation
-    if (!result.validation.valid) {
+    addTemplateReport(report, buildTemplateReport(templateRef, result, upload, failingWarnings));
+    await saveReport(report, reportPaths);
+
+    // Exit code based on validation and --fail-on warnings
+    if (!result.validation.valid || failingWarnings.length > 0) {
       process.exit(2);
     }
   } catch (error) {
@@ -296,6 +544,8 @@ async function handleMigrate(opts: {
     } else {
       console.error(`   ${String(error)}`);
     }
+    addTemplateReport(report, buildErrorTemplateReport(templateRef, error, result));
+    await saveReport(report, reportPaths);
     process.exit(1);
   }
 }
@@ -304,17 +554,24 @@ async function handleMigrate(opts: {
 // TRANSFER (cross-account)
 // ═══════════════════════════════════════════════════════════════
 
-async function handleTransfer(opts: {
-  id: string;
-  from: string;
-  to: string;
-  name?: string;
-  type?: string;
-  saveJson?: string | boolean;
-  dryRun: boolean;
-  syncFonts: boolean;
-  verbose: boolean;
-}) {
+async function handleTransfer(
+  opts: {
+    id: string;
+    from: string;
+    to: string;
+    name?: string;
+    type?: string;
+    saveJson?: string | boolean;
+    dryRun: boolean;
+    syncFonts: boolean;
+    syncImages: boolean;
+    checkAssets?: boolean;
+    verbose: boolean;
+    report?: string;
+    junit?: string;
+    componentMap?: string;
+  } & WarningFilterCliOptions
+) {
   const { id, verbose } = opts;
 
   // Resolve source config
@@ -326,6 +583,13 @@ async function handleTransfer(opts: {
   console.log(`   From: ${opts.from} (${sourceConfig.baseUrl})`);
   console.log(`   To:   ${opts.to} (${destConfig.baseUrl})`);
 
+  const warningFilter = resolveWarningFilter(opts);
+  const componentMap = await resolveComponentMap(opts.componentMap, opts.from);
+  const report = createMigrationReport('transfer', { from: opts.from, to: opts.to });
+  const reportPaths: ReportPaths = { report: opts.report, junit: opts.junit };
+  const templateRef = { sourceId: id, name: id, templateType: opts.type };
+  let result: MigrationResult | undefined;
+
   try {
     // Build fontApiConfig pointing to DESTINATION account
     const fontApiConfig = opts.syncFonts
@@ -335,17 +599,34 @@ async function handleTransfer(opts: {
         }
       : undefined;
 
-    const result = await migrate(id, { config: sourceConfig, fontApiConfig });
+    // Rehost images into the DESTINATION account (not on dry runs or within one account)
+    const imageApiConfig =
+      opts.syncImages && !opts.dryRun && opts.from !== opts.to ? destConfig : undefined;
+
+    result = await migrate(id, {
+      config: sourceConfig,
+      fontApiConfig,
+      imageApiConfig,
+      dataUriTarget: opts.dryRun ? undefined : { type: 'upload', apiConfig: destConfig },
+      probeImages: !opts.dryRun,
+      checkAssets: opts.checkAssets ? {} : undefined,
+      componentMap,
+    });
+    templateRef.name = result.document.name;
+    const failingWarnings = applyWarningFilter(result, warningFilter);
 
     // Stats
     printStats(result.stats);
     printWarnings(result.warnings);
+    printFailingWarnings(failingWarnings);
     printValidation(result.validation, verbose);
 
     // ── Dry run: stop here ─────────────────────────────────
     if (opts.dryRun) {
       console.log('\n🔍 Dry run — no upload, no file written');
-      if (!result.validation.valid) process.exit(2);
+      addTemplateReport(report, buildTemplateReport(templateRef, result, {}, failingWarnings));
+      await saveReport(report, reportPaths);
+      if (!result.validation.valid || failingWarnings.length > 0) process.exit(2);
       return;
     }
 
@@ -364,11 +645,13 @@ async function handleTransfer(opts: {
     // ── Upload to DESTINATION account ──────────────────────
     console.log(`\n📤 Uploading to ${opts.to} as new template...`);
 
+    const uploadStart = Date.now();
     const created = await createContentTemplate(result.document, destConfig, {
       name: opts.name,
       templateType: opts.type,
       fontIds: result.fontSync?.fontIds,
     });
+    const uploadMs = Date.now() - uploadStart;
 
     console.log(
       `✅ Created on ${opts.to}: ${created.contentTemplateName ?? opts.name ?? result.document.name}`
@@ -379,7 +662,18 @@ async function handleTransfer(opts: {
     );
     console.log(`   Debug: http://localhost:3000/?id=${created._id}`);
 
-    if (!result.validation.valid) process.exit(2);
+    addTemplateReport(
+      report,
+      buildTemplateReport(
+        templateRef,
+        result,
+        { action: 'created', targetId: created._id, uploadMs },
+        failingWarnings
+      )
+    );
+    await saveReport(report, reportPaths);
+
+    if (!result.validation.valid || failingWarnings.length > 0) process.exit(2);
   } catch (error) {
     console.error('\n❌ Transfer failed:');
     if (error instanceof ProlibuApiError) {
@@ -394,6 +688,8 @@ async function handleTransfer(opts: {
     } else {
       console.error(`   ${String(error)}`);
     }
+    addTemplateReport(report, buildErrorTemplateReport(templateRef, error, result));
+    await saveReport(report, reportPaths);
     process.exit(1);
   }
 }
@@ -402,25 +698,6 @@ async function handleTransfer(opts: {
 // HELPERS
 // ═══════════════════════════════════════════════════════════════
 
-async function resolveConfigFromDomain(
-  domain: string,
-  label: string
-): Promise<ProlibuClientConfig> {
-  const env = await loadDomainEnv(domain);
-  const apiUrl = env.PROLIBU_API_URL ?? `https://${domain}.prolibu.com/api`;
-  const token = env.PROLIBU_AUTH_TOKEN;
-
-  if (!token) {
-    throw new Error(`${label}: No PROLIBU_AUTH_TOKEN found in .${domain}.env`);
-  }
-
-  console.log(`📂 ${label}: loaded .${domain}.env`);
-  return {
-    baseUrl: apiUrl,
-    authToken: token.startsWith('Bearer ') ? token : `Bearer ${token}`,
-  };
-}
-
 function printStats(stats: import('./transformers/nodeRouter.js').MigrationStats) {
   console.log('\n📊 Migration Stats:');
   console.log(`   Pages: ${stats.pages}`);
@@ -435,15 +712,74 @@ function printStats(stats: import('./transformers/nodeRouter.js').MigrationStats
   console.log(`   Frames: ${stats.frameNodes}`);
 }
 
-function printWarnings(warnings: string[]) {
+function printWarnings(warnings: MigrationWarning[]) {
   if (warnings.length > 0) {
     console.log(`\n⚠️  Warnings (${warnings.length}):`);
     for (const w of warnings) {
-      console.log(`   - ${w}`);
+      console.log(`   - [${w.severity}] ${formatWarning(w)}`);
     }
   }
 }
 
+function printFailingWarnings(failing: MigrationWarning[]) {
+  if (failing.length > 0) {
+    const codes = [...new Set(failing.map((w) => w.code))].join(', ');
+    console.log(`\n❌ --fail-on matched ${failing.length} warning(s): ${codes}`);
+  }
+}
+
+function resolveWarningFilter(opts: WarningFilterCliOptions): WarningFilter {
+  try {
+    return createWarningFilter(opts);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Apply --warn-level / --ignore-warning to the result's warnings (in place)
+ * and return the warnings matching --fail-on.
+ */
+function applyWarningFilter(result: MigrationResult, filter: WarningFilter): MigrationWarning[] {
+  const failing = findFailingWarnings(result.warnings, filter);
+  result.warnings = filterWarnings(result.warnings, filter);
+  return failing;
+}
+
+/**
+ * Component mapping: --component-map > COMPONENT_MAP in the source domain .env
+ * (the map describes the v1 components being read; paths relative to the cwd).
+ * Validated before anything is migrated — exits 1 on errors.
+ */
+async function resolveComponentMap(
+  flag: string | undefined,
+  sourceDomain: string | undefined
+): Promise<ComponentMap | undefined> {
+  let path = flag;
+  if (!path && sourceDomain) {
+    try {
+      path = (await loadDomainEnv(sourceDomain)).COMPONENT_MAP;
+    } catch {
+      // Env already loaded for config — no COMPONENT_MAP, use the built-in map
+    }
+  }
+  if (!path) return undefined;
+
+  try {
+    const componentMap = await loadComponentMap(resolve(path));
+    console.log(`🧩 Component map: ${path}`);
+    return componentMap;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+function collectList(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 function printValidation(
   validation: import('@design-studio/schema').ValidationResult,
   verbose: boolean
@@ -465,6 +801,19 @@ function printValidation(
   }
 }
 
+/**
+ * Write --report / --junit files. A failed write is logged, never fatal:
+ * it must not change the outcome of the migration itself.
+ */
+async function saveReport(report: MigrationReport, paths: ReportPaths): Promise<void> {
+  try {
+    await writeReportFiles(report, paths);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`   ⚠️  Could not write report: ${errorMsg}`);
+  }
+}
+
 function sanitizeFilename(name: string): string {
   const cleaned = name
     .replace(/[^a-zA-Z0-9_\-\s]/g, '')
@@ -478,18 +827,29 @@ function sanitizeFilename(name: string): string {
 // MIGRATE ALL (batch transfer with upsert)
 // ═══════════════════════════════════════════════════════════════
 
-async function handleMigrateAll(opts: {
-  from: string;
-  to: string;
-  type: string;
-  concurrency: string;
-  dryRun: boolean;
-  verbose: boolean;
-  hideOld: boolean;
-  ids?: string | string[];
-  keepOriginalName?: boolean;
-  updateProducts?: boolean;
-}) {
+async function handleMigrateAll(
+  opts: {
+    from: string;
+    to: string;
+    type: string;
+    concurrency: string;
+    dryRun: boolean;
+    verbose: boolean;
+    hideOld: boolean;
+    /** Rehost images into the destination account (default: true) */
+    syncImages?: boolean;
+    /** Check image/font links of each result (`--check-assets`) */
+    checkAssets?: boolean;
+    ids?: string | string[];
+    keepOriginalName?: boolean;
+    updateProducts?: boolean;
+    manifest?: string;
+    resume?: string;
+    report?: string;
+    junit?: string;
+    componentMap?: string;
+  } & WarningFilterCliOptions
+) {
   const concurrency = parseInt(opts.concurrency, 10) || 5;
   const templateType =
     opts.type === 'all' ? undefined : (opts.type as 'layout' | 'content' | 'snippet');
@@ -497,9 +857,31 @@ async function handleMigrateAll(opts: {
   const sourceConfig = await resolveConfigFromDomain(opts.from, 'Source');
   const destConfig = await resolveConfigFromDomain(opts.to, 'Destination');
 
+  const warningFilter = resolveWarningFilter(opts);
+  const componentMap = await resolveComponentMap(opts.componentMap, opts.from);
+  const report = createMigrationReport('migrate-all', { from: opts.from, to: opts.to });
+  const reportPaths: ReportPaths = { report: opts.report, junit: opts.junit };
+
+  // Resumed run: the manifest defines the batch
+  let resumedManifest: RunManifest | undefined;
+  if (opts.resume) {
+    try {
+      resumedManifest = await loadRunManifest(resolve(opts.resume));
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    if (resumedManifest.from !== opts.from || resumedManifest.to !== opts.to) {
+      console.error(
+        `❌ Manifest is for ${resumedManifest.from} → ${resumedManifest.to}, not ${opts.from} → ${opts.to}`
+      );
+      process.exit(1);
+    }
+  }
+
   // Resolve IDs: CLI --ids > MIGRATION_IDS from .env
   let resolvedIds = opts.ids;
-  if (!resolvedIds) {
+  if (!resolvedIds && !resumedManifest) {
     try {
       const sourceEnv = await loadDomainEnv(opts.from);
       const envIds = sourceEnv.MIGRATION_IDS?.split(',')
@@ -526,6 +908,9 @@ async function handleMigrateAll(opts: {
   if (opts.updateProducts) {
     console.log(`   Update products: Yes (will replace old snippet IDs in products)`);
   }
+  if (resumedManifest) {
+    console.log(`   Resume:      ${resolve(opts.resume!)}`);
+  }
 
   // ⚠️ Warning: keepOriginalName + same account = will OVERWRITE originals
   if (opts.keepOriginalName && opts.from === opts.to) {
@@ -564,8 +949,25 @@ async function handleMigrateAll(opts: {
     console.log(`   Filtered to ${templatesToMigrate.length} templates by IDs`);
   }
 
+  // 1c. Resume: keep only failed/pending templates from the manifest
+  if (resumedManifest) {
+    const retryable = getRetryableIds(resumedManifest);
+    const completedCount = getEntriesByStatus(resumedManifest, 'completed').length;
+    templatesToMigrate = sourceTemplates.filter((t) => retryable.has(t._id));
+
+    const foundIds = new Set(sourceTemplates.map((t) => t._id));
+    const missing = [...retryable].filter((id) => !foundIds.has(id));
+    if (missing.length > 0) {
+      console.log(`   ⚠️  Manifest templates no longer in source: ${missing.join(', ')}`);
+    }
+    console.log(
+      `   Resuming: ${completedCount} already completed, ${templatesToMigrate.length} to retry`
+    );
+  }
+
   if (templatesToMigrate.length === 0) {
     console.log('   Nothing to migrate.');
+    await saveReport(report, reportPaths);
     return;
   }
 
@@ -617,6 +1019,7 @@ async function handleMigrateAll(opts: {
       await runSnippetReplacementPhase(dryRunMap, destConfig, true, opts.verbose);
     }
 
+    await saveReport(report, reportPaths);
     return;
   }
 
@@ -627,6 +1030,8 @@ async function handleMigrateAll(opts: {
     created: 0,
     updated: 0,
     failed: 0,
+    /** Templates migrated, but with warnings matching --fail-on */
+    warningFailures: 0,
     errors: [] as Array<{ name: string; error: string }>,
     /** IDs of source templates that were successfully migrated (for hiding) */
     migratedSourceIds: [] as string[],
@@ -635,6 +1040,50 @@ async function handleMigrateAll(opts: {
   /** Map of old snippet ID → new snippet ID (built during migration) */
   const snippetIdMap = new Map<string, string>();
 
+  // Images shared by several templates are uploaded once per run
+  const imageApiConfig =
+    opts.syncImages !== false && opts.from !== opts.to ? destConfig : undefined;
+  const imageCache = createImageCache();
+  // Each asset URL is requested once per run
+  const checkAssets: AssetCheckOptions | undefined = opts.checkAssets
+    ? { cache: new Map() }
+    : undefined;
+
+  // Run manifest: persisted after every template so the run can be resumed
+  const manifest =
+    resumedManifest ??
+    createRunManifest(opts.from, opts.to, {
+      type: opts.type,
+      keepOriginalName: opts.keepOriginalName ?? false,
+      hideOld: opts.hideOld,
+      updateProducts: opts.updateProducts ?? false,
+    });
+  registerPendingTemplates(manifest, templatesToMigrate, opts.keepOriginalName ?? false);
+
+  const manifestPath = opts.manifest
+    ? resolve(opts.manifest)
+    : opts.resume
+      ? resolve(opts.resume)
+      : defaultManifestPath(manifest);
+  const saveManifest = createManifestWriter(manifestPath);
+  await saveManifest(manifest);
+  console.log(`   📝 Manifest: ${manifestPath}`);
+
+  // A failed manifest write must not turn a successful migration into a failure
+  const persistManifest = () =>
+    saveManifest(manifest).catch((error) => {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.log(`   ⚠️  Could not write manifest: ${errorMsg}`);
+    });
+
+  // Templates completed in a previous run still take part in the post-migration phases
+  for (const entry of getEntriesByStatus(manifest, 'completed')) {
+    if (entry.templateType === 'snippet' && entry.targetId) {
+      snippetIdMap.set(entry.sourceId, entry.targetId);
+    }
+    results.migratedSourceIds.push(entry.sourceId);
+  }
+
   const queue = [...templatesToMigrate];
   let completed = 0;
   const total = queue.length;
@@ -642,6 +1091,12 @@ async function handleMigrateAll(opts: {
   const processTemplate = async (template: ContentTemplateListItem) => {
     const code = template.contentTemplateCode ?? template.contentTemplateName;
     const targetCode = opts.keepOriginalName ? code : `${code}-migrated`;
+    const templateRef = {
+      sourceId: template._id,
+      name: template.contentTemplateName,
+      templateType: template.templateType,
+    };
+    let migrationResult: MigrationResult | undefined;
 
     try {
       // Build fontApiConfig pointing to destination
@@ -651,12 +1106,19 @@ async function handleMigrateAll(opts: {
       };
 
       // Run migration pipeline
-      const migrationResult = await migrate(template._id, {
+      migrationResult = await migrate(template._id, {
         config: sourceConfig,
         fontApiConfig,
+        imageApiConfig,
+        imageCache,
+        dataUriTarget: { type: 'upload', apiConfig: destConfig },
+        checkAssets,
+        componentMap,
       });
+      const failingWarnings = applyWarningFilter(migrationResult, warningFilter);
 
       // Upsert to destination
+      const uploadStart = Date.now();
       const upsertResult = await upsertContentTemplate(
         migrationResult.document,
         destConfig,
@@ -686,17 +1148,54 @@ async function handleMigrateAll(opts: {
       // Track successfully migrated source template ID (for hiding later)
       results.migratedSourceIds.push(template._id);
 
+      recordCompleted(manifest, template._id, {
+        targetId: upsertResult._id,
+        action: upsertResult.action,
+        warnings: migrationResult.warnings.length,
+      });
+      await persistManifest();
+
+      addTemplateReport(
+        report,
+        buildTemplateReport(
+          templateRef,
+          migrationResult,
+          {
+            action: upsertResult.action,
+            targetId: upsertResult._id,
+            targetCode,
+            uploadMs: Date.now() - uploadStart,
+          },
+          failingWarnings
+        )
+      );
+
       completed++;
       const pct = Math.round((completed / total) * 100);
       console.log(
         `   [${pct}%] ${upsertResult.action.toUpperCase()}: ${template.contentTemplateName} → ${targetCode}`
       );
+      if (failingWarnings.length > 0) {
+        results.warningFailures++;
+        const codes = [...new Set(failingWarnings.map((w) => w.code))].join(', ');
+        console.log(`   [WARN] --fail-on matched in ${template.contentTemplateName}: ${codes}`);
+      }
+      if (opts.verbose) {
+        for (const w of migrationResult.warnings) {
+          console.log(`      - [${w.severity}] ${formatWarning(w)}`);
+        }
+      }
     } catch (error) {
       results.failed++;
       completed++;
       const errorMsg = error instanceof Error ? error.message : String(error);
       results.errors.push({ name: template.contentTemplateName, error: errorMsg });
       console.log(`   [ERR] FAILED: ${template.contentTemplateName} — ${errorMsg}`);
+
+      recordFailed(manifest, template._id, errorMsg);
+      await persistManifest();
+
+      addTemplateReport(report, buildErrorTemplateReport(templateRef, error, migrationResult));
     }
   };
 
@@ -725,6 +1224,9 @@ async function handleMigrateAll(opts: {
   console.log(`   ✅ Created: ${results.created}`);
   console.log(`   🔄 Updated: ${results.updated}`);
   console.log(`   ❌ Failed:  ${results.failed}`);
+  if (results.warningFailures > 0) {
+    console.log(`   ⚠️  --fail-on: ${results.warningFailures}`);
+  }
   console.log(`   ─────────────────`);
   console.log(`   Total:    ${total}`);
 
@@ -735,6 +1237,11 @@ async function handleMigrateAll(opts: {
     }
   }
 
+  console.log(`\n📝 Manifest saved: ${manifestPath}`);
+  if (results.failed > 0) {
+    console.log(`   Retry failed templates with: --resume ${manifestPath}`);
+  }
+
   // 6. Snippet → Product replacement phase
   if (opts.updateProducts && snippetIdMap.size > 0) {
     if (opts.from !== opts.to) {
@@ -753,10 +1260,16 @@ async function handleMigrateAll(opts: {
 
     let hidden = 0;
     let hideFailed = 0;
+    // Already inactive: not hidden by this run, so rollback must not re-activate them
+    const inactiveIds = new Set(
+      sourceTemplates.filter((t) => t.active === false).map((t) => t._id)
+    );
 
     for (const sourceId of results.migratedSourceIds) {
+      if (inactiveIds.has(sourceId)) continue;
       try {
         await hideTemplate(sourceId, sourceConfig);
+        recordHidden(manifest, sourceId);
         hidden++;
       } catch (error) {
         hideFailed++;
@@ -771,11 +1284,17 @@ async function handleMigrateAll(opts: {
     if (hideFailed > 0) {
       console.log(`   ❌ Failed to hide: ${hideFailed}`);
     }
+    await persistManifest();
   }
 
+  await saveReport(report, reportPaths);
+
   if (results.failed > 0) {
     process.exit(1);
   }
+  if (results.warningFailures > 0) {
+    process.exit(2);
+  }
 }
 
 program.parseAsync().catch((err) => {
@@ -6,9 +6,27 @@
 import { validateDocument, PAGE_SIZES } from '@design-studio/schema';
 import type { Document, SceneNode, ValidationResult } from '@design-studio/schema';
 import { fetchContentTemplate, type ProlibuClientConfig } from '../client/prolibuClient.js';
-import type { ProlibuLayout } from '../types/prolibu.js';
+import type { ProlibuLayout, ProlibuNode } from '../types/prolibu.js';
+import { WARNING_SEVERITY, type MigrationWarning } from '../types/migrationWarning.js';
 import { resolveFonts, type ResolvedFonts } from '../assets/fontResolver.js';
 import { syncFonts, type FontApiConfig, type FontSyncResult } from '../assets/fontMigrator.js';
+import type { FontFaceInfo, FontMetrics } from '../assets/fontMetrics.js';
+import { probeImageSizes, type ImageSize } from '../assets/imageProbe.js';
+import {
+  checkDocumentAssets,
+  describeAssetIssue,
+  type AssetCheckOptions,
+  type AssetCheckResult,
+} from '../assets/assetChecker.js';
+import {
+  extractDataUris,
+  syncImages,
+  type DataUriExtractionResult,
+  type DataUriTarget,
+  type ImageApiConfig,
+  type ImageCache,
+  type ImageSyncResult,
+} from '../assets/imageMigrator.js';
 import { transformDocumentShell } from '../transformers/documentTransformer.js';
 import { transformPage } from '../transformers/pageTransformer.js';
 import {
@@ -17,14 +35,19 @@ import {
   detectMarkerPreset,
   resolveMarkerPreset,
 } from '../transformers/pagePresetResolver.js';
-import { resolveFontFamily } from '../converters/cssParser.js';
+import { parseNodeStyles, resolveFontFamily } from '../converters/cssParser.js';
+import { needsImageSize } from '../transformers/styleHelpers.js';
 import {
   routeNode,
   createEmptyStats,
   type MigrationStats,
+  type SkippedNode,
   type TransformContext,
 } from '../transformers/nodeRouter.js';
+import { recordSkippedNode } from '../transformers/warnings.js';
+import { applyStacking } from '../transformers/stacking.js';
 import { convertWildcards } from '../converters/wildcardConverter.js';
+import type { ComponentMap } from '../config/componentMap.js';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -33,12 +56,35 @@ import { convertWildcards } from '../converters/wildcardConverter.js';
 export interface MigrationResult {
   document: Document;
   validation: ValidationResult;
-  warnings: string[];
+  warnings: MigrationWarning[];
   stats: MigrationStats;
+  /** v1 nodes that produced no v2 node */
+  skippedNodes: SkippedNode[];
   /** Font sync result (if font sync was enabled) */
   fontSync?: FontSyncResult;
+  /** Image rehosting result (if image sync was enabled) */
+  imageSync?: ImageSyncResult;
+  /** Inline data URI extraction result (if a target was given) */
+  dataUris?: DataUriExtractionResult;
+  /** Broken and mixed-content asset links (if the asset check was enabled) */
+  assetCheck?: AssetCheckResult;
   /** Taxonomy from source template (passthrough) */
   taxonomy?: Record<string, unknown>;
+  /** Time spent in each stage (ms) */
+  timings: MigrationTimings;
+}
+
+export interface MigrationTimings {
+  /** Fetching the source template (0 when a layout was provided) */
+  fetchMs: number;
+  /** Font sync (0 when disabled) */
+  fontSyncMs: number;
+  /** Image size probing, rehosting and data URI extraction (0 when disabled) */
+  imageSyncMs: number;
+  /** Asset link check (0 when disabled) */
+  assetCheckMs: number;
+  /** Transform + validation */
+  transformMs: number;
 }
 
 export interface MigrationOptions {
@@ -50,6 +96,30 @@ export interface MigrationOptions {
   pageSize?: typeof PAGE_SIZES.fixed;
   /** Font API config (enables font sync if provided) */
   fontApiConfig?: FontApiConfig;
+  /** Destination file API config (enables image rehosting if provided) */
+  imageApiConfig?: ImageApiConfig;
+  /** Read the size of remote background images that need it for their crop (default: true) */
+  probeImages?: boolean;
+  /** Where to extract inline data URI images to (kept inline if omitted) */
+  dataUriTarget?: DataUriTarget;
+  /** Uploads shared between templates of a run (see `createImageCache`) */
+  imageCache?: ImageCache;
+  /** Request every image and font URL of the result and warn about broken ones */
+  checkAssets?: AssetCheckOptions;
+  /** Component plugin mapping (default: built-in map) */
+  componentMap?: ComponentMap;
+}
+
+/** Transform-only options for `migrateFromLayout` */
+export interface TransformOptions {
+  /** Component plugin mapping (default: built-in map) */
+  componentMap?: ComponentMap;
+  /** Character widths by font name, for auto-width text (from font sync) */
+  fontMetrics?: Record<string, FontMetrics>;
+  /** Family, weight and style read from font files, by font name (from font sync) */
+  fontFaces?: Record<string, FontFaceInfo>;
+  /** Intrinsic size of remote background images, by URL (see `probeImageSizes`) */
+  imageSizes?: Record<string, ImageSize>;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -61,6 +131,7 @@ export interface MigrationOptions {
  */
 export async function migrate(id: string, options: MigrationOptions): Promise<MigrationResult> {
   // 1. Fetch or use pre-provided layout
+  const fetchStart = Date.now();
   let layout: ProlibuLayout;
   if (options.layout) {
     layout = options.layout;
@@ -69,21 +140,99 @@ export async function migrate(id: string, options: MigrationOptions): Promise<Mi
   } else {
     throw new Error('Either config or layout must be provided');
   }
+  const fetchMs = Date.now() - fetchStart;
 
   // 2. Sync fonts (if font API config provided)
+  const fontSyncStart = Date.now();
   let fontSyncResult: FontSyncResult | undefined;
   if (options.fontApiConfig && layout.embeddedFonts && layout.embeddedFonts.length > 0) {
     fontSyncResult = await syncFonts(layout.embeddedFonts, options.fontApiConfig);
   }
+  const fontSyncMs = Date.now() - fontSyncStart;
+
+  // 2.5. Read the size of background images whose crop depends on it
+  const probeStart = Date.now();
+  const imageSizes =
+    options.probeImages === false ? undefined : await probeImageSizes(croppedImageUrls(layout));
+  const probeMs = Date.now() - probeStart;
 
   // 3. Run transformation with font map
-  const result = migrateFromLayout(layout, options.pageSize, fontSyncResult?.fontMap);
+  const result = migrateFromLayout(layout, options.pageSize, fontSyncResult?.fontMap, {
+    componentMap: options.componentMap,
+    fontMetrics: fontSyncResult?.fontMetrics,
+    fontFaces: fontSyncResult?.fontFaces,
+    imageSizes,
+  });
+
+  // 3.5. Rehost images into the destination account (if image API config provided)
+  const imageSyncStart = Date.now();
+  let imageSyncResult: ImageSyncResult | undefined;
+  if (options.imageApiConfig) {
+    imageSyncResult = await syncImages(result.document, options.imageApiConfig, options.imageCache);
+    for (const { url, error, nodeIds } of imageSyncResult.failed) {
+      for (const nodeId of nodeIds) {
+        result.warnings.push({
+          code: 'ImageSyncFailed',
+          severity: WARNING_SEVERITY.ImageSyncFailed,
+          message: `${url}: ${error} — source URL kept`,
+          targetNodeId: nodeId,
+        });
+      }
+    }
+  }
+
+  // 3.6. Extract inline data URI images (after rehosting, which skips them)
+  let dataUriResult: DataUriExtractionResult | undefined;
+  if (options.dataUriTarget) {
+    dataUriResult = await extractDataUris(
+      result.document,
+      options.dataUriTarget,
+      options.imageCache
+    );
+    for (const { error, nodeIds } of dataUriResult.failed) {
+      for (const nodeId of nodeIds) {
+        result.warnings.push({
+          code: 'ImageSyncFailed',
+          severity: WARNING_SEVERITY.ImageSyncFailed,
+          message: `data URI image: ${error} — kept inline`,
+          targetNodeId: nodeId,
+        });
+      }
+    }
+  }
+  const imageSyncMs = probeMs + Date.now() - imageSyncStart;
+
+  // 3.7. Check the final asset URLs (after rehosting, so the checked links are the ones shipped)
+  const assetCheckStart = Date.now();
+  let assetCheckResult: AssetCheckResult | undefined;
+  if (options.checkAssets) {
+    assetCheckResult = await checkDocumentAssets(result.document, options.checkAssets);
+    for (const issue of assetCheckResult.issues) {
+      const code = issue.issue === 'mixed-content' ? 'MixedContent' : 'BrokenAsset';
+      const message = `${issue.kind} ${issue.url}: ${describeAssetIssue(issue)}`;
+      // Fonts no text node uses are still reported, without a target
+      const nodeIds = issue.nodeIds.length > 0 ? issue.nodeIds : [undefined];
+      for (const nodeId of nodeIds) {
+        result.warnings.push({
+          code,
+          severity: WARNING_SEVERITY[code],
+          message,
+          targetNodeId: nodeId,
+        });
+      }
+    }
+  }
+  const assetCheckMs = Date.now() - assetCheckStart;
 
-  // 4. Attach font sync result and taxonomy from source layout
+  // 4. Attach font/image sync results and taxonomy from source layout
   return {
     ...result,
     fontSync: fontSyncResult,
+    imageSync: imageSyncResult,
+    dataUris: dataUriResult,
+    assetCheck: assetCheckResult,
     taxonomy: layout.taxonomy,
+    timings: { ...result.timings, fetchMs, fontSyncMs, imageSyncMs, assetCheckMs },
   };
 }
 
@@ -94,25 +243,26 @@ export async function migrate(id: string, options: MigrationOptions): Promise<Mi
 export function migrateFromLayout(
   layout: ProlibuLayout,
   pageSize = PAGE_SIZES.fixed,
-  fontMap?: Record<string, string>
+  fontMap?: Record<string, string>,
+  transformOptions: TransformOptions = {}
 ): MigrationResult {
+  const transformStart = Date.now();
+
   // 1. Resolve fonts
-  const fonts: ResolvedFonts = resolveFonts(layout);
+  const fonts: ResolvedFonts = resolveFonts(layout, transformOptions.fontFaces);
 
   // 2. Create document shell
   const docShell = transformDocumentShell(layout, fonts);
 
-  // 2.5. Apply fontMap to defaultFontFamily if provided
-  if (fontMap && docShell.settings.typography.defaultFontFamily) {
-    const resolvedDefault = resolveFontFamily(
-      docShell.settings.typography.defaultFontFamily,
-      fontMap
-    );
+  // 2.5. Apply fontMap to defaultFontFamily if provided (family names aren't file names)
+  const defaultFontFamily = docShell.settings.typography.defaultFontFamily;
+  if (fontMap && defaultFontFamily && !fonts.fontAssets[defaultFontFamily]) {
+    const resolvedDefault = resolveFontFamily(defaultFontFamily, fontMap);
     docShell.settings.typography.defaultFontFamily = resolvedDefault;
   }
 
   // 3. Set up transform context
-  const warnings: string[] = [];
+  const warnings: MigrationWarning[] = [];
   const stats = createEmptyStats();
   const ctx: TransformContext = {
     warnings,
@@ -120,6 +270,11 @@ export function migrateFromLayout(
     fonts,
     wildcardConverter: convertWildcards,
     fontMap,
+    componentMap: transformOptions.componentMap,
+    fontMetrics: transformOptions.fontMetrics,
+    imageSizes: transformOptions.imageSizes,
+    sourcePath: [],
+    skippedNodes: [],
   };
 
   // 4. Transform pages and collect nodes
@@ -134,6 +289,8 @@ export function migrateFromLayout(
 
   for (let i = 0; i < sourceFrames.length; i++) {
     const frame = sourceFrames[i];
+    // Warnings raised while transforming this frame point back to it
+    ctx.sourcePath = [{ name: frame.name, type: frame.type }];
 
     // Check if this frame is a known page preset (quote, quick-approval, etc.)
     const presetDetection = detectPagePreset(frame);
@@ -178,7 +335,7 @@ export function migrateFromLayout(
     stats.pages++;
 
     // Transform the frame into a Page + root FrameNode
-    const { page, rootFrame, extraNodes } = transformPage(frame, i, pageSize);
+    const { page, rootFrame, extraNodes } = transformPage(frame, i, pageSize, ctx);
 
     // Add root frame to nodes
     nodes[rootFrame.id] = rootFrame;
@@ -191,10 +348,11 @@ export function migrateFromLayout(
     // Transform child nodes of this frame
     const childNodes = frame.children ?? [];
 
-    // Parent dimensions for percentage calculations
+    // Parent dimensions for percentage calculations (the page is also the viewport)
     const parentDimensions = {
       width: rootFrame.width,
       height: rootFrame.height,
+      viewport: { width: rootFrame.width, height: rootFrame.height },
     };
 
     for (const childNode of childNodes) {
@@ -202,6 +360,7 @@ export function migrateFromLayout(
       if (childNode.type === 'localLayoutContent') {
         ctx.stats.totalSourceNodes++;
         ctx.stats.skippedNodes++;
+        recordSkippedNode(ctx, 'Absorbed by the page placeholder', childNode);
         continue;
       }
 
@@ -220,6 +379,9 @@ export function migrateFromLayout(
     pages.push(page);
   }
 
+  // 4.5. Order siblings by v1 zIndex on every page (preset pages included)
+  applyStacking(nodes, ctx);
+
   // 5. Assemble complete document
   const document: Document = {
     ...docShell,
@@ -233,7 +395,11 @@ export function migrateFromLayout(
   // Add validation warnings
   if (validation.warnings.length > 0) {
     for (const w of validation.warnings) {
-      warnings.push(`Validation: ${w.message} (${w.path})`);
+      warnings.push({
+        code: 'Validation',
+        severity: WARNING_SEVERITY.Validation,
+        message: `${w.message} (${w.path})`,
+      });
     }
   }
 
@@ -242,6 +408,35 @@ export function migrateFromLayout(
     validation,
     warnings,
     stats,
+    skippedNodes: ctx.skippedNodes ?? [],
     taxonomy: layout.taxonomy,
+    timings: {
+      fetchMs: 0,
+      fontSyncMs: 0,
+      imageSyncMs: 0,
+      assetCheckMs: 0,
+      transformMs: Date.now() - transformStart,
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Background image URLs whose v1 size/position/repeat needs the image's
+ * intrinsic size (see `needsImageSize`).
+ */
+function croppedImageUrls(layout: ProlibuLayout): string[] {
+  const urls: string[] = [];
+  const visit = (node: ProlibuNode) => {
+    const styles = node.styles?.backgroundImage ? parseNodeStyles(node.styles) : undefined;
+    if (styles?.backgroundImage && styles.background && needsImageSize(styles.background)) {
+      urls.push(styles.backgroundImage);
+    }
+    node.children?.forEach(visit);
   };
+  for (const page of layout.pages) page.children.forEach(visit);
+  return urls;
 }
@@ -0,0 +1,243 @@
+/**
+ * Run Manifest — persistent record of a `migrate-all` batch run.
+ *
+ * One entry per source template `_id` with its status, target `_id`/code,
+ * warnings count and timestamp. The manifest is rewritten after every
+ * template, so a run that dies halfway can be resumed with `--resume <path>`:
+ * completed templates are skipped and only failed/pending ones are retried.
+ */
+
+import { z } from 'zod';
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+
+// ═══════════════════════════════════════════════════════════════
+// SCHEMA + TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export const MANIFEST_VERSION = 1;
+
+const ManifestEntrySchema = z.object({
+  sourceId: z.string(),
+  sourceCode: z.string(),
+  name: z.string(),
+  templateType: z.string(),
+  status: z.enum(['pending', 'completed', 'failed']),
+  targetId: z.string().optional(),
+  targetCode: z.string(),
+  action: z.enum(['created', 'updated']).optional(),
+  warnings: z.number(),
+  error: z.string().optional(),
+  /** Source template was deactivated by `--hide-old` */
+  hidden: z.boolean().optional(),
+  updatedAt: z.string(),
+});
+
+export const RunManifestSchema = z.object({
+  version: z.literal(MANIFEST_VERSION),
+  from: z.string(),
+  to: z.string(),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+  options: z.object({
+    type: z.string(),
+    keepOriginalName: z.boolean(),
+    hideOld: z.boolean(),
+    updateProducts: z.boolean(),
+  }),
+  entries: z.record(ManifestEntrySchema),
+});
+
+export type ManifestEntry = z.infer<typeof ManifestEntrySchema>;
+export type ManifestEntryStatus = ManifestEntry['status'];
+export type RunManifest = z.infer<typeof RunManifestSchema>;
+
+/** Minimal template info needed to register a manifest entry */
+export interface ManifestTemplateRef {
+  _id: string;
+  contentTemplateName: string;
+  contentTemplateCode?: string;
+  templateType: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CREATE / UPDATE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create an empty manifest for a new batch run.
+ */
+export function createRunManifest(
+  from: string,
+  to: string,
+  options: RunManifest['options']
+): RunManifest {
+  const now = new Date().toISOString();
+  return {
+    version: MANIFEST_VERSION,
+    from,
+    to,
+    startedAt: now,
+    updatedAt: now,
+    options,
+    entries: {},
+  };
+}
+
+/**
+ * Register templates as `pending`. Entries that already exist are left untouched,
+ * so calling this on a resumed manifest keeps completed/failed statuses.
+ */
+export function registerPendingTemplates(
+  manifest: RunManifest,
+  templates: ManifestTemplateRef[],
+  keepOriginalName: boolean
+): void {
+  const now = new Date().toISOString();
+  for (const t of templates) {
+    if (manifest.entries[t._id]) continue;
+
+    const sourceCode = t.contentTemplateCode ?? t.contentTemplateName;
+    manifest.entries[t._id] = {
+      sourceId: t._id,
+      sourceCode,
+      name: t.contentTemplateName,
+      templateType: t.templateType,
+      status: 'pending',
+      targetCode: keepOriginalName ? sourceCode : `${sourceCode}-migrated`,
+      warnings: 0,
+      updatedAt: now,
+    };
+  }
+  manifest.updatedAt = now;
+}
+
+/**
+ * Mark a template as successfully migrated.
+ */
+export function recordCompleted(
+  manifest: RunManifest,
+  sourceId: string,
+  result: { targetId: string; action: 'created' | 'updated'; warnings: number }
+): void {
+  const entry = manifest.entries[sourceId];
+  if (!entry) return;
+
+  const now = new Date().toISOString();
+  entry.status = 'completed';
+  entry.targetId = result.targetId;
+  entry.action = result.action;
+  entry.warnings = result.warnings;
+  entry.error = undefined;
+  entry.updatedAt = now;
+  manifest.updatedAt = now;
+}
+
+/**
+ * Mark a template as failed (kept for retry on `--resume`).
+ */
+export function recordFailed(manifest: RunManifest, sourceId: string, error: string): void {
+  const entry = manifest.entries[sourceId];
+  if (!entry) return;
+
+  const now = new Date().toISOString();
+  entry.status = 'failed';
+  entry.error = error;
+  entry.updatedAt = now;
+  manifest.updatedAt = now;
+}
+
+/**
+ * Mark a source template as hidden by `--hide-old` (so rollback can un-hide it).
+ * Only for templates the run deactivated — not ones that were already inactive.
+ */
+export function recordHidden(manifest: RunManifest, sourceId: string): void {
+  const entry = manifest.entries[sourceId];
+  if (!entry) return;
+
+  const now = new Date().toISOString();
+  entry.hidden = true;
+  entry.updatedAt = now;
+  manifest.updatedAt = now;
+}
+
+/**
+ * Entries with a given status.
+ */
+export function getEntriesByStatus(
+  manifest: RunManifest,
+  status: ManifestEntryStatus
+): ManifestEntry[] {
+  return Object.values(manifest.entries).filter((e) => e.status === status);
+}
+
+/**
+ * Source IDs that still need work (failed or pending).
+ */
+export function getRetryableIds(manifest: RunManifest): Set<string> {
+  return new Set(
+    Object.values(manifest.entries)
+      .filter((e) => e.status !== 'completed')
+      .map((e) => e.sourceId)
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PERSISTENCE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Default manifest location: ./output/manifests/migrate-all_<from>_<to>_<timestamp>.json
+ */
+export function defaultManifestPath(manifest: RunManifest): string {
+  const stamp = manifest.startedAt.replace(/[:.]/g, '-');
+  return resolve(
+    'output',
+    'manifests',
+    `migrate-all_${manifest.from}_${manifest.to}_${stamp}.json`
+  );
+}
+
+/**
+ * Load and validate a manifest from disk.
+ */
+export async function loadRunManifest(path: string): Promise<RunManifest> {
+  const text = await readFile(path, 'utf-8');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`Manifest is not valid JSON: ${path}`);
+  }
+
+  const parsed = RunManifestSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid manifest structure in ${path}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Create a serialized writer for a manifest file.
+ *
+ * Templates finish concurrently, so writes are chained to avoid interleaving;
+ * each write goes to a temp file first and is renamed into place, so a crash
+ * mid-write never leaves a truncated manifest behind.
+ */
+export function createManifestWriter(path: string): (manifest: RunManifest) => Promise<void> {
+  let pending: Promise<void> = Promise.resolve();
+
+  return (manifest: RunManifest) => {
+    const snapshot = JSON.stringify(manifest, null, 2);
+    pending = pending
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        const tmpPath = `${path}.tmp`;
+        await writeFile(tmpPath, snapshot, 'utf-8');
+        await rename(tmpPath, path);
+      });
+    return pending;
+  };
+}
@@ -0,0 +1,419 @@
+/**
+ * HTML Report — static before/after page for one migrated template.
+ *
+ * Draws each v1 frame from `ProlibuNode.styles` (absolute boxes with colors,
+ * images and text) next to the v2 page built from the `Document` nodes, and
+ * outlines skipped nodes (red) and nodes with warnings (orange). The page is
+ * self-contained: inline CSS, no scripts, images referenced by their URL.
+ */
+
+import type { Document, Fill, RGBA, SceneNode, Stroke } from '@design-studio/schema';
+import type { MigrationResult } from '../pipeline/migrationPipeline.js';
+import type { ProlibuLayout, ProlibuNode } from '../types/prolibu.js';
+import type { SkippedNode } from '../transformers/nodeRouter.js';
+import {
+  childDimensions,
+  parseNodeStyles,
+  type ParentDimensions,
+} from '../converters/cssParser.js';
+import { tryParseColor } from '../converters/colorParser.js';
+import { formatWarning, type MigrationWarning } from '../types/migrationWarning.js';
+import { escapeXml as escapeHtml } from './migrationReport.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface HtmlReportInput {
+  layout: ProlibuLayout;
+  result: MigrationResult;
+  /** Where the v1 template came from (file path or `domain/id`) */
+  source?: string;
+}
+
+/** Skipped nodes and warnings indexed for the overlays */
+interface Overlays {
+  skippedByPath: Map<string, SkippedNode[]>;
+  warningsByPath: Map<string, MigrationWarning[]>;
+  warningsByTarget: Map<string, MigrationWarning[]>;
+}
+
+/** Frames/pages are drawn at this scale so both sides fit next to each other */
+const SCALE = 0.5;
+
+/** v1 frame size when its styles don't give one (US Letter at 96dpi) */
+const DEFAULT_FRAME = { width: 816, height: 1056 };
+
+// ═══════════════════════════════════════════════════════════════
+// PAGE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Render the full HTML document for one template.
+ */
+export function renderHtmlReport(input: HtmlReportInput): string {
+  const { layout, result } = input;
+  const overlays = indexOverlays(result);
+  const title = layout.contentTemplateName ?? layout.contentTemplateCode ?? 'Template';
+
+  const frames = layout.pages[0]?.children ?? [];
+  const pages = result.document.pages;
+  const rows: string[] = [];
+  for (let i = 0; i < Math.max(frames.length, pages.length); i++) {
+    const frame = frames[i];
+    const page = pages[i];
+    rows.push(`<section class="row">
+<div class="side"><h3>v1 · ${escapeHtml(frame?.name ?? '—')}</h3>${frame ? renderV1Frame(frame, overlays) : ''}</div>
+<div class="side"><h3>v2 · ${escapeHtml(page?.name ?? '—')}</h3>${page ? renderV2Page(page.rootId, result.document.nodes, overlays) : ''}</div>
+</section>`);
+  }
+
+  const { stats, validation } = result;
+  const status = validation.valid
+    ? '<span class="ok">valid</span>'
+    : `<span class="bad">invalid (${validation.errors.length} errors)</span>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} — migration report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>${[
+    layout.contentTemplateCode
+      ? `Code: <code>${escapeHtml(layout.contentTemplateCode)}</code>`
+      : '',
+    input.source ? `Source: <code>${escapeHtml(input.source)}</code>` : '',
+    `Validation: ${status}`,
+    `Nodes: ${stats.migratedNodes} migrated, ${stats.skippedNodes} skipped`,
+    `Warnings: ${result.warnings.length}`,
+  ]
+    .filter(Boolean)
+    .join(' · ')}</p>
+<p class="legend"><span class="swatch skipped"></span> skipped <span class="swatch warned"></span> warning</p>
+</header>
+${rows.join('\n')}
+${renderWarningTable(result.warnings)}
+${renderSkippedTable(result.skippedNodes)}
+</body>
+</html>
+`;
+}
+
+function indexOverlays(result: MigrationResult): Overlays {
+  const overlays: Overlays = {
+    skippedByPath: new Map(),
+    warningsByPath: new Map(),
+    warningsByTarget: new Map(),
+  };
+  for (const skipped of result.skippedNodes ?? []) {
+    pushTo(overlays.skippedByPath, skipped.path, skipped);
+  }
+  for (const warning of result.warnings) {
+    if (warning.sourceNode) pushTo(overlays.warningsByPath, warning.sourceNode.path, warning);
+    if (warning.targetNodeId) pushTo(overlays.warningsByTarget, warning.targetNodeId, warning);
+  }
+  return overlays;
+}
+
+function pushTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// V1 — ProlibuNode styles
+// ═══════════════════════════════════════════════════════════════
+
+function renderV1Frame(frame: ProlibuNode, overlays: Overlays): string {
+  const styles = parseNodeStyles(frame.styles);
+  const size: ParentDimensions = {
+    width: frame.styles?.width ? styles.width : DEFAULT_FRAME.width,
+    height: styles.heightAuto ? (styles.minHeight ?? DEFAULT_FRAME.height) : styles.height,
+  };
+  size.viewport = { width: size.width, height: size.height };
+
+  const css = [
+    `width:${size.width}px`,
+    `height:${size.height}px`,
+    `background-color:${cssColor(styles.backgroundColor) ?? '#fff'}`,
+    backgroundImageCss(styles.backgroundImage),
+  ];
+  const children = (frame.children ?? [])
+    .map((child) => renderV1Node(child, [frame.name], size, overlays))
+    .join('');
+
+  return canvas(size, css, children);
+}
+
+function renderV1Node(
+  node: ProlibuNode,
+  parentPath: string[],
+  parent: ParentDimensions,
+  overlays: Overlays
+): string {
+  const pathNames = [...parentPath, node.name];
+  const path = pathNames.join(' / ');
+  const styles = parseNodeStyles(node.styles, parent);
+  if (!styles.visible) return '';
+
+  const css = [
+    `left:${styles.x}px`,
+    `top:${styles.y}px`,
+    `width:${styles.width}px`,
+    `height:${styles.height}px`,
+    `opacity:${styles.opacity}`,
+    `z-index:${styles.zIndex}`,
+  ];
+  const bg = cssColor(styles.backgroundColor);
+  if (bg) css.push(`background-color:${bg}`);
+  css.push(backgroundImageCss(styles.backgroundImage));
+  for (const [side, border] of Object.entries(styles.borders ?? {})) {
+    css.push(
+      `border-${side}:${border.width}px ${border.style} ${cssColor(border.color) ?? '#000'}`
+    );
+  }
+  if (styles.borderRadius) css.push(`border-radius:${styles.borderRadius}px`);
+  if (styles.rotation) css.push(`transform:rotate(${styles.rotation}deg)`);
+  if (styles.cornerRadii) {
+    const { topLeft, topRight, bottomRight, bottomLeft } = styles.cornerRadii;
+    css.push(`border-radius:${topLeft}px ${topRight}px ${bottomRight}px ${bottomLeft}px`);
+  }
+
+  let inner = '';
+  switch (node.type) {
+    case 'localText':
+      css.push(...textCss(styles.color, styles.fontSize, styles.fontFamily));
+      inner = escapeHtml(htmlToText(node.content ?? node.value ?? ''));
+      break;
+    case 'localGroup':
+      inner = (node.children ?? [])
+        .map((child) => renderV1Node(child, pathNames, childDimensions(styles, parent), overlays))
+        .join('');
+      break;
+    case 'localRectangle':
+    case 'localLineHorizontal':
+      break;
+    default:
+      inner = `<span class="label">${escapeHtml(node.type)}</span>`;
+  }
+
+  const skipped = overlays.skippedByPath.get(path) ?? [];
+  const warnings = overlays.warningsByPath.get(path) ?? [];
+  return box(
+    node.type,
+    css,
+    inner,
+    [...skipped.map((s) => `Skipped: ${s.reason}`), ...warnings.map(formatWarning)],
+    skipped.length > 0 ? 'skipped' : warnings.length > 0 ? 'warned' : undefined
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// V2 — Document nodes
+// ═══════════════════════════════════════════════════════════════
+
+function renderV2Page(rootId: string, nodes: Document['nodes'], overlays: Overlays): string {
+  const root = nodes[rootId];
+  if (!root) return '<p class="bad">Missing root node</p>';
+
+  const css = [`width:${root.width}px`, `height:${root.height}px`, ...fillCss(root)];
+  if (root.type === 'FRAME') css.push(backgroundImageCss(root.backgroundImage));
+  const children = (root.children ?? [])
+    .map((id) => renderV2Node(nodes[id], nodes, overlays))
+    .join('');
+
+  return canvas({ width: root.width, height: root.height }, css, children);
+}
+
+function renderV2Node(
+  node: SceneNode | undefined,
+  nodes: Document['nodes'],
+  overlays: Overlays
+): string {
+  if (!node || !node.visible) return '';
+
+  const css = [
+    `left:${node.x}px`,
+    `top:${node.y}px`,
+    `width:${node.width}px`,
+    `height:${node.height}px`,
+    `opacity:${node.opacity}`,
+  ];
+  if (node.rotation) css.push(`transform:rotate(${node.rotation}deg)`);
+
+  let inner = '';
+  switch (node.type) {
+    case 'TEXT':
+      css.push(...fillCss(node, 'color'));
+      css.push(...textCss(undefined, node.fontSize, node.fontFamily));
+      inner = escapeHtml(node.characters);
+      break;
+    case 'RECTANGLE':
+      css.push(...fillCss(node), ...strokeCss(node.strokes));
+      if (node.cornerRadius) css.push(`border-radius:${node.cornerRadius}px`);
+      break;
+    case 'IMAGE':
+      css.push(backgroundImageCss(node.imageRef), ...strokeCss(node.strokes));
+      if (node.cornerRadius) css.push(`border-radius:${node.cornerRadius}px`);
+      if (!isDrawableUrl(node.imageRef)) {
+        inner = `<span class="label">${escapeHtml(node.imageRef)}</span>`;
+      }
+      break;
+    case 'LINE':
+      css.push(`height:0`, ...strokeCss(node.strokes, 'border-top'));
+      break;
+    case 'COMPONENT':
+      css.push('border:1px dashed #7a7a7a');
+      inner = `<span class="label">${escapeHtml(node.componentName)}</span>`;
+      break;
+    default:
+      css.push(...fillCss(node));
+      inner = (node.children ?? []).map((id) => renderV2Node(nodes[id], nodes, overlays)).join('');
+  }
+
+  const warnings = overlays.warningsByTarget.get(node.id) ?? [];
+  return box(
+    node.type,
+    css,
+    inner,
+    warnings.map(formatWarning),
+    warnings.length > 0 ? 'warned' : undefined
+  );
+}
+
+function fillCss(node: SceneNode, property = 'background-color'): string[] {
+  const fills: Fill[] = 'fills' in node && Array.isArray(node.fills) ? node.fills : [];
+  const solid = fills.find((f) => f.type === 'solid');
+  return solid && solid.type === 'solid'
+    ? [`${property}:${rgbaCss(solid.color, solid.opacity)}`]
+    : [];
+}
+
+function strokeCss(strokes: Stroke[] | undefined, property = 'border'): string[] {
+  const stroke = strokes?.[0];
+  return stroke ? [`${property}:${stroke.weight}px ${stroke.style} ${rgbaCss(stroke.color)}`] : [];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TABLES
+// ═══════════════════════════════════════════════════════════════
+
+function renderWarningTable(warnings: MigrationWarning[]): string {
+  if (warnings.length === 0) return '<h2>Warnings</h2><p>None.</p>';
+  const rows = warnings.map(
+    (w) =>
+      `<tr><td class="sev-${w.severity}">${w.severity}</td><td>${w.code}</td><td>${escapeHtml(w.message)}</td><td>${escapeHtml(w.sourceNode?.path ?? '')}</td></tr>`
+  );
+  return `<h2>Warnings</h2>
+<table><thead><tr><th>Severity</th><th>Code</th><th>Message</th><th>v1 node</th></tr></thead>
+<tbody>${rows.join('\n')}</tbody></table>`;
+}
+
+function renderSkippedTable(skippedNodes: SkippedNode[] = []): string {
+  if (skippedNodes.length === 0) return '<h2>Skipped nodes</h2><p>None.</p>';
+  const rows = skippedNodes.map(
+    (s) =>
+      `<tr><td>${escapeHtml(s.path)}</td><td>${escapeHtml(s.type)}</td><td>${escapeHtml(s.reason)}</td></tr>`
+  );
+  return `<h2>Skipped nodes</h2>
+<table><thead><tr><th>v1 node</th><th>Type</th><th>Reason</th></tr></thead>
+<tbody>${rows.join('\n')}</tbody></table>`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/** Scaled, clipped drawing area for a frame or page */
+function canvas(size: ParentDimensions, css: string[], children: string): string {
+  return `<div class="viewport" style="width:${size.width * SCALE}px;height:${size.height * SCALE}px"><div class="canvas" style="${styleAttr(css)}">${children}</div></div>`;
+}
+
+function box(
+  type: string,
+  css: string[],
+  inner: string,
+  notes: string[],
+  overlay?: 'skipped' | 'warned'
+): string {
+  const classes = ['node', overlay].filter(Boolean).join(' ');
+  const title = [type, ...notes].join('\n');
+  return `<div class="${classes}" style="${styleAttr(css)}" title="${escapeHtml(title)}">${inner}</div>`;
+}
+
+function styleAttr(css: string[]): string {
+  return escapeHtml(css.filter(Boolean).join(';'));
+}
+
+function textCss(color?: string, fontSize?: number, fontFamily?: string): string[] {
+  const css: string[] = [];
+  const parsed = cssColor(color);
+  if (parsed) css.push(`color:${parsed}`);
+  if (fontSize) css.push(`font-size:${fontSize}px`);
+  if (fontFamily && fontFamily !== 'inherit') {
+    css.push(`font-family:"${fontFamily.replace(/["\\]/g, '')}", sans-serif`);
+  }
+  return css;
+}
+
+/** Normalize a v1 CSS color through `tryParseColor` (drops anything that isn't a color) */
+function cssColor(value: string | undefined): string | undefined {
+  const result = value ? tryParseColor(value) : undefined;
+  return result?.ok ? rgbaCss(result.color) : undefined;
+}
+
+function rgbaCss(color: RGBA, opacity = 1): string {
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${+(color.a * opacity).toFixed(3)})`;
+}
+
+function backgroundImageCss(url: string | undefined): string {
+  if (!url || !isDrawableUrl(url)) return '';
+  const safe = url.replace(/["\\\n\r]/g, (c) => encodeURIComponent(c));
+  return `background-image:url("${safe}");background-size:cover;background-position:center`;
+}
+
+/** Real image URLs only — wildcards (`{{...}}`) can't be drawn offline */
+function isDrawableUrl(url: string): boolean {
+  return /^(https?:)?\/\//.test(url) || url.startsWith('data:image/');
+}
+
+/** v1 text content (Quill HTML) as plain text */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
+}
+
+const STYLES = `
+body{font-family:system-ui,sans-serif;margin:24px;color:#222;background:#f4f4f5}
+header p{margin:4px 0}
+code{background:#e4e4e7;padding:0 4px;border-radius:3px}
+.ok{color:#15803d;font-weight:600}.bad{color:#b91c1c;font-weight:600}
+.row{display:flex;gap:32px;margin:24px 0;align-items:flex-start}
+.side h3{font-size:14px;margin:0 0 8px}
+.viewport{overflow:hidden;box-shadow:0 1px 4px rgba(0,0,0,.25);background:#fff}
+.canvas{position:relative;overflow:hidden;transform:scale(${SCALE});transform-origin:0 0;background-repeat:no-repeat}
+.node{position:absolute;box-sizing:border-box;overflow:hidden;white-space:pre-wrap;background-repeat:no-repeat;line-height:1.2}
+.node.skipped{outline:3px solid #dc2626;background-color:rgba(220,38,38,.15)}
+.node.warned{outline:3px solid #f97316}
+.label{font:12px monospace;color:#555;background:rgba(255,255,255,.8);padding:1px 3px}
+.legend .swatch{display:inline-block;width:12px;height:12px;vertical-align:middle;margin-left:12px}
+.swatch.skipped{outline:3px solid #dc2626}.swatch.warned{outline:3px solid #f97316}
+table{border-collapse:collapse;background:#fff;font-size:13px}
+td,th{border:1px solid #d4d4d8;padding:4px 8px;text-align:left;vertical-align:top}
+.sev-error{color:#b91c1c}.sev-warning{color:#c2410c}.sev-info{color:#555}
+`;
@@ -0,0 +1,321 @@
+/**
+ * Migration Report — machine-readable output of `migrate`, `transfer` and
+ * `migrate-all` for CI (`--report <path>` JSON, `--junit <path>` JUnit XML).
+ *
+ * One entry per template with stats, warnings grouped by code, validation
+ * errors with paths, font and image sync results (with the bytes saved by
+ * extracting data URIs), upsert action and timings. In the JUnit output each
+ * template is a test case that fails on validation errors (or `--fail-on`
+ * warnings) and errors when the pipeline or upload threw.
+ */
+
+import { writeFile, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { ValidationResult } from '@design-studio/schema';
+import type { MigrationResult, MigrationTimings } from '../pipeline/migrationPipeline.js';
+import type { MigrationStats } from '../transformers/nodeRouter.js';
+import type { FontSyncResult } from '../assets/fontMigrator.js';
+import type { DataUriExtractionResult, ImageSyncResult } from '../assets/imageMigrator.js';
+import type { AssetCheckResult } from '../assets/assetChecker.js';
+import {
+  formatWarning,
+  type MigrationWarning,
+  type MigrationWarningCode,
+  type WarningSeverity,
+} from '../types/migrationWarning.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export const REPORT_VERSION = 1;
+
+export type TemplateReportStatus = 'passed' | 'failed' | 'error';
+
+export interface TemplateReportTimings extends MigrationTimings {
+  /** Upload / upsert to the destination (0 when nothing was uploaded) */
+  uploadMs: number;
+  totalMs: number;
+}
+
+export interface TemplateReport {
+  sourceId: string;
+  name: string;
+  templateType?: string;
+  /**
+   * `passed` = valid document, `failed` = validation errors or `--fail-on` warnings,
+   * `error` = pipeline/upload threw
+   */
+  status: TemplateReportStatus;
+  action?: 'created' | 'updated';
+  targetId?: string;
+  targetCode?: string;
+  stats?: MigrationStats;
+  warnings: {
+    total: number;
+    bySeverity: Record<WarningSeverity, number>;
+    byCode: Partial<Record<MigrationWarningCode, MigrationWarning[]>>;
+  };
+  /** Warnings that matched `--fail-on` */
+  failedOn?: MigrationWarning[];
+  validation?: {
+    valid: boolean;
+    errors: ValidationResult['errors'];
+    warnings: ValidationResult['warnings'];
+  };
+  fontSync?: Omit<FontSyncResult, 'fontMap' | 'fontMetrics' | 'fontFaces'>;
+  imageSync?: Omit<ImageSyncResult, 'urlMap'>;
+  /** Inline data URI images extracted to files, with the payload bytes saved */
+  dataUris?: DataUriExtractionResult;
+  /** Broken and mixed-content asset links (`--check-assets`) */
+  assetCheck?: AssetCheckResult;
+  error?: string;
+  timings?: TemplateReportTimings;
+}
+
+/** Upsert outcome of a template (empty when nothing was uploaded) */
+export interface TemplateUploadInfo {
+  action?: 'created' | 'updated';
+  targetId?: string;
+  targetCode?: string;
+  uploadMs?: number;
+}
+
+export interface MigrationReport {
+  version: typeof REPORT_VERSION;
+  command: 'migrate' | 'transfer' | 'migrate-all';
+  from?: string;
+  to?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  summary: { total: number; passed: number; failed: number; errors: number };
+  templates: TemplateReport[];
+}
+
+export interface ReportPaths {
+  /** JSON report path (`--report`) */
+  report?: string;
+  /** JUnit XML path (`--junit`) */
+  junit?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// BUILD
+// ═══════════════════════════════════════════════════════════════
+
+export function createMigrationReport(
+  command: MigrationReport['command'],
+  accounts: { from?: string; to?: string } = {}
+): MigrationReport {
+  return {
+    version: REPORT_VERSION,
+    command,
+    ...accounts,
+    startedAt: new Date().toISOString(),
+    summary: { total: 0, passed: 0, failed: 0, errors: 0 },
+    templates: [],
+  };
+}
+
+/**
+ * Summarize warnings: total, count per severity and the warnings grouped by code.
+ */
+export function summarizeWarnings(warnings: MigrationWarning[]): TemplateReport['warnings'] {
+  const bySeverity: Record<WarningSeverity, number> = { info: 0, warning: 0, error: 0 };
+  const byCode: TemplateReport['warnings']['byCode'] = {};
+  for (const w of warnings) {
+    bySeverity[w.severity]++;
+    (byCode[w.code] ??= []).push(w);
+  }
+  return { total: warnings.length, bySeverity, byCode };
+}
+
+/**
+ * Report entry for a template that went through the pipeline.
+ */
+export function buildTemplateReport(
+  template: { sourceId: string; name: string; templateType?: string },
+  result: MigrationResult,
+  upload: TemplateUploadInfo = {},
+  failingWarnings: MigrationWarning[] = []
+): TemplateReport {
+  const uploadMs = upload.uploadMs ?? 0;
+  const fontSync = result.fontSync
+    ? {
+        fontIds: result.fontSync.fontIds,
+        uploaded: result.fontSync.uploaded,
+        skipped: result.fontSync.skipped,
+        failed: result.fontSync.failed,
+      }
+    : undefined;
+  const imageSync = result.imageSync
+    ? {
+        uploaded: result.imageSync.uploaded,
+        reused: result.imageSync.reused,
+        failed: result.imageSync.failed,
+      }
+    : undefined;
+
+  return {
+    ...template,
+    status: result.validation.valid && failingWarnings.length === 0 ? 'passed' : 'failed',
+    failedOn: failingWarnings.length > 0 ? failingWarnings : undefined,
+    action: upload.action,
+    targetId: upload.targetId,
+    targetCode: upload.targetCode,
+    stats: result.stats,
+    warnings: summarizeWarnings(result.warnings),
+    validation: {
+      valid: result.validation.valid,
+      errors: result.validation.errors,
+      warnings: result.validation.warnings,
+    },
+    fontSync,
+    imageSync,
+    dataUris: result.dataUris,
+    assetCheck: result.assetCheck,
+    timings: {
+      ...result.timings,
+      uploadMs,
+      totalMs:
+        result.timings.fetchMs +
+        result.timings.fontSyncMs +
+        result.timings.imageSyncMs +
+        result.timings.assetCheckMs +
+        result.timings.transformMs +
+        uploadMs,
+    },
+  };
+}
+
+/**
+ * Report entry for a template whose pipeline or upload threw.
+ */
+export function buildErrorTemplateReport(
+  template: { sourceId: string; name: string; templateType?: string },
+  error: unknown,
+  result?: MigrationResult
+): TemplateReport {
+  const message = error instanceof Error ? error.message : String(error);
+  if (result) {
+    return { ...buildTemplateReport(template, result), status: 'error', error: message };
+  }
+  return {
+    ...template,
+    status: 'error',
+    warnings: summarizeWarnings([]),
+    error: message,
+  };
+}
+
+export function addTemplateReport(report: MigrationReport, entry: TemplateReport): void {
+  report.templates.push(entry);
+  report.summary.total++;
+  if (entry.status === 'passed') report.summary.passed++;
+  else if (entry.status === 'failed') report.summary.failed++;
+  else report.summary.errors++;
+}
+
+export function finalizeReport(report: MigrationReport): void {
+  const now = new Date();
+  report.finishedAt = now.toISOString();
+  report.durationMs = now.getTime() - new Date(report.startedAt).getTime();
+}
+
+// ═══════════════════════════════════════════════════════════════
+// JUNIT
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Render the report as JUnit XML: one test suite per run, one test case per template.
+ */
+export function renderJUnitXml(report: MigrationReport): string {
+  const { summary } = report;
+  const suiteName = ['layout-migrator', report.command, report.from, report.to]
+    .filter(Boolean)
+    .join(' ');
+  const seconds = (ms = 0) => (ms / 1000).toFixed(3);
+
+  const cases = report.templates.map((t) => {
+    const attrs = `classname="${escapeXml(t.templateType ?? 'template')}" name="${escapeXml(`${t.name} (${t.sourceId})`)}" time="${seconds(t.timings?.totalMs)}"`;
+    const body: string[] = [];
+
+    if (t.status === 'error') {
+      body.push(
+        `      <error message="${escapeXml(t.error ?? 'Migration failed')}" type="MigrationError"/>`
+      );
+    } else if (t.status === 'failed') {
+      const errors = t.validation?.errors ?? [];
+      if (errors.length > 0) {
+        const details = errors.map((e) => `${e.message} (${e.path}) [${e.code}]`).join('\n');
+        body.push(
+          `      <failure message="${errors.length} validation error(s)" type="ValidationError">${escapeXml(details)}</failure>`
+        );
+      }
+      if (t.failedOn) {
+        const codes = [...new Set(t.failedOn.map((w) => w.code))].join(', ');
+        const details = t.failedOn.map(formatWarning).join('\n');
+        body.push(
+          `      <failure message="${escapeXml(`fail-on warnings: ${codes}`)}" type="WarningFailure">${escapeXml(details)}</failure>`
+        );
+      }
+    }
+
+    const warnings = Object.values(t.warnings.byCode).flat();
+    if (warnings.length > 0) {
+      body.push(
+        `      <system-out>${escapeXml(warnings.map(formatWarning).join('\n'))}</system-out>`
+      );
+    }
+
+    return body.length === 0
+      ? `    <testcase ${attrs}/>`
+      : `    <testcase ${attrs}>\n${body.join('\n')}\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="layout-migrator" tests="${summary.total}" failures="${summary.failed}" errors="${summary.errors}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${summary.total}" failures="${summary.failed}" errors="${summary.errors}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ═══════════════════════════════════════════════════════════════
+// WRITE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Finalize and write the report to the requested paths (no-op if none).
+ */
+export async function writeReportFiles(report: MigrationReport, paths: ReportPaths): Promise<void> {
+  if (!paths.report && !paths.junit) return;
+  finalizeReport(report);
+
+  if (paths.report) {
+    const path = resolve(paths.report);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`\n📄 Report saved to: ${path}`);
+  }
+
+  if (paths.junit) {
+    const path = resolve(paths.junit);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, renderJUnitXml(report), 'utf-8');
+    console.log(`📄 JUnit report saved to: ${path}`);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Warning filter — CLI options `--warn-level`, `--ignore-warning` and `--fail-on`.
+ *
+ *  - `--warn-level <level>`     only show/report warnings at or above a severity
+ *  - `--ignore-warning <code>`  drop a code entirely (also never fails the run)
+ *  - `--fail-on <list>`         codes or severities that make the command exit 2
+ */
+
+import {
+  SEVERITY_RANK,
+  WARNING_CODES,
+  type MigrationWarning,
+  type WarningSeverity,
+} from '../types/migrationWarning.js';
+
+export interface WarningFilter {
+  minSeverity: WarningSeverity;
+  ignore: Set<string>;
+  /** Codes and/or severities that fail the run */
+  failOn: Set<string>;
+}
+
+export interface WarningFilterCliOptions {
+  warnLevel?: string;
+  ignoreWarning?: string[];
+  failOn?: string;
+}
+
+/**
+ * Parse and validate the CLI options.
+ *
+ * @throws Error on an unknown severity or warning code (typos must not silently pass CI)
+ */
+export function createWarningFilter(opts: WarningFilterCliOptions): WarningFilter {
+  const minSeverity = (opts.warnLevel ?? 'info') as WarningSeverity;
+  if (!Object.hasOwn(SEVERITY_RANK, minSeverity)) {
+    throw new Error(
+      `Invalid --warn-level "${opts.warnLevel}". Use: ${Object.keys(SEVERITY_RANK).join(', ')}`
+    );
+  }
+
+  const ignore = new Set(splitList(opts.ignoreWarning ?? []));
+  const failOn = new Set(splitList(opts.failOn ? [opts.failOn] : []));
+
+  const known = new Set<string>(WARNING_CODES);
+  for (const code of ignore) {
+    if (!known.has(code)) throw unknownCode('--ignore-warning', code);
+  }
+  for (const item of failOn) {
+    if (!known.has(item) && !Object.hasOwn(SEVERITY_RANK, item))
+      throw unknownCode('--fail-on', item);
+  }
+
+  return { minSeverity, ignore, failOn };
+}
+
+/**
+ * Warnings to show and report: not ignored and at or above the minimum severity.
+ */
+export function filterWarnings(
+  warnings: MigrationWarning[],
+  filter: WarningFilter
+): MigrationWarning[] {
+  const min = SEVERITY_RANK[filter.minSeverity];
+  return warnings.filter((w) => !filter.ignore.has(w.code) && SEVERITY_RANK[w.severity] >= min);
+}
+
+/**
+ * Warnings that fail the run: not ignored, and matching a `--fail-on` code or severity
+ * (regardless of `--warn-level`).
+ */
+export function findFailingWarnings(
+  warnings: MigrationWarning[],
+  filter: WarningFilter
+): MigrationWarning[] {
+  if (filter.failOn.size === 0) return [];
+  return warnings.filter(
+    (w) =>
+      !filter.ignore.has(w.code) && (filter.failOn.has(w.code) || filter.failOn.has(w.severity))
+  );
+}
+
+function splitList(values: string[]): string[] {
+  return values
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function unknownCode(flag: string, code: string): Error {
+  return new Error(
+    `Unknown warning code for ${flag}: "${code}". Known: ${WARNING_CODES.join(', ')}`
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * Component Props — per-plugin migration of v1 `comCompConfig` props to the
+ * props the v2 plugin expects.
+ *
+ * Each entry has:
+ *  - `transform` — known v1 → v2 renames and type changes (applied first); a v1
+ *                  prop whose v2 name is also set is dropped and reported
+ *  - `schema`    — the known v2 props; props that fail their schema are
+ *                  dropped, props not in the schema are kept as-is (the schema
+ *                  may not list every prop the plugin reads), both reported as issues
+ *
+ * Plugins without an entry keep their props as-is.
+ */
+
+import { z } from 'zod';
+import type { TransformContext } from './nodeRouter.js';
+import { addWarning } from './warnings.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+type Props = Record<string, unknown>;
+
+export interface PropMigration {
+  transform?: (props: Props, issues: PropIssue[]) => Props;
+  schema: z.AnyZodObject;
+}
+
+export interface PropIssue {
+  prop: string;
+  kind: 'unknown' | 'invalid';
+  message: string;
+}
+
+export interface PropMigrationResult {
+  props: Props;
+  issues: PropIssue[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PLUGIN SCHEMAS
+// ═══════════════════════════════════════════════════════════════
+
+/** v1 stored some booleans and numbers as strings ("true", "3") */
+const looseBoolean = z.preprocess(
+  (v) => (v === 'true' ? true : v === 'false' ? false : v),
+  z.boolean()
+);
+const looseInt = z.preprocess(
+  (v) => (typeof v === 'string' && /^\d+$/.test(v.trim()) ? Number(v) : v),
+  z.number().int().positive()
+);
+
+/** v1 allowed a comma-separated string where v2 expects a list */
+function toList(value: unknown): unknown {
+  return typeof value === 'string'
+    ? value
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+    : value;
+}
+
+/** Rename a v1 prop; when the v2 name is also set, the v2 value wins and the v1 one is reported */
+function rename(props: Props, from: string, to: string, issues: PropIssue[]): void {
+  if (!(from in props)) return;
+  if (to in props) issues.push(conflict(from, to));
+  else props[to] = props[from];
+  delete props[from];
+}
+
+function conflict(from: string, to: string): PropIssue {
+  return { prop: from, kind: 'invalid', message: `"${to}" is also set (v2 name) and wins` };
+}
+
+export const PROP_MIGRATIONS: Record<string, PropMigration> = {
+  'com-quote': {
+    transform: (props, issues) => {
+      const out = { ...props };
+      // v1: summary: { show: true } → v2: showSummary: true
+      if (out.summary && typeof out.summary === 'object' && 'show' in out.summary) {
+        if ('showSummary' in out) issues.push(conflict('summary', 'showSummary'));
+        else out.showSummary = (out.summary as { show: unknown }).show;
+        delete out.summary;
+      }
+      if ('columns' in out) out.columns = toList(out.columns);
+      return out;
+    },
+    schema: z.object({
+      title: z.string(),
+      columns: z.array(z.string()),
+      showSummary: looseBoolean,
+      showPaymentPlan: looseBoolean,
+      showTaxes: looseBoolean,
+      showDiscounts: looseBoolean,
+      currency: z.string().length(3),
+    }),
+  },
+
+  'com-payment-plan': {
+    transform: (props, issues) => {
+      const out = { ...props };
+      rename(out, 'payments', 'installments', issues);
+      rename(out, 'showPercent', 'showPercentages', issues);
+      return out;
+    },
+    schema: z.object({
+      title: z.string(),
+      installments: looseInt,
+      showDates: looseBoolean,
+      showPercentages: looseBoolean,
+    }),
+  },
+
+  'com-accordion': {
+    transform: (props, issues) => {
+      const out = { ...props };
+      rename(out, 'openFirst', 'expandFirst', issues);
+      // v1 items: { title, content } → v2 items: { title, body }
+      if (Array.isArray(out.items)) {
+        out.items = out.items.map((item: unknown) => {
+          if (!item || typeof item !== 'object') return item;
+          const { content, ...rest } = item as Props;
+          return content !== undefined && !('body' in rest) ? { ...rest, body: content } : item;
+        });
+      }
+      return out;
+    },
+    schema: z.object({
+      title: z.string(),
+      items: z.array(z.object({ title: z.string(), body: z.string() })),
+      allowMultiple: looseBoolean,
+      expandFirst: looseBoolean,
+    }),
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════
+// MIGRATION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Migrate v1 props for a plugin: apply the known transforms, then validate each
+ * prop against the v2 schema on its own, so one bad value doesn't drop the rest.
+ * Props the schema doesn't list pass through unchanged.
+ */
+export function migrateComponentProps(pluginId: string, props: Props): PropMigrationResult {
+  const migration = Object.hasOwn(PROP_MIGRATIONS, pluginId) ? PROP_MIGRATIONS[pluginId] : null;
+  if (!migration) return { props, issues: [] };
+
+  const issues: PropIssue[] = [];
+  const transformed = migration.transform ? migration.transform(props, issues) : props;
+  const shape = migration.schema.shape as Record<string, z.ZodTypeAny>;
+  const result: Props = {};
+
+  for (const [key, value] of Object.entries(transformed)) {
+    const propSchema = shape[key];
+    if (!propSchema) {
+      result[key] = value;
+      issues.push({ prop: key, kind: 'unknown', message: 'not in the v2 prop schema' });
+      continue;
+    }
+
+    const parsed = propSchema.safeParse(value);
+    if (parsed.success) {
+      result[key] = parsed.data;
+    } else {
+      const reason = parsed.error.issues[0]?.message ?? 'invalid value';
+      const where = parsed.error.issues[0]?.path.length
+        ? ` at ${parsed.error.issues[0].path.join('.')}`
+        : '';
+      issues.push({ prop: key, kind: 'invalid', message: `${reason}${where}` });
+    }
+  }
+
+  return { props: result, issues };
+}
+
+/**
+ * Migrate props and record an `UnknownProp` / `InvalidProp` warning per issue.
+ */
+export function migrateComponentPropsWithWarnings(
+  pluginId: string,
+  props: Props,
+  ctx: TransformContext,
+  targetNodeId: string
+): Props {
+  const result = migrateComponentProps(pluginId, props);
+  for (const issue of result.issues) {
+    addWarning(
+      ctx,
+      issue.kind === 'unknown' ? 'UnknownProp' : 'InvalidProp',
+      `"${pluginId}" prop "${issue.prop}": ${issue.message} — ${issue.kind === 'unknown' ? 'kept as-is' : 'dropped'}`,
+      { targetNodeId }
+    );
+  }
+  return result.props;
+}
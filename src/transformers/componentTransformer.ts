@@ -1,44 +1,30 @@
 /**
  * Component Transformer — converts Prolibu localGroup + localCom
- * into Design Studio FrameNode (wrapper) + ComponentNode (child).
+ * into a Design Studio ComponentNode.
+ *
+ * Groups without a localCom descendant are plain containers and go to
+ * `transformGroup` (FrameNode + children).
  */
 
-import { createFrameNode, generateId } from '@design-studio/schema';
-import type { SceneNode, ComponentNode, FrameNode } from '@design-studio/schema';
+import { generateId } from '@design-studio/schema';
+import type { SceneNode, ComponentNode } from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import type { TransformContext } from './nodeRouter.js';
 import { parseNodeStyles, type ParentDimensions } from '../converters/cssParser.js';
-
-// ═══════════════════════════════════════════════════════════════
-// PLUGIN MAP
-// ═══════════════════════════════════════════════════════════════
-
-const PLUGIN_MAP: Record<string, { pluginId: string; componentName: string }> = {
-  comProposalHeader: { pluginId: 'com-proposal-header', componentName: 'Proposal Header' },
-  comAgent: { pluginId: 'com-agent', componentName: 'Agent Info' },
-  comQuote: { pluginId: 'com-quote', componentName: 'Price Quote' },
-  comQuickProposalApproval: {
-    pluginId: 'com-quick-proposal-approval',
-    componentName: 'Quick Approval',
-  },
-  comRate: { pluginId: 'com-rate', componentName: 'Rating' },
-  comAccordion: { pluginId: 'com-accordion', componentName: 'Accordion' },
-  comPaymentPlan: { pluginId: 'com-payment-plan', componentName: 'Payment Plan' },
-  comAttachment: { pluginId: 'com-attachment', componentName: 'Attachment' },
-  // Render-only (not editable in canvas, but rendered by doc-render)
-  comAvatar: { pluginId: 'com-avatar', componentName: 'Avatar' },
-  comSign: { pluginId: 'com-sign', componentName: 'Signature' },
-  comAgreementSignature: {
-    pluginId: 'com-agreement-signature',
-    componentName: 'Agreement Signature',
-  },
-};
-
-const RENDER_ONLY_COMPONENTS = new Set(['comAvatar', 'comSign', 'comAgreementSignature']);
+import { addWarning } from './warnings.js';
+import { DEFAULT_COMPONENT_MAP, mapComponentProps } from '../config/componentMap.js';
+import { migrateComponentPropsWithWarnings } from './componentProps.js';
+import { transformGroup } from './groupTransformer.js';
+import {
+  reportUnresolvedLengths,
+  resolveBlendMode,
+  resolveEffects,
+  resolveRotation,
+} from './styleHelpers.js';
 
 /**
  * Transform a Prolibu localGroup (with comCompConfig) + its localCom child
- * into a FrameNode wrapper + ComponentNode child.
+ * into a ComponentNode, or a plain localGroup into a FrameNode hierarchy.
  *
  * @param groupNode The source Prolibu localGroup node
  * @param parentId ID of the parent frame
@@ -58,30 +44,35 @@ export function transformComponent(
   const { localCom, configNode } = findLocalComRecursive(groupNode);
 
   if (!localCom) {
-    ctx.warnings.push(`MissingLocalCom: localGroup "${groupNode.name}" has no localCom descendant`);
-    // Return just the frame wrapper with no component
-    ctx.stats.frameNodes++;
-    return [createWrapper(groupNode, parentId, styles)];
+    // Plain container: keep it as a frame with its children
+    const nodes = transformGroup(groupNode, parentId, ctx, parentDimensions);
+    if (Object.keys(groupNode.comCompConfig ?? {}).length > 0) {
+      addWarning(
+        ctx,
+        'MissingLocalCom',
+        `localGroup "${groupNode.name}" has comCompConfig but no localCom descendant — migrated as a frame`,
+        { targetNodeId: nodes[0].id }
+      );
+    }
+    return nodes;
   }
 
   // Extract component name: "--comQuote" → "comQuote"
   const comName = localCom.name.replace(/^--/, '');
 
-  // Look up plugin
-  const pluginInfo = PLUGIN_MAP[comName];
+  // Look up plugin (built-in map, or the account's --component-map)
+  const componentMap = ctx.componentMap ?? DEFAULT_COMPONENT_MAP;
+  const pluginInfo = Object.hasOwn(componentMap, comName) ? componentMap[comName] : undefined;
   if (!pluginInfo) {
-    ctx.warnings.push(
-      `UnknownComponent: "${comName}" from localCom "${localCom.name}" has no known plugin mapping`
-    );
     // Still create a fallback component
-    return createFallbackComponent(groupNode, comName, parentId, styles, ctx);
-  }
-
-  // Warn about render-only components
-  if (RENDER_ONLY_COMPONENTS.has(comName)) {
-    ctx.warnings.push(
-      `RenderOnlyComponent: "${comName}" is not editable in canvas but will render in export`
+    const fallback = createFallbackComponent(groupNode, comName, parentId, styles, ctx);
+    addWarning(
+      ctx,
+      'UnknownComponent',
+      `"${comName}" from localCom "${localCom.name}" has no known plugin mapping`,
+      { targetNodeId: fallback[0]?.id }
     );
+    return fallback;
   }
 
   // Extract props from the nearest node with comCompConfig
@@ -89,12 +80,19 @@ export function transformComponent(
   const comCompConfig = configNode?.comCompConfig ?? groupNode.comCompConfig ?? {};
   const props = (comCompConfig[comName] as Record<string, unknown>) ?? {};
 
-  // Filter out $configs (UI hints from old editor)
-  const cleanProps = filterProps(props);
-
   // Create component node directly (no wrapper - V2 native style)
   // Position comes from the localGroup styles
   const componentId = generateId();
+  reportUnresolvedLengths(ctx, styles, { targetNodeId: componentId });
+
+  // Filter out $configs (UI hints from old editor), apply the account's
+  // renames/defaults, then migrate to the plugin's v2 props
+  const cleanProps = migrateComponentPropsWithWarnings(
+    pluginInfo.pluginId,
+    mapComponentProps(filterProps(props), pluginInfo),
+    ctx,
+    componentId
+  );
   const component: ComponentNode = {
     type: 'COMPONENT',
     id: componentId,
@@ -105,12 +103,13 @@ export function transformComponent(
     y: styles.y,
     width: styles.width,
     height: styles.height,
-    rotation: 0,
+    rotation: resolveRotation(ctx, styles, { targetNodeId: componentId }),
     visible: styles.visible,
     locked: false,
     opacity: styles.opacity,
-    constraints: { horizontal: 'left', vertical: 'top' },
-    blendMode: 'normal',
+    constraints: styles.constraints,
+    blendMode: resolveBlendMode(ctx, styles, { targetNodeId: componentId }),
+    effects: resolveEffects(ctx, styles, { targetNodeId: componentId }),
     pluginData: {},
     pluginId: pluginInfo.pluginId,
     componentName: pluginInfo.componentName,
@@ -119,34 +118,21 @@ export function transformComponent(
     fallbackRender: 'placeholder',
   };
 
+  // Warn about render-only components
+  if (pluginInfo.renderOnly) {
+    addWarning(
+      ctx,
+      'RenderOnlyComponent',
+      `"${comName}" is not editable in canvas but will render in export`,
+      { targetNodeId: componentId }
+    );
+  }
+
   ctx.stats.componentNodes++;
 
   return [component];
 }
 
-/**
- * Create a wrapper FrameNode for the localGroup.
- */
-function createWrapper(
-  node: ProlibuNode,
-  parentId: string,
-  styles: ReturnType<typeof parseNodeStyles>
-): FrameNode {
-  return createFrameNode({
-    id: generateId(),
-    name: node.name || 'Component Wrapper',
-    parentId,
-    x: styles.x,
-    y: styles.y,
-    width: styles.width,
-    height: styles.height,
-    visible: styles.visible,
-    opacity: styles.opacity,
-    fills: [],
-    clipContent: false,
-  });
-}
-
 /**
  * Create a fallback component for unknown plugin types.
  * No wrapper - component has position directly (V2 native style).
@@ -165,6 +151,7 @@ function createFallbackComponent(
     .replace(/^-/, '');
 
   const componentId = generateId();
+  reportUnresolvedLengths(ctx, styles, { targetNodeId: componentId });
   const component: ComponentNode = {
     type: 'COMPONENT',
     id: componentId,
@@ -175,12 +162,13 @@ function createFallbackComponent(
     y: styles.y,
     width: styles.width,
     height: styles.height,
-    rotation: 0,
+    rotation: resolveRotation(ctx, styles, { targetNodeId: componentId }),
     visible: styles.visible,
     locked: false,
     opacity: styles.opacity,
-    constraints: { horizontal: 'left', vertical: 'top' },
-    blendMode: 'normal',
+    constraints: styles.constraints,
+    blendMode: resolveBlendMode(ctx, styles, { targetNodeId: componentId }),
+    effects: resolveEffects(ctx, styles, { targetNodeId: componentId }),
     pluginData: {},
     pluginId,
     componentName: comName,
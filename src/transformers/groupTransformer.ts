@@ -0,0 +1,129 @@
+/**
+ * Group Transformer — converts a Prolibu localGroup that is not a component
+ * (no localCom descendant) into a Design Studio FrameNode with its children.
+ *
+ * v1 group children are positioned inside the group, so their coordinates are
+ * already relative to it; each child is routed through `routeNode` with the
+ * group's size as the parent dimensions (for percentages).
+ *
+ * A `transform: scale()` on the group would have to scale every descendant
+ * too; the frame keeps its unscaled size instead (around the same center) and
+ * an `UnsupportedTransform` warning is recorded.
+ */
+
+import { createFrameNode, generateId } from '@design-studio/schema';
+import type { SceneNode, FrameNode, Fill } from '@design-studio/schema';
+import type { ProlibuNode } from '../types/prolibu.js';
+import { routeNode, type TransformContext } from './nodeRouter.js';
+import {
+  childDimensions,
+  parseNodeStyles,
+  type ParentDimensions,
+  type ParsedStyles,
+} from '../converters/cssParser.js';
+import { convertWildcards } from '../converters/wildcardConverter.js';
+import {
+  reportUnresolvedLengths,
+  resolveColor,
+  resolveFrameBackgroundSize,
+  resolveGradientFills,
+  resolveRotation,
+} from './styleHelpers.js';
+import { addWarning } from './warnings.js';
+
+/**
+ * Transform a plain localGroup into a FrameNode + its transformed descendants.
+ * Returns the frame first, then every node created for its subtree.
+ *
+ * @param groupNode The source Prolibu localGroup node
+ * @param parentId ID of the parent frame
+ * @param ctx Transform context
+ * @param parentDimensions Optional parent dimensions for percentage-based sizing
+ */
+export function transformGroup(
+  groupNode: ProlibuNode,
+  parentId: string,
+  ctx: TransformContext,
+  parentDimensions?: ParentDimensions
+): SceneNode[] {
+  const id = generateId();
+  const styles = unscaleGroup(ctx, parseNodeStyles(groupNode.styles, parentDimensions), id);
+
+  const fills: Fill[] = [];
+  const backgroundColor = styles.backgroundColor
+    ? resolveColor(ctx, styles.backgroundColor, 'backgroundColor', {
+        targetNodeId: id,
+        currentColor: styles.color,
+      })
+    : undefined;
+  if (backgroundColor) {
+    fills.push({ type: 'solid', color: backgroundColor, opacity: 1 });
+  }
+  fills.push(
+    ...resolveGradientFills(ctx, styles.backgroundGradients, styles, { targetNodeId: id })
+  );
+  const backgroundImage = styles.backgroundImage
+    ? convertWildcards(styles.backgroundImage)
+    : undefined;
+
+  reportUnresolvedLengths(ctx, styles, { targetNodeId: id });
+  const frame: FrameNode = createFrameNode({
+    id,
+    name: groupNode.name || 'Group',
+    parentId,
+    x: styles.x,
+    y: styles.y,
+    width: styles.width,
+    height: styles.height,
+    rotation: resolveRotation(ctx, styles, { targetNodeId: id }),
+    constraints: styles.constraints,
+    visible: styles.visible,
+    opacity: styles.opacity,
+    fills,
+    backgroundImage,
+    backgroundSize: backgroundImage
+      ? resolveFrameBackgroundSize(ctx, styles, { targetNodeId: id })
+      : undefined,
+    clipContent: groupNode.styles?.overflow === 'hidden',
+  });
+  ctx.stats.frameNodes++;
+
+  const dimensions = childDimensions(styles, parentDimensions);
+  const nodes: SceneNode[] = [frame];
+
+  for (const child of groupNode.children ?? []) {
+    for (const node of routeNode(child, frame.id, ctx, dimensions)) {
+      nodes.push(node);
+      if (node.parentId === frame.id) frame.children.push(node.id);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Undo the `transform` scale of a group's box, keeping its center: the
+ * children are laid out at their unscaled size.
+ */
+function unscaleGroup(ctx: TransformContext, styles: ParsedStyles, id: string): ParsedStyles {
+  const scale = styles.transformScale;
+  if (!scale) return styles;
+
+  addWarning(
+    ctx,
+    'UnsupportedTransform',
+    `transform: scale on a group can't be applied to its children — ignored`,
+    { targetNodeId: id }
+  );
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+  const width = round2(styles.width / scale.x);
+  const height = round2(styles.height / scale.y);
+  return {
+    ...styles,
+    x: round2(styles.x + (styles.width - width) / 2),
+    y: round2(styles.y + (styles.height - height) / 2),
+    width,
+    height,
+    transformScale: undefined,
+  };
+}
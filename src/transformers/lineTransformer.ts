@@ -1,13 +1,22 @@
 /**
- * Line Transformer — converts Prolibu localLineHorizontal to Design Studio LineNode
+ * Line Transformer — converts Prolibu localLineHorizontal to Design Studio LineNode,
+ * and draws per-side borders that a single v2 stroke can't express as lines.
  */
 
 import { generateId } from '@design-studio/schema';
 import type { LineNode, Stroke } from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import type { TransformContext } from './nodeRouter.js';
-import { parseNodeStyles, type ParentDimensions } from '../converters/cssParser.js';
-import { parseColor } from '../converters/colorParser.js';
+import {
+  parseNodeStyles,
+  uniformBorder,
+  type BorderSide,
+  type ParentDimensions,
+  type ParsedConstraints,
+  type ParsedStyles,
+} from '../converters/cssParser.js';
+import { reportUnresolvedLengths, resolveRotation, resolveStroke } from './styleHelpers.js';
+import { addWarning } from './warnings.js';
 
 /**
  * Transform a Prolibu localLineHorizontal node into a Design Studio LineNode.
@@ -30,45 +39,149 @@ export function transformLine(
   // Build strokes from border CSS
   const strokes: Stroke[] = [];
   if (styles.border) {
-    const color = parseColor(styles.border.color);
-    strokes.push({
-      color,
-      weight: styles.border.width,
-      style: (styles.border.style === 'dashed'
-        ? 'dashed'
-        : styles.border.style === 'dotted'
-          ? 'dotted'
-          : 'solid') as 'solid' | 'dashed' | 'dotted',
-    });
+    // Invalid color → the CSS default (black, when there's no `color` either)
+    const stroke = resolveStroke(ctx, styles.border, styles);
+    strokes.push(stroke ?? { ...defaultStroke(), weight: styles.border.width });
   } else {
     // Default: 1px solid black
-    strokes.push({
-      color: { r: 0, g: 0, b: 0, a: 1 },
-      weight: 1,
-      style: 'solid',
-    });
+    strokes.push(defaultStroke());
   }
 
+  const line = createLine(node.name || 'Line', parentId, styles, strokes, {
+    start: { x: 0, y: 0 },
+    end: { x: styles.width, y: 0 }, // Horizontal line
+  });
+  line.rotation = resolveRotation(ctx, styles, { targetNodeId: line.id });
+  reportUnresolvedLengths(ctx, styles, { targetNodeId: line.id });
+  return line;
+}
+
+/**
+ * Lines for a border that isn't the same on all four sides (a v2 stroke is
+ * drawn on every side). One line per drawn side, inside the box like a CSS
+ * border, added after the shape so they're drawn on top of it.
+ *
+ * @returns No lines when there's no border or a uniform one (use a stroke)
+ */
+export function createBorderLines(
+  node: ProlibuNode,
+  parentId: string,
+  styles: ParsedStyles,
+  ctx: TransformContext,
+  targetNodeId: string
+): LineNode[] {
+  if (!styles.borders || uniformBorder(styles.borders)) return [];
+
+  const lines: LineNode[] = [];
+  const sides: BorderSide[] = ['top', 'right', 'bottom', 'left'];
+  for (const side of sides) {
+    const border = styles.borders[side];
+    const stroke = border ? resolveStroke(ctx, border, styles, { targetNodeId }) : undefined;
+    if (!border || !stroke) continue;
+
+    const t = border.width;
+    const horizontal = side === 'top' || side === 'bottom';
+    const box = rotateAround(
+      {
+        x: side === 'right' ? styles.x + styles.width - t : styles.x,
+        y: side === 'bottom' ? styles.y + styles.height - t : styles.y,
+        width: horizontal ? styles.width : t,
+        height: horizontal ? t : styles.height,
+      },
+      styles
+    );
+
+    const line = createLine(
+      `${node.name || 'Rectangle'} (border ${side})`,
+      parentId,
+      {
+        ...box,
+        visible: styles.visible,
+        opacity: styles.opacity,
+        constraints: sideConstraints(side, styles.constraints),
+      },
+      [stroke],
+      horizontal
+        ? { start: { x: 0, y: t / 2 }, end: { x: box.width, y: t / 2 } }
+        : { start: { x: t / 2, y: 0 }, end: { x: t / 2, y: box.height } }
+    );
+    line.rotation = styles.rotation;
+    lines.push(line);
+  }
+
+  if (lines.length > 0) {
+    ctx.stats.lineNodes += lines.length;
+    addWarning(
+      ctx,
+      'BorderAsLines',
+      `Per-side border drawn as ${lines.length} line(s): ${Object.keys(styles.borders).join(', ')}`,
+      { targetNodeId }
+    );
+  }
+
+  return lines;
+}
+
+type Box = Pick<ParsedStyles, 'x' | 'y' | 'width' | 'height'>;
+
+/**
+ * Move a side's box so that, rotated around its own center by the shape's
+ * rotation, it sits on the rotated shape's edge.
+ */
+function rotateAround(box: Box, shape: ParsedStyles): Box {
+  if (!shape.rotation) return box;
+  const rad = (shape.rotation * Math.PI) / 180;
+  const dx = box.x + box.width / 2 - (shape.x + shape.width / 2);
+  const dy = box.y + box.height / 2 - (shape.y + shape.height / 2);
+  const cx = shape.x + shape.width / 2 + dx * Math.cos(rad) - dy * Math.sin(rad);
+  const cy = shape.y + shape.height / 2 + dx * Math.sin(rad) + dy * Math.cos(rad);
+  return { ...box, x: cx - box.width / 2, y: cy - box.height / 2 };
+}
+
+/**
+ * A side of a stretching shape stays on its edge: the bottom line of a
+ * top-bottom shape is pinned to the bottom, and so on.
+ */
+function sideConstraints(side: BorderSide, constraints: ParsedConstraints): ParsedConstraints {
+  const { horizontal, vertical } = constraints;
+  return {
+    horizontal:
+      horizontal === 'left-right' && (side === 'left' || side === 'right') ? side : horizontal,
+    vertical: vertical === 'top-bottom' && (side === 'top' || side === 'bottom') ? side : vertical,
+  };
+}
+
+function defaultStroke(): Stroke {
+  return { color: { r: 0, g: 0, b: 0, a: 1 }, weight: 1, style: 'solid' };
+}
+
+function createLine(
+  name: string,
+  parentId: string,
+  box: Box & Pick<ParsedStyles, 'visible' | 'opacity' | 'constraints'>,
+  strokes: Stroke[],
+  points: { start: { x: number; y: number }; end: { x: number; y: number } }
+): LineNode {
   return {
     type: 'LINE',
     id: generateId(),
-    name: node.name || 'Line',
+    name,
     parentId,
     children: [],
-    x: styles.x,
-    y: styles.y,
-    width: styles.width,
-    height: styles.height,
+    x: box.x,
+    y: box.y,
+    width: box.width,
+    height: box.height,
     rotation: 0,
-    visible: styles.visible,
+    visible: box.visible,
     locked: false,
-    opacity: styles.opacity,
-    constraints: { horizontal: 'left', vertical: 'top' },
+    opacity: box.opacity,
+    constraints: box.constraints,
     blendMode: 'normal',
     pluginData: {},
     strokes,
     strokeWeight: strokes[0]?.weight ?? 1,
-    startPoint: { x: 0, y: 0 },
-    endPoint: { x: styles.width, y: 0 }, // Horizontal line
+    startPoint: points.start,
+    endPoint: points.end,
   };
 }
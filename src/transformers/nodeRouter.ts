@@ -5,11 +5,18 @@
 import type { SceneNode } from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import type { ResolvedFonts } from '../assets/fontResolver.js';
+import type { FontMetrics } from '../assets/fontMetrics.js';
+import type { ImageSize } from '../assets/imageProbe.js';
 import type { ParentDimensions } from '../converters/cssParser.js';
+import type { MigrationWarning } from '../types/migrationWarning.js';
+import type { ComponentMap } from '../config/componentMap.js';
 import { transformText } from './textTransformer.js';
 import { transformRectangle } from './rectangleTransformer.js';
 import { transformComponent } from './componentTransformer.js';
 import { transformLine } from './lineTransformer.js';
+import { addWarning, recordSkippedNode } from './warnings.js';
+import { getNodeTransformer } from './transformerRegistry.js';
+import { recordStacking, type StackingEntry } from './stacking.js';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -28,13 +35,34 @@ export interface MigrationStats {
   frameNodes: number;
 }
 
+/** v1 node that produced no v2 node (counted in `stats.skippedNodes`) */
+export interface SkippedNode {
+  name: string;
+  type: string;
+  /** Names from the page frame down to this node, e.g. "Cover / Header / Title" */
+  path: string;
+  reason: string;
+}
+
 export interface TransformContext {
-  warnings: string[];
+  warnings: MigrationWarning[];
   stats: MigrationStats;
   fonts: ResolvedFonts;
   wildcardConverter: (text: string) => string;
   /** Map of original font names → new fontCode (from font sync) */
   fontMap?: Record<string, string>;
+  /** Character widths by font name, for auto-width text (from font sync) */
+  fontMetrics?: Record<string, FontMetrics>;
+  /** Intrinsic size of remote background images, by URL (see imageProbe.ts) */
+  imageSizes?: Record<string, ImageSize>;
+  /** v1 nodes from the page frame down to the node being transformed (for warnings) */
+  sourcePath?: Array<{ name: string; type: string }>;
+  /** v1 component → plugin mapping (default: `DEFAULT_COMPONENT_MAP`) */
+  componentMap?: ComponentMap;
+  /** v1 zIndex of created nodes, by node ID (see stacking.ts) */
+  stacking?: Map<string, StackingEntry>;
+  /** Skipped v1 nodes (for reports) */
+  skippedNodes?: SkippedNode[];
 }
 
 export function createEmptyStats(): MigrationStats {
@@ -73,6 +101,23 @@ export function routeNode(
 ): SceneNode[] {
   ctx.stats.totalSourceNodes++;
 
+  const sourcePath = (ctx.sourcePath ??= []);
+  sourcePath.push({ name: prolibuNode.name, type: prolibuNode.type });
+  try {
+    const nodes = dispatchNode(prolibuNode, parentId, ctx, parentDimensions);
+    recordStacking(ctx, prolibuNode, parentId, nodes);
+    return nodes;
+  } finally {
+    sourcePath.pop();
+  }
+}
+
+function dispatchNode(
+  prolibuNode: ProlibuNode,
+  parentId: string,
+  ctx: TransformContext,
+  parentDimensions?: ParentDimensions
+): SceneNode[] {
   switch (prolibuNode.type) {
     case 'localText':
       ctx.stats.migratedNodes++;
@@ -80,7 +125,7 @@ export function routeNode(
 
     case 'localRectangle':
       ctx.stats.migratedNodes++;
-      return [transformRectangle(prolibuNode, parentId, ctx, parentDimensions)];
+      return transformRectangle(prolibuNode, parentId, ctx, parentDimensions);
 
     case 'localGroup':
       ctx.stats.migratedNodes++;
@@ -89,6 +134,7 @@ export function routeNode(
     case 'localCom':
       // Handled inside componentTransformer via localGroup parent
       ctx.stats.skippedNodes++;
+      recordSkippedNode(ctx, 'localCom outside a localGroup');
       return [];
 
     case 'localLineHorizontal':
@@ -98,13 +144,33 @@ export function routeNode(
     case 'localLayoutContent':
       // Absorbed by pageTransformer — indicates parent presetPage is a placeholder
       ctx.stats.skippedNodes++;
+      recordSkippedNode(ctx, 'Absorbed by the page placeholder');
       return [];
 
-    default:
-      ctx.warnings.push(
-        `UnknownNodeType: "${prolibuNode.type}" (name: "${prolibuNode.name}") — skipped`
+    default: {
+      // Custom transformer registered for this type (see transformerRegistry)
+      const custom = getNodeTransformer(prolibuNode.type);
+      if (custom) {
+        const result = custom(prolibuNode, parentId, ctx, parentDimensions);
+        const nodes = Array.isArray(result) ? result : [result];
+        // Returning [] drops the node
+        if (nodes.length > 0) {
+          ctx.stats.migratedNodes++;
+        } else {
+          ctx.stats.skippedNodes++;
+          recordSkippedNode(ctx, `Dropped by the "${prolibuNode.type}" transformer`);
+        }
+        return nodes;
+      }
+
+      addWarning(
+        ctx,
+        'UnknownNodeType',
+        `"${prolibuNode.type}" (name: "${prolibuNode.name}") — skipped`
       );
       ctx.stats.skippedNodes++;
+      recordSkippedNode(ctx, `Unknown node type "${prolibuNode.type}"`);
       return [];
+    }
   }
 }
@@ -27,6 +27,8 @@ import type {
 } from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import type { TransformContext } from './nodeRouter.js';
+import { addWarning } from './warnings.js';
+import { migrateComponentPropsWithWarnings } from './componentProps.js';
 
 // ═══════════════════════════════════════════════════════════════
 // V1 → V2 PRESET ID MAP
@@ -191,10 +193,11 @@ export function resolvePagePreset(
     const childId = generateId();
 
     if (childConfig.type === 'COMPONENT') {
-      // Merge V1 props with default props for matching component
+      // Merge V1 props (migrated to the plugin's v2 props) over the preset defaults
+      const pluginId = childConfig.pluginId || 'unknown';
       const mergedProps = {
         ...(childConfig.props || childConfig.pluginProps || {}),
-        ...(v1Props ?? {}),
+        ...(v1Props ? migrateComponentPropsWithWarnings(pluginId, v1Props, ctx, childId) : {}),
       };
 
       const componentNode: ComponentNode = {
@@ -214,7 +217,7 @@ export function resolvePagePreset(
         constraints: { horizontal: 'left', vertical: 'top' },
         blendMode: 'normal',
         pluginData: {},
-        pluginId: childConfig.pluginId || 'unknown',
+        pluginId,
         componentName: childConfig.componentName || 'Component',
         props: mergedProps,
         pluginVersion: '1.0.0',
@@ -307,8 +310,11 @@ export function resolvePagePreset(
   ctx.stats.pages++;
 
   // Add warning for reference
-  ctx.warnings.push(
-    `PagePresetResolved: Using V2 "${v2PresetId}" preset structure from shared contentPresets`
+  addWarning(
+    ctx,
+    'PagePresetResolved',
+    `Using V2 "${v2PresetId}" preset structure from shared contentPresets`,
+    { targetNodeId: rootId }
   );
 
   return {
@@ -479,8 +485,13 @@ export function resolveMarkerPreset(
   ctx.stats.pages++;
   ctx.stats.textNodes++;
 
-  ctx.warnings.push(
-    `MarkerPresetResolved: Using V2 "${markerPresetId}" preset for placeholder page`
+  addWarning(
+    ctx,
+    'MarkerPresetResolved',
+    `Using V2 "${markerPresetId}" preset for placeholder page`,
+    {
+      targetNodeId: rootId,
+    }
   );
 
   return {
@@ -10,11 +10,20 @@ import {
   generateId,
   PAGE_SIZES,
 } from '@design-studio/schema';
-import type { Page, PageSize, FrameNode, Fill, PlaceholderConfig } from '@design-studio/schema';
+import type {
+  Page,
+  PageSize,
+  FrameNode,
+  Fill,
+  PlaceholderConfig,
+  RGBA,
+} from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import { parseNodeStyles } from '../converters/cssParser.js';
-import { parseColor } from '../converters/colorParser.js';
+import { tryParseColor } from '../converters/colorParser.js';
 import { convertWildcards } from '../converters/wildcardConverter.js';
+import type { TransformContext } from './nodeRouter.js';
+import { resolveColor, resolveFrameBackgroundSize, resolveGradientFills } from './styleHelpers.js';
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -33,11 +42,13 @@ export interface TransformedPage {
 
 /**
  * Transform a Prolibu frame (FRAME or presetPage) into a Design Studio Page + root FrameNode.
+ * With `ctx`, an invalid background color is reported as an `InvalidColor` warning.
  */
 export function transformPage(
   frame: ProlibuNode,
   index: number,
-  pageSize: PageSize = PAGE_SIZES.fixed
+  pageSize: PageSize = PAGE_SIZES.fixed,
+  ctx?: TransformContext
 ): TransformedPage {
   const pageId = generateId();
   const rootId = generateId();
@@ -74,13 +85,18 @@ export function transformPage(
 
   // Build fills for root frame
   const fills: Fill[] = [];
-  if (styles.backgroundColor) {
-    const rgba = parseColor(styles.backgroundColor);
+  const rgba = styles.backgroundColor
+    ? pageBackgroundColor(styles.backgroundColor, rootId, ctx)
+    : undefined;
+  if (rgba) {
     fills.push({ type: 'solid', color: rgba, opacity: 1 });
   } else {
-    // Default white
+    // Default white (also for an invalid color)
     fills.push({ type: 'solid', color: { r: 255, g: 255, b: 255, a: 1 }, opacity: 1 });
   }
+  fills.push(
+    ...resolveGradientFills(ctx, styles.backgroundGradients, styles, { targetNodeId: rootId })
+  );
 
   // Background image (with wildcard conversion)
   let backgroundImage: string | undefined;
@@ -116,7 +132,9 @@ export function transformPage(
     height: frameHeight,
     fills,
     backgroundImage,
-    backgroundSize: backgroundImage ? 'cover' : undefined,
+    backgroundSize: backgroundImage
+      ? resolveFrameBackgroundSize(ctx, styles, { targetNodeId: rootId })
+      : undefined,
     autoGrow: isAutoGrow || undefined,
     minHeight: isAutoGrow ? (styles.minHeight ?? effectivePageSize.height) : undefined,
     clipContent: true,
@@ -180,3 +198,17 @@ function detectLayoutContentType(frame: ProlibuNode): 'snippets' | 'custom' | nu
   }
   return null;
 }
+
+/**
+ * Root frame background color, or undefined when it isn't a valid color
+ * (reported through `ctx` when given).
+ */
+function pageBackgroundColor(
+  value: string,
+  rootId: string,
+  ctx: TransformContext | undefined
+): RGBA | undefined {
+  if (ctx) return resolveColor(ctx, value, 'backgroundColor', { targetNodeId: rootId });
+  const result = tryParseColor(value);
+  return result.ok ? result.color : undefined;
+}
@@ -4,21 +4,39 @@
  *
  * Decision:
  * - If styles.backgroundImage exists → ImageNode (supports wildcards)
- * - If only color/border → RectangleNode
+ * - If only color/gradient/border → RectangleNode (gradients as gradient fills)
+ *
+ * backgroundSize/Position/Repeat become the image's scaleMode and
+ * imageTransform (see `resolveImageFit`).
+ *
+ * A border that isn't the same on all sides becomes separate LineNodes after
+ * the shape (see lineTransformer.ts); a uniform one is the shape's stroke.
  */
 
 import { createRectangleNode, generateId } from '@design-studio/schema';
 import type { SceneNode, RectangleNode, ImageNode, Fill, Stroke } from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import type { TransformContext } from './nodeRouter.js';
-import { parseNodeStyles, type ParentDimensions } from '../converters/cssParser.js';
-import { parseColor } from '../converters/colorParser.js';
+import { addWarning } from './warnings.js';
+import { parseNodeStyles, uniformBorder, type ParentDimensions } from '../converters/cssParser.js';
 import { convertWildcards } from '../converters/wildcardConverter.js';
+import {
+  resolveBlendMode,
+  reportUnresolvedLengths,
+  resolveColor,
+  resolveEffects,
+  resolveGradientFills,
+  resolveImageFit,
+  resolveRotation,
+  resolveStroke,
+} from './styleHelpers.js';
+import { createBorderLines } from './lineTransformer.js';
 
 /**
  * Transform a Prolibu localRectangle node.
  * - If backgroundImage exists → ImageNode (wildcards converted)
  * - Otherwise → RectangleNode
+ * Followed by the border lines, if any.
  *
  * @param node The source Prolibu localRectangle node
  * @param parentId ID of the parent frame
@@ -30,32 +48,44 @@ export function transformRectangle(
   parentId: string,
   ctx: TransformContext,
   parentDimensions?: ParentDimensions
-): SceneNode {
+): SceneNode[] {
   const styles = parseNodeStyles(node.styles, parentDimensions);
 
   const bgImage = styles.backgroundImage;
+  let shape: SceneNode;
 
   if (bgImage && hasValidImageUrl(bgImage)) {
     // IMAGE node — supports both real URLs and wildcards
     ctx.stats.imageNodes++;
     const imageUrl = convertWildcards(bgImage);
-    return createImageNode(node, parentId, styles, imageUrl);
+    shape = createImageNode(node, parentId, styles, imageUrl, ctx);
+  } else {
+    // Plain RECTANGLE
+    ctx.stats.rectangleNodes++;
+    shape = createRect(node, parentId, styles, ctx);
   }
 
-  // Plain RECTANGLE
-  ctx.stats.rectangleNodes++;
-  return createRect(node, parentId, styles);
+  reportUnresolvedLengths(ctx, styles, { targetNodeId: shape.id });
+  return [shape, ...createBorderLines(node, parentId, styles, ctx, shape.id)];
 }
 
 function createImageNode(
   node: ProlibuNode,
   parentId: string,
   styles: ReturnType<typeof parseNodeStyles>,
-  imageUrl: string
+  imageUrl: string,
+  ctx: TransformContext
 ): ImageNode {
+  const id = generateId();
+  if (styles.backgroundGradients) {
+    // Image nodes have no fills to carry a gradient overlay
+    addWarning(ctx, 'UnsupportedGradient', 'backgroundImage: gradient over an image — ignored', {
+      targetNodeId: id,
+    });
+  }
   return {
     type: 'IMAGE',
-    id: generateId(),
+    id,
     name: node.name || 'Image',
     parentId,
     children: [],
@@ -63,67 +93,76 @@ function createImageNode(
     y: styles.y,
     width: styles.width,
     height: styles.height,
-    rotation: 0,
+    rotation: resolveRotation(ctx, styles, { targetNodeId: id }),
     visible: styles.visible,
     locked: false,
     opacity: styles.opacity,
-    constraints: { horizontal: 'left', vertical: 'top' },
-    blendMode: 'normal',
+    constraints: styles.constraints,
+    blendMode: resolveBlendMode(ctx, styles, { targetNodeId: id }),
     pluginData: {},
     imageRef: imageUrl,
-    scaleMode: 'fill',
-    imageTransform: { scale: 1, offsetX: 0, offsetY: 0 },
+    ...resolveImageFit(ctx, styles, imageUrl, { targetNodeId: id }),
     cornerRadius: styles.borderRadius ?? 0,
-    strokes: buildStrokes(styles),
-    effects: [],
+    ...(styles.cornerRadii ? { cornerRadii: styles.cornerRadii } : {}),
+    strokes: buildStrokes(styles, ctx, id),
+    effects: resolveEffects(ctx, styles, { targetNodeId: id }),
   };
 }
 
 function createRect(
   node: ProlibuNode,
   parentId: string,
-  styles: ReturnType<typeof parseNodeStyles>
+  styles: ReturnType<typeof parseNodeStyles>,
+  ctx: TransformContext
 ): RectangleNode {
+  const id = generateId();
   return createRectangleNode({
-    id: generateId(),
+    id,
     name: node.name || 'Rectangle',
     parentId,
     x: styles.x,
     y: styles.y,
     width: styles.width,
     height: styles.height,
+    rotation: resolveRotation(ctx, styles, { targetNodeId: id }),
+    constraints: styles.constraints,
     visible: styles.visible,
     opacity: styles.opacity,
-    fills: buildFills(styles),
-    strokes: buildStrokes(styles),
+    fills: buildFills(styles, ctx, id),
+    strokes: buildStrokes(styles, ctx, id),
+    effects: resolveEffects(ctx, styles, { targetNodeId: id }),
+    blendMode: resolveBlendMode(ctx, styles, { targetNodeId: id }),
     cornerRadius: styles.borderRadius ?? 0,
+    ...(styles.cornerRadii ? { cornerRadii: styles.cornerRadii } : {}),
   });
 }
 
-function buildFills(styles: ReturnType<typeof parseNodeStyles>): Fill[] {
-  if (styles.backgroundColor) {
-    const rgba = parseColor(styles.backgroundColor);
-    return [{ type: 'solid', color: rgba, opacity: 1 }];
-  }
-  return [];
+function buildFills(
+  styles: ReturnType<typeof parseNodeStyles>,
+  ctx: TransformContext,
+  targetNodeId: string
+): Fill[] {
+  const rgba = styles.backgroundColor
+    ? resolveColor(ctx, styles.backgroundColor, 'backgroundColor', {
+        targetNodeId,
+        currentColor: styles.color,
+      })
+    : undefined;
+  const fills: Fill[] = rgba ? [{ type: 'solid', color: rgba, opacity: 1 }] : [];
+  return fills.concat(
+    resolveGradientFills(ctx, styles.backgroundGradients, styles, { targetNodeId })
+  );
 }
 
-function buildStrokes(styles: ReturnType<typeof parseNodeStyles>): Stroke[] {
-  if (styles.border) {
-    const color = parseColor(styles.border.color);
-    return [
-      {
-        color,
-        weight: styles.border.width,
-        style: (styles.border.style === 'dashed'
-          ? 'dashed'
-          : styles.border.style === 'dotted'
-            ? 'dotted'
-            : 'solid') as 'solid' | 'dashed' | 'dotted',
-      },
-    ];
-  }
-  return [];
+/** Stroke for a uniform border (per-side borders are drawn as lines) */
+function buildStrokes(
+  styles: ReturnType<typeof parseNodeStyles>,
+  ctx: TransformContext,
+  targetNodeId: string
+): Stroke[] {
+  const border = uniformBorder(styles.borders);
+  const stroke = border ? resolveStroke(ctx, border, styles, { targetNodeId }) : undefined;
+  return stroke ? [stroke] : [];
 }
 
 /**
@@ -0,0 +1,99 @@
+/**
+ * Stacking — orders siblings by their v1 `zIndex`.
+ *
+ * Transformers append children in source array order, but v1 draws by
+ * `z-index` (absolute positioning), so a background rectangle listed after a
+ * text could end up on top of it. `routeNode` records each created node's
+ * source zIndex; `applyStacking` then stable-sorts the children of every
+ * node (later = drawn on top) and reports overlapping pairs whose order changed.
+ */
+
+import type { SceneNode } from '@design-studio/schema';
+import type { ProlibuNode } from '../types/prolibu.js';
+import type { MigrationWarningSource } from '../types/migrationWarning.js';
+import type { TransformContext } from './nodeRouter.js';
+import { parseNodeStyles } from '../converters/cssParser.js';
+import { addWarning } from './warnings.js';
+
+export interface StackingEntry {
+  zIndex: number;
+  source: MigrationWarningSource;
+}
+
+/**
+ * Remember the source zIndex of the top-level nodes created for a v1 node
+ * (called by `routeNode` while the node is on `ctx.sourcePath`).
+ */
+export function recordStacking(
+  ctx: TransformContext,
+  prolibuNode: ProlibuNode,
+  parentId: string,
+  created: SceneNode[]
+): void {
+  const { zIndex } = parseNodeStyles(prolibuNode.styles);
+  const source: MigrationWarningSource = {
+    name: prolibuNode.name,
+    type: prolibuNode.type,
+    path: (ctx.sourcePath ?? []).map((p) => p.name).join(' / '),
+  };
+
+  const stacking = (ctx.stacking ??= new Map());
+  for (const node of created) {
+    if (node.parentId === parentId) stacking.set(node.id, { zIndex, source });
+  }
+}
+
+/**
+ * Sort the children of every node by recorded zIndex (stable; unrecorded
+ * nodes count as 0) and add a `StackingReordered` warning per overlapping
+ * sibling pair whose drawing order changed.
+ */
+export function applyStacking(nodes: Record<string, SceneNode>, ctx: TransformContext): void {
+  const stacking = ctx.stacking ?? new Map<string, StackingEntry>();
+  const zIndexOf = (id: string) => stacking.get(id)?.zIndex ?? 0;
+
+  for (const parent of Object.values(nodes)) {
+    const children = parent.children ?? [];
+    if (children.length < 2) continue;
+
+    const sorted = [...children].sort((a, b) => zIndexOf(a) - zIndexOf(b));
+    if (sorted.every((id, i) => id === children[i])) continue;
+
+    reportReorderedOverlaps(children, sorted, nodes, stacking, ctx);
+    parent.children = sorted;
+  }
+}
+
+function reportReorderedOverlaps(
+  before: string[],
+  after: string[],
+  nodes: Record<string, SceneNode>,
+  stacking: Map<string, StackingEntry>,
+  ctx: TransformContext
+): void {
+  const newIndex = new Map(after.map((id, i) => [id, i]));
+
+  for (let i = 0; i < before.length; i++) {
+    for (let j = i + 1; j < before.length; j++) {
+      // before[i] was drawn below before[j]; now it's drawn above
+      const raised = before[i];
+      const lowered = before[j];
+      if ((newIndex.get(raised) ?? 0) < (newIndex.get(lowered) ?? 0)) continue;
+      if (!overlaps(nodes[raised], nodes[lowered])) continue;
+
+      const raisedEntry = stacking.get(raised);
+      const loweredEntry = stacking.get(lowered);
+      addWarning(
+        ctx,
+        'StackingReordered',
+        `"${nodes[lowered]?.name}" (zIndex ${loweredEntry?.zIndex ?? 0}) now drawn below overlapping "${nodes[raised]?.name}" (zIndex ${raisedEntry?.zIndex ?? 0})`,
+        { targetNodeId: lowered, sourceNode: loweredEntry?.source }
+      );
+    }
+  }
+}
+
+function overlaps(a: SceneNode | undefined, b: SceneNode | undefined): boolean {
+  if (!a || !b) return false;
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
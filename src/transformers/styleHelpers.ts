@@ -0,0 +1,413 @@
+/**
+ * Style Helpers — converts parsed v1 style values for transformers, recording
+ * a warning (`InvalidColor`, `UnsupportedGradient`, `UnsupportedEffect`,
+ * `UnsupportedTransform`, `UnresolvedLength`, `ImageFitApproximated`) in the
+ * context instead of guessing a value.
+ */
+
+import type { Fill, ImageNode, RGBA, SceneNode, Stroke } from '@design-studio/schema';
+import type { TransformContext } from './nodeRouter.js';
+import type {
+  ParsedBackground,
+  ParsedBorder,
+  ParsedShadow,
+  ParsedStyles,
+} from '../converters/cssParser.js';
+import { tryParseColor } from '../converters/colorParser.js';
+import { tryParseGradient } from '../converters/gradientParser.js';
+import { dataUriImageSize, type ImageSize } from '../assets/imageProbe.js';
+import { addWarning } from './warnings.js';
+
+/**
+ * Parse a v1 color for `property`. Returns `undefined` (and adds an
+ * `InvalidColor` warning) when it isn't a color, so the caller can leave the
+ * fill/stroke out or use its own default.
+ *
+ * @param currentColor The element's `color` value, for `currentColor`
+ */
+export function resolveColor(
+  ctx: TransformContext,
+  value: string,
+  property: string,
+  details: { targetNodeId?: string; currentColor?: string } = {}
+): RGBA | undefined {
+  const currentColor = details.currentColor ? tryParseColor(details.currentColor) : undefined;
+  const result = tryParseColor(value, {
+    currentColor: currentColor?.ok ? currentColor.color : undefined,
+  });
+  if (result.ok) return result.color;
+
+  addWarning(ctx, 'InvalidColor', `${property}: ${result.error} — ignored`, {
+    targetNodeId: details.targetNodeId,
+  });
+  return undefined;
+}
+
+/**
+ * v1 border → v2 stroke (`double`, `groove`… are drawn solid). Returns
+ * undefined when the color is invalid (`InvalidColor` warning).
+ */
+export function resolveStroke(
+  ctx: TransformContext,
+  border: ParsedBorder,
+  styles: ParsedStyles,
+  details: { targetNodeId?: string } = {}
+): Stroke | undefined {
+  // currentColor = the element's color, black by default
+  const color = resolveColor(ctx, border.color, 'borderColor', {
+    targetNodeId: details.targetNodeId,
+    currentColor: styles.color ?? 'black',
+  });
+  if (!color) return undefined;
+
+  return {
+    color,
+    weight: border.width,
+    style: border.style === 'dashed' ? 'dashed' : border.style === 'dotted' ? 'dotted' : 'solid',
+  };
+}
+
+/**
+ * Convert CSS gradient layers (top layer first, as in `backgroundImage`) to
+ * v2 gradient fills in paint order (bottom first), to go after the solid
+ * background fill. Unsupported or invalid gradients are left out with an
+ * `UnsupportedGradient` warning when `ctx` is given.
+ *
+ * @param box Element size, for px stops and corner directions
+ */
+export function resolveGradientFills(
+  ctx: TransformContext | undefined,
+  gradients: string[] | undefined,
+  box: { width: number; height: number },
+  details: { targetNodeId?: string } = {}
+): Fill[] {
+  const fills: Fill[] = [];
+
+  for (const css of [...(gradients ?? [])].reverse()) {
+    const result = tryParseGradient(css, box);
+    if (!result.ok) {
+      if (ctx) {
+        addWarning(ctx, 'UnsupportedGradient', `backgroundImage: ${result.error} — ignored`, {
+          targetNodeId: details.targetNodeId,
+        });
+      }
+      continue;
+    }
+
+    const { gradient } = result;
+    fills.push(
+      gradient.type === 'linear'
+        ? { type: 'linear-gradient', angle: gradient.angle, stops: gradient.stops, opacity: 1 }
+        : {
+            type: 'radial-gradient',
+            shape: gradient.shape,
+            center: gradient.center,
+            stops: gradient.stops,
+            opacity: 1,
+          }
+    );
+  }
+
+  return fills;
+}
+
+type Effect = ImageNode['effects'][number];
+type BlendMode = SceneNode['blendMode'];
+
+/** CSS mix-blend-mode values with a v2 blend mode of the same name */
+const BLEND_MODES = new Set([
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+]);
+
+/**
+ * Convert parsed shadows and filters to v2 effects: box shadows (text shadows
+ * for text nodes) and `drop-shadow()` → drop/inner shadows, `blur()` → layer
+ * blur. Unparsed declarations and shadows with an invalid color are left out
+ * with a warning.
+ */
+export function resolveEffects(
+  ctx: TransformContext,
+  styles: ParsedStyles,
+  details: { targetNodeId?: string; text?: boolean } = {}
+): Effect[] {
+  const effects: Effect[] = [];
+  const shadows = [
+    ...((details.text ? styles.textShadows : styles.boxShadows) ?? []),
+    ...(styles.dropShadows ?? []),
+  ];
+
+  // CSS paints the first shadow on top; effects are listed bottom first
+  for (const shadow of shadows.reverse()) {
+    const effect = shadowEffect(ctx, shadow, styles, details.targetNodeId);
+    if (effect) effects.push(effect);
+  }
+
+  if (styles.blur) {
+    effects.push({ type: 'layer-blur', radius: styles.blur, visible: true });
+  }
+
+  for (const declaration of styles.unsupportedEffects ?? []) {
+    addWarning(ctx, 'UnsupportedEffect', `${declaration} — ignored`, {
+      targetNodeId: details.targetNodeId,
+    });
+  }
+
+  return effects;
+}
+
+function shadowEffect(
+  ctx: TransformContext,
+  shadow: ParsedShadow,
+  styles: ParsedStyles,
+  targetNodeId: string | undefined
+): Effect | undefined {
+  // No color = currentColor (the element's color, black by default)
+  const color = resolveColor(ctx, shadow.color ?? 'currentColor', 'shadow color', {
+    targetNodeId,
+    currentColor: styles.color ?? 'black',
+  });
+  if (!color) return undefined;
+
+  return {
+    type: shadow.inset ? 'inner-shadow' : 'drop-shadow',
+    color,
+    offset: { x: shadow.x, y: shadow.y },
+    radius: shadow.blur,
+    spread: shadow.spread,
+    visible: true,
+    blendMode: 'normal',
+  };
+}
+
+/**
+ * v1 `mixBlendMode` → v2 blend mode; modes without a v2 equivalent become
+ * 'normal' with an `UnsupportedEffect` warning.
+ */
+export function resolveBlendMode(
+  ctx: TransformContext,
+  styles: ParsedStyles,
+  details: { targetNodeId?: string } = {}
+): BlendMode {
+  const mode = styles.blendMode;
+  if (!mode || BLEND_MODES.has(mode)) return (mode ?? 'normal') as BlendMode;
+
+  addWarning(ctx, 'UnsupportedEffect', `mixBlendMode: ${mode} — using normal`, {
+    targetNodeId: details.targetNodeId,
+  });
+  return 'normal';
+}
+
+/**
+ * v1 `transform` rotation for the v2 `rotation` field; parts that can't be
+ * represented (skew, matrix, flips, 3D) add an `UnsupportedTransform` warning.
+ */
+export function resolveRotation(
+  ctx: TransformContext,
+  styles: ParsedStyles,
+  details: { targetNodeId?: string } = {}
+): number {
+  if (styles.unsupportedTransforms) {
+    addWarning(
+      ctx,
+      'UnsupportedTransform',
+      `transform: ${styles.unsupportedTransforms.join(', ')} can't be represented — ignored`,
+      { targetNodeId: details.targetNodeId }
+    );
+  }
+  return styles.rotation;
+}
+
+/**
+ * Report the lengths `parseNodeStyles` couldn't resolve (and replaced with a
+ * default) as `UnresolvedLength` warnings.
+ */
+export function reportUnresolvedLengths(
+  ctx: TransformContext,
+  styles: ParsedStyles,
+  details: { targetNodeId?: string } = {}
+): void {
+  for (const declaration of styles.unresolvedLengths ?? []) {
+    addWarning(ctx, 'UnresolvedLength', `${declaration} — default used`, {
+      targetNodeId: details.targetNodeId,
+    });
+  }
+}
+
+type ImageFit = Pick<ImageNode, 'scaleMode' | 'imageTransform'>;
+
+const IDENTITY_TRANSFORM = { scale: 1, offsetX: 0, offsetY: 0 };
+
+/**
+ * Whether reproducing `background` needs the image's intrinsic size (anything
+ * but a centered, non-repeating `cover` or `contain`).
+ */
+export function needsImageSize(background: ParsedBackground): boolean {
+  const { size, position, repeat } = background;
+  const centered = (offset: ParsedBackground['position']['x']) =>
+    offset.fraction === 0.5 && offset.px === 0;
+  return (
+    typeof size !== 'string' ||
+    repeat.x ||
+    repeat.y ||
+    !centered(position.x) ||
+    !centered(position.y)
+  );
+}
+
+/**
+ * v1 `backgroundSize`/`backgroundPosition`/`backgroundRepeat` → v2 image
+ * `scaleMode` and `imageTransform`. Centered `cover` is `fill` and centered
+ * `contain` is `fit`; repeating images `tile`; any other size or position is
+ * a `crop`. In `crop` and `tile` modes `imageTransform.scale` is the image's
+ * scale (drawn px / intrinsic px) and the offsets are where its top-left
+ * corner is drawn in the box, in px.
+ *
+ * The intrinsic size comes from `ctx.imageSizes` (probed before the transform)
+ * or the `data:` URI itself. Without it the closest mode is used and an
+ * `ImageFitApproximated` warning is added.
+ */
+export function resolveImageFit(
+  ctx: TransformContext,
+  styles: ParsedStyles,
+  imageUrl: string,
+  details: { targetNodeId?: string } = {}
+): ImageFit {
+  const background = styles.background;
+  if (!background || !needsImageSize(background)) {
+    return {
+      scaleMode: background?.size === 'contain' ? 'fit' : 'fill',
+      imageTransform: { ...IDENTITY_TRANSFORM },
+    };
+  }
+
+  const { size, position, repeat } = background;
+  const scaleMode = repeat.x || repeat.y ? 'tile' : size === 'contain' ? 'fit' : 'fill';
+  const intrinsic =
+    ctx.imageSizes?.[imageUrl] ??
+    (imageUrl.startsWith('data:') ? dataUriImageSize(imageUrl) : undefined);
+
+  if (!intrinsic) {
+    addWarning(
+      ctx,
+      'ImageFitApproximated',
+      `${describeBackground(background)}: image size unknown — drawn as ${scaleMode}`,
+      { targetNodeId: details.targetNodeId }
+    );
+    return { scaleMode, imageTransform: { ...IDENTITY_TRANSFORM } };
+  }
+
+  const scale = imageScale(size, styles, intrinsic);
+  if (scale === null) {
+    addWarning(
+      ctx,
+      'ImageFitApproximated',
+      `${describeBackground(background)}: stretched image (different x/y scale) — drawn as fill`,
+      { targetNodeId: details.targetNodeId }
+    );
+    return { scaleMode: 'fill', imageTransform: { ...IDENTITY_TRANSFORM } };
+  }
+
+  // CSS: offset = fraction × (box − image) + px
+  const drawn = { width: intrinsic.width * scale, height: intrinsic.height * scale };
+  const offsetX = position.x.fraction * (styles.width - drawn.width) + position.x.px;
+  const offsetY = position.y.fraction * (styles.height - drawn.height) + position.y.px;
+  const imageTransform = {
+    scale: round3(scale),
+    offsetX: round2(offsetX),
+    offsetY: round2(offsetY),
+  };
+
+  if (scaleMode === 'tile') return { scaleMode, imageTransform };
+
+  // A cover/contain whose offsets are the centered ones needs no crop
+  const centered =
+    Math.abs(offsetX - (styles.width - drawn.width) / 2) < 0.5 &&
+    Math.abs(offsetY - (styles.height - drawn.height) / 2) < 0.5;
+  if (typeof size === 'string' && centered) {
+    return { scaleMode, imageTransform: { ...IDENTITY_TRANSFORM } };
+  }
+
+  return { scaleMode: 'crop', imageTransform };
+}
+
+/**
+ * v1 background → v2 frame `backgroundSize`. Frames only draw centered
+ * `cover`/`contain` backgrounds; other sizes, positions and repeats are drawn
+ * as `cover` (with an `ImageFitApproximated` warning when `ctx` is given).
+ */
+export function resolveFrameBackgroundSize(
+  ctx: TransformContext | undefined,
+  styles: ParsedStyles,
+  details: { targetNodeId?: string } = {}
+): 'cover' | 'contain' {
+  const background = styles.background;
+  if (!background) return 'cover';
+  if (!needsImageSize(background)) return background.size === 'contain' ? 'contain' : 'cover';
+
+  if (ctx) {
+    addWarning(
+      ctx,
+      'ImageFitApproximated',
+      `${describeBackground(background)}: frame backgrounds are centered cover/contain — drawn as cover`,
+      { targetNodeId: details.targetNodeId }
+    );
+  }
+  return 'cover';
+}
+
+/**
+ * Drawn px per intrinsic px, or null when the size stretches the image.
+ */
+function imageScale(
+  size: ParsedBackground['size'],
+  box: { width: number; height: number },
+  intrinsic: ImageSize
+): number | null {
+  const scaleX = box.width / intrinsic.width;
+  const scaleY = box.height / intrinsic.height;
+  if (size === 'cover') return Math.max(scaleX, scaleY);
+  if (size === 'contain') return Math.min(scaleX, scaleY);
+
+  // `auto` sides keep the aspect ratio; both auto = intrinsic size
+  const x = size.width !== undefined ? size.width / intrinsic.width : undefined;
+  const y = size.height !== undefined ? size.height / intrinsic.height : undefined;
+  if (x !== undefined && y !== undefined && Math.abs(x - y) > 0.01 * Math.max(x, y)) return null;
+  return x ?? y ?? 1;
+}
+
+function describeBackground(background: ParsedBackground): string {
+  const { size, position, repeat } = background;
+  const sizeText =
+    typeof size === 'string'
+      ? size
+      : `${size.width ?? 'auto'}${size.width !== undefined ? 'px' : ''} ${size.height ?? 'auto'}${size.height !== undefined ? 'px' : ''}`;
+  const positionText = [position.x, position.y]
+    .map((offset) => `${round2(offset.fraction * 100)}%${offset.px ? ` + ${offset.px}px` : ''}`)
+    .join(' ');
+  const repeatText =
+    repeat.x && repeat.y ? 'repeat' : repeat.x ? 'repeat-x' : repeat.y ? 'repeat-y' : 'no-repeat';
+  return `background ${sizeText} at ${positionText}, ${repeatText}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -6,14 +6,23 @@ import { createTextNode, createRichTextContent, generateId } from '@design-studi
 import type { TextNode, Fill } from '@design-studio/schema';
 import type { ProlibuNode } from '../types/prolibu.js';
 import type { TransformContext } from './nodeRouter.js';
+import { measureText, type FontMetrics } from '../assets/fontMetrics.js';
+import { findFontFace, findFontVariant } from '../assets/fontResolver.js';
 import {
   parseNodeStyles,
   resolveFontFamily,
   type ParentDimensions,
 } from '../converters/cssParser.js';
-import { parseColor } from '../converters/colorParser.js';
 import { quillToTiptapHtml } from '../converters/quillToTiptapHtml.js';
 import { convertWildcards } from '../converters/wildcardConverter.js';
+import {
+  reportUnresolvedLengths,
+  resolveBlendMode,
+  resolveColor,
+  resolveEffects,
+  resolveRotation,
+} from './styleHelpers.js';
+import { addWarning } from './warnings.js';
 
 /**
  * Transform a Prolibu localText node into a Design Studio TextNode.
@@ -31,52 +40,93 @@ export function transformText(
 ): TextNode {
   ctx.stats.textNodes++;
 
-  const styles = parseNodeStyles(node.styles, parentDimensions);
-
   // Process HTML content — API uses 'content', legacy uses 'value'
   let htmlContent = node.content ?? node.value ?? '';
-  htmlContent = quillToTiptapHtml(htmlContent, ctx.fontMap);
+  htmlContent = quillToTiptapHtml(htmlContent, ctx.fontMap, ctx.fonts.faces);
   htmlContent = convertWildcards(htmlContent);
 
   // Extract plain text from HTML for the 'characters' field
   const characters = stripHtmlTags(htmlContent);
 
+  let styles = parseNodeStyles(node.styles, parentDimensions);
+
+  // Auto width: measure the text, keep the 85% box only when a line doesn't fit in it
+  let measuredFits = false;
+  if (styles.widthAuto && characters) {
+    const fontSize = styles.fontSize ?? 16;
+    const measured = measureText(characters, {
+      size: fontSize,
+      weight: styles.fontWeight,
+      metrics: findFontMetrics(ctx, styles.fontFamily, styles.fontWeight),
+    });
+    if (measured.width <= styles.width) {
+      measuredFits = true;
+      styles = parseNodeStyles(node.styles, parentDimensions, {
+        intrinsicSize: {
+          width: Math.ceil(measured.width),
+          height: Math.ceil(measured.lines * (styles.lineHeight ?? fontSize * NORMAL_LINE_HEIGHT)),
+        },
+      });
+    }
+  }
+
   // Create legacy rich text content
   const content = createRichTextContent(characters);
 
+  const id = generateId();
+
   // Build fills (text color)
   const fills: Fill[] = [];
-  if (styles.color) {
-    const rgba = parseColor(styles.color);
+  const rgba = styles.color
+    ? resolveColor(ctx, styles.color, 'color', { targetNodeId: id })
+    : undefined;
+  if (rgba) {
     fills.push({ type: 'solid', color: rgba, opacity: 1 });
   }
 
   // Determine text alignment from HTML or styles
   const textAlign = extractTextAlign(htmlContent);
 
-  // Resolve font family using fontMap
-  const fontFamily = styles.fontFamily
-    ? resolveFontFamily(styles.fontFamily, ctx.fontMap)
-    : 'inherit';
+  // Per-weight v1 font names → family + weight of the file (fontMap for fonts outside the layout)
+  const face = styles.fontFamily ? findFontFace(styles.fontFamily, ctx.fonts.faces) : undefined;
+  const fontFamily =
+    face?.family ??
+    (styles.fontFamily ? resolveFontFamily(styles.fontFamily, ctx.fontMap) : 'inherit');
+  // Regular (400) files keep the CSS weight — v1 synthesized bold over them
+  const fontWeight = face && face.weight !== 400 ? face.weight : (styles.fontWeight ?? 400);
 
   // Determine textAutoResize based on V1 auto dimensions
-  // When widthAuto was true, we assigned a fixed width (85% of parent),
-  // so we use 'height' to respect that width while allowing auto height
+  // Measured text that fits grows with its content ('width-and-height'); otherwise
+  // widthAuto got a fixed width (85% of parent), so we use 'height' to respect
+  // that width while allowing auto height
   let textAutoResize: 'none' | 'width-and-height' | 'height' = 'none';
-  if (styles.heightAuto) {
+  if (measuredFits) {
+    textAutoResize = 'width-and-height';
+  } else if (styles.heightAuto) {
     // Both widthAuto+heightAuto → we assigned fixed width, so use 'height'
     // Only heightAuto → also use 'height' (fixed width, auto height)
     textAutoResize = 'height';
   }
 
+  reportUnresolvedLengths(ctx, styles, { targetNodeId: id });
+  if (face?.style === 'italic') {
+    addWarning(
+      ctx,
+      'UnsupportedFontStyle',
+      `fontFamily: ${styles.fontFamily} is italic — text nodes have no font style, drawn upright`,
+      { targetNodeId: id }
+    );
+  }
   return createTextNode({
-    id: generateId(),
+    id,
     name: node.name || 'Text',
     parentId,
     x: styles.x,
     y: styles.y,
     width: styles.width,
     height: styles.height,
+    rotation: resolveRotation(ctx, styles, { targetNodeId: id }),
+    constraints: styles.constraints,
     visible: styles.visible,
     opacity: styles.opacity,
     content,
@@ -85,16 +135,41 @@ export function transformText(
     characters,
     fontFamily,
     fontSize: styles.fontSize ?? 16,
-    fontWeight: styles.fontWeight ?? 400,
+    fontWeight,
     lineHeight: styles.lineHeight
       ? { value: styles.lineHeight, unit: 'px' as const }
       : { value: 1.5, unit: 'auto' as const },
     textAlign,
     ...(fills.length > 0 ? { fills } : {}),
+    effects: resolveEffects(ctx, styles, { targetNodeId: id, text: true }),
+    blendMode: resolveBlendMode(ctx, styles, { targetNodeId: id }),
     textAutoResize,
   });
 }
 
+/** CSS `line-height: normal` is about 1.2× the font size */
+const NORMAL_LINE_HEIGHT = 1.2;
+
+/**
+ * Character widths for a v1 font family (exact name or the document's default
+ * font), or undefined to measure with the fallback table.
+ */
+function findFontMetrics(
+  ctx: TransformContext,
+  fontFamily: string | undefined,
+  weight = 400
+): FontMetrics | undefined {
+  const name = fontFamily ?? ctx.fonts.defaultFontFamily;
+  const metrics =
+    ctx.fontMetrics?.[name] ?? ctx.fontMetrics?.[resolveFontFamily(name, ctx.fontMap)];
+  if (metrics) return metrics;
+
+  // Family name (the default font): the file of the family closest to the weight
+  const family = ctx.fonts.fontAssets[name];
+  const variant = family ? findFontVariant(family, weight, 'normal') : undefined;
+  return variant ? ctx.fontMetrics?.[variant.name] : undefined;
+}
+
 /**
  * Strip HTML tags to get plain text.
  */
@@ -0,0 +1,90 @@
+/**
+ * Transformer Plugins — loads `--transformers <module>` files.
+ *
+ * A plugin is an ES module (or CommonJS file) exporting a `register(api)`
+ * function, or a default function with the same signature:
+ *
+ *   export function register({ registerNodeTransformer, parseNodeStyles }) {
+ *     registerNodeTransformer('localPriceTag', (node, parentId, ctx, parent) => ({ ... }));
+ *   }
+ *
+ * The API is passed in rather than imported so plugins work with the bundled CLI.
+ */
+
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { routeNode } from './nodeRouter.js';
+import { addWarning } from './warnings.js';
+import { registerNodeTransformer } from './transformerRegistry.js';
+import { parseNodeStyles } from '../converters/cssParser.js';
+import { parseColor } from '../converters/colorParser.js';
+import { convertWildcards } from '../converters/wildcardConverter.js';
+import { resolveColor } from './styleHelpers.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface TransformerPluginApi {
+  registerNodeTransformer: typeof registerNodeTransformer;
+  /** Route child nodes (e.g. for container types) through the normal router */
+  routeNode: typeof routeNode;
+  addWarning: typeof addWarning;
+  parseNodeStyles: typeof parseNodeStyles;
+  parseColor: typeof parseColor;
+  /** parseColor that records an `InvalidColor` warning instead of falling back to black */
+  resolveColor: typeof resolveColor;
+  convertWildcards: typeof convertWildcards;
+}
+
+type RegisterFn = (api: TransformerPluginApi) => void | Promise<void>;
+
+const PLUGIN_API: TransformerPluginApi = {
+  registerNodeTransformer,
+  routeNode,
+  addWarning,
+  parseNodeStyles,
+  parseColor,
+  resolveColor,
+  convertWildcards,
+};
+
+// ═══════════════════════════════════════════════════════════════
+// LOADER
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Import each module (paths relative to the cwd) and call its `register` function.
+ *
+ * @throws Error if a module can't be imported or exports no register function
+ */
+export async function loadTransformerModules(paths: string[]): Promise<void> {
+  for (const path of paths) {
+    const url = pathToFileURL(resolve(path)).href;
+
+    let mod: Record<string, unknown>;
+    try {
+      mod = (await import(url)) as Record<string, unknown>;
+    } catch (error) {
+      throw new Error(
+        `Cannot load transformers from ${path}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const register = findRegisterFn(mod);
+    if (!register) {
+      throw new Error(`${path} must export a register(api) function (named or default)`);
+    }
+    await register(PLUGIN_API);
+  }
+}
+
+function findRegisterFn(mod: Record<string, unknown>): RegisterFn | undefined {
+  if (typeof mod.register === 'function') return mod.register as RegisterFn;
+  if (typeof mod.default === 'function') return mod.default as RegisterFn;
+
+  // CommonJS module imported from ESM: exports live under `default`
+  const cjs = mod.default as Record<string, unknown> | undefined;
+  if (cjs && typeof cjs.register === 'function') return cjs.register as RegisterFn;
+  return undefined;
+}
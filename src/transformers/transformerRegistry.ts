@@ -0,0 +1,71 @@
+/**
+ * Transformer Registry — custom transformers for v1 node types the router
+ * doesn't know (customer-specific components), so accounts don't need a fork
+ * of `nodeRouter.ts`.
+ *
+ * Registered transformers are looked up by `routeNode` before falling back to
+ * the `UnknownNodeType` warning. Built-in types can't be overridden.
+ */
+
+import type { SceneNode } from '@design-studio/schema';
+import type { ProlibuNode } from '../types/prolibu.js';
+import type { ParentDimensions } from '../converters/cssParser.js';
+import type { TransformContext } from './nodeRouter.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Same contract as the built-in transformers: return the created node(s),
+ * with `parentId` set; return `[]` to drop the node.
+ */
+export type NodeTransformer = (
+  node: ProlibuNode,
+  parentId: string,
+  ctx: TransformContext,
+  parentDimensions?: ParentDimensions
+) => SceneNode | SceneNode[];
+
+/** Types handled by the router's own `switch` */
+export const BUILT_IN_NODE_TYPES = [
+  'localText',
+  'localRectangle',
+  'localGroup',
+  'localCom',
+  'localLineHorizontal',
+  'localLayoutContent',
+] as const;
+
+const transformers = new Map<string, NodeTransformer>();
+
+// ═══════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Register a transformer for a v1 node type.
+ *
+ * @throws Error if the type is built-in or already registered
+ */
+export function registerNodeTransformer(type: string, fn: NodeTransformer): void {
+  if ((BUILT_IN_NODE_TYPES as readonly string[]).includes(type)) {
+    throw new Error(`Cannot register a transformer for built-in node type "${type}"`);
+  }
+  if (transformers.has(type)) {
+    throw new Error(`A transformer for node type "${type}" is already registered`);
+  }
+  transformers.set(type, fn);
+}
+
+export function unregisterNodeTransformer(type: string): boolean {
+  return transformers.delete(type);
+}
+
+export function getNodeTransformer(type: string): NodeTransformer | undefined {
+  return transformers.get(type);
+}
+
+export function listNodeTransformers(): string[] {
+  return [...transformers.keys()];
+}
@@ -0,0 +1,77 @@
+/**
+ * Warning helpers for transformers — build a `MigrationWarning` (or a
+ * `SkippedNode`) with the source node taken from the context's current source path.
+ */
+
+import {
+  WARNING_SEVERITY,
+  type MigrationWarning,
+  type MigrationWarningCode,
+  type MigrationWarningSource,
+  type WarningSeverity,
+} from '../types/migrationWarning.js';
+import type { SkippedNode, TransformContext } from './nodeRouter.js';
+
+/**
+ * Record a warning on the context.
+ *
+ * The source node is the innermost entry of `ctx.sourcePath` (the node being
+ * transformed) unless given in `details` (for passes that run after the
+ * transform); severity defaults to the code's default.
+ */
+export function addWarning(
+  ctx: TransformContext,
+  code: MigrationWarningCode,
+  message: string,
+  details: {
+    targetNodeId?: string;
+    severity?: WarningSeverity;
+    sourceNode?: MigrationWarningSource;
+  } = {}
+): MigrationWarning {
+  const path = ctx.sourcePath ?? [];
+  const current = path[path.length - 1];
+
+  const warning: MigrationWarning = {
+    code,
+    severity: details.severity ?? WARNING_SEVERITY[code],
+    message,
+    sourceNode:
+      details.sourceNode ??
+      (current
+        ? {
+            name: current.name,
+            type: current.type,
+            path: path.map((p) => p.name).join(' / '),
+          }
+        : undefined),
+    targetNodeId: details.targetNodeId,
+  };
+
+  ctx.warnings.push(warning);
+  return warning;
+}
+
+/**
+ * Record a v1 node that produced no v2 node.
+ *
+ * Defaults to the innermost entry of `ctx.sourcePath`; pass `node` for a child
+ * that is skipped before being routed (it is appended to the current path).
+ */
+export function recordSkippedNode(
+  ctx: TransformContext,
+  reason: string,
+  node?: { name: string; type: string }
+): void {
+  const path = [...(ctx.sourcePath ?? []), ...(node ? [node] : [])];
+  const current = path[path.length - 1];
+  if (!current) return;
+
+  const skipped: SkippedNode = {
+    name: current.name,
+    type: current.type,
+    path: path.map((p) => p.name).join(' / '),
+    reason,
+  };
+  (ctx.skippedNodes ??= []).push(skipped);
+}
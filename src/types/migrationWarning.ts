@@ -0,0 +1,101 @@
+/**
+ * Migration warnings — structured diagnostics emitted by transformers and
+ * the pipeline (replaces the old `"Code: message"` strings).
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// CODES + SEVERITY
+// ═══════════════════════════════════════════════════════════════
+
+export type WarningSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * Default severity per code. `info` = expected substitution (nothing lost),
+ * `warning` = something was dropped or approximated, `error` = content lost.
+ */
+export const WARNING_SEVERITY = {
+  /** Source node type has no transformer — node skipped */
+  UnknownNodeType: 'error',
+  /** localGroup with comCompConfig but no localCom descendant — migrated as a plain frame */
+  MissingLocalCom: 'warning',
+  /** localCom name has no plugin mapping — fallback component created */
+  UnknownComponent: 'warning',
+  /** v1 component prop not in the v2 plugin's prop schema — kept as-is */
+  UnknownProp: 'warning',
+  /** v1 component prop doesn't match the v2 plugin's prop schema — dropped */
+  InvalidProp: 'warning',
+  /** v1 color value isn't a CSS color (or an unresolved var()/currentColor) — fill/stroke left out */
+  InvalidColor: 'warning',
+  /** Gradient that can't become a v2 gradient fill (repeating, conic, malformed, over an image) — dropped */
+  UnsupportedGradient: 'warning',
+  /** boxShadow/textShadow/filter/mixBlendMode value with no v2 effect or blend mode — dropped */
+  UnsupportedEffect: 'warning',
+  /** Italic font file set on a whole text node (text nodes have no font style) — drawn upright */
+  UnsupportedFontStyle: 'warning',
+  /** transform part with no v2 equivalent (skew, matrix, flip, 3D) — ignored */
+  UnsupportedTransform: 'warning',
+  /** Image (or data URI) couldn't be copied to the destination — source URL / data URI kept */
+  ImageSyncFailed: 'warning',
+  /** Background size/position/repeat drawn approximately (unknown image size, stretch, frame) */
+  ImageFitApproximated: 'warning',
+  /** Image or font URL answers 404, another HTTP error, times out or is unreachable (`--check-assets`) */
+  BrokenAsset: 'error',
+  /** Image or font served over plain http:// — blocked on pages served over https (`--check-assets`) */
+  MixedContent: 'warning',
+  /** CSS length that can't be resolved (unknown unit, % without a parent size, bad calc()) — default used */
+  UnresolvedLength: 'warning',
+  /** Component renders in export but is not editable in the canvas */
+  RenderOnlyComponent: 'info',
+  /** Border differs per side (v2 strokes apply to all sides) — drawn as separate lines */
+  BorderAsLines: 'info',
+  /** Overlapping siblings drawn in a different order than the source array (by zIndex) */
+  StackingReordered: 'info',
+  /** Frame replaced by a v2 page preset */
+  PagePresetResolved: 'info',
+  /** Placeholder frame replaced by a v2 marker preset */
+  MarkerPresetResolved: 'info',
+  /** Warning reported by `validateDocument` */
+  Validation: 'warning',
+} as const satisfies Record<string, WarningSeverity>;
+
+export type MigrationWarningCode = keyof typeof WARNING_SEVERITY;
+
+export const WARNING_CODES = Object.keys(WARNING_SEVERITY) as MigrationWarningCode[];
+
+/** Ordering used by `--warn-level` */
+export const SEVERITY_RANK: Record<WarningSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+};
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export interface MigrationWarningSource {
+  /** v1 node name */
+  name: string;
+  /** v1 node type (localText, localGroup, FRAME, ...) */
+  type: string;
+  /** Names from the page frame down to this node, e.g. "Cover / Header / Title" */
+  path: string;
+}
+
+export interface MigrationWarning {
+  code: MigrationWarningCode;
+  severity: WarningSeverity;
+  message: string;
+  /** v1 node that caused the warning (absent for document-level warnings) */
+  sourceNode?: MigrationWarningSource;
+  /** ID of the v2 node created for it, when there is one */
+  targetNodeId?: string;
+}
+
+/**
+ * One-line representation for console output: `Code: message (at path)`.
+ */
+export function formatWarning(warning: MigrationWarning): string {
+  const at = warning.sourceNode ? ` (at ${warning.sourceNode.path})` : '';
+  return `${warning.code}: ${warning.message}${at}`;
+}